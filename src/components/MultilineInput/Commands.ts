@@ -0,0 +1,256 @@
+import type { Key, Buffer, Cursor, WrapStrategy } from './types.js';
+import type { KeyHandlerActions } from './KeyHandler.js';
+import { getVisualPosition, getVisualRowCount } from './Layout.js';
+import { log } from '../../utils/logger.js';
+
+/**
+ * Everything a command needs to act on a key press.
+ */
+export interface CommandContext {
+  /** Actions that modify the text input state */
+  actions: KeyHandlerActions;
+  /** The current text buffer */
+  buffer: Buffer;
+  /** The current cursor position (if known) */
+  cursor?: Cursor;
+  /** Terminal width for visual-aware boundary detection (if known) */
+  width?: number;
+  /** How lines wrap at that width (defaults to word wrapping) */
+  wrapStrategy?: WrapStrategy;
+  /** Whether Enter after a trailing `\` continues the line (defaults to true) */
+  backslashContinuation?: boolean;
+  /** The key that triggered the command */
+  key: Partial<Key>;
+  /** The input string that came with the key */
+  input: string;
+}
+
+/**
+ * A named editor command that a keymap can bind chords to.
+ */
+export type Command = (context: CommandContext) => void;
+
+/**
+ * Commands by name.
+ */
+export type CommandRegistry = Record<string, Command>;
+
+/**
+ * Check if cursor is at the left boundary (start of text).
+ */
+function isAtLeftBoundary(cursor: Cursor): boolean {
+  return cursor.line === 0 && cursor.column === 0;
+}
+
+/**
+ * Check if cursor is at the right boundary (end of text).
+ */
+function isAtRightBoundary(buffer: Buffer, cursor: Cursor): boolean {
+  const lastLineIndex = buffer.lines.length - 1;
+  const lastLine = buffer.lines[lastLineIndex];
+  return cursor.line === lastLineIndex && cursor.column >= lastLine.length;
+}
+
+/**
+ * Check if cursor is at the top boundary (cannot move up).
+ * When width is provided, this considers visual line wrapping.
+ */
+export function isAtTopBoundary(
+  buffer: Buffer,
+  cursor: Cursor,
+  width?: number,
+  wrapStrategy?: WrapStrategy
+): boolean {
+  if (cursor.line > 0) {
+    return false;
+  }
+
+  // Cursor is on first buffer line; with a width it must also be on its first visual row
+  if (width !== undefined) {
+    return getVisualPosition(buffer.lines[0], cursor.column, width, wrapStrategy).row === 0;
+  }
+
+  // No width - buffer line-based: first line means at top
+  return true;
+}
+
+/**
+ * Check if cursor is at the bottom boundary (cannot move down).
+ * When width is provided, this considers visual line wrapping.
+ */
+export function isAtBottomBoundary(
+  buffer: Buffer,
+  cursor: Cursor,
+  width?: number,
+  wrapStrategy?: WrapStrategy
+): boolean {
+  const lastLineIndex = buffer.lines.length - 1;
+
+  if (cursor.line < lastLineIndex) {
+    return false;
+  }
+
+  // Cursor is on last buffer line; with a width it must also be on its last visual row
+  if (width !== undefined) {
+    const lastLine = buffer.lines[lastLineIndex];
+    const { row } = getVisualPosition(lastLine, cursor.column, width, wrapStrategy);
+    return row === getVisualRowCount(lastLine, width, wrapStrategy) - 1;
+  }
+
+  // No width - buffer line-based: last line means at bottom
+  return true;
+}
+
+/**
+ * Built-in commands available to every keymap.
+ * Apps can add their own by passing a `commands` registry next to the keymap.
+ */
+export const defaultCommands: CommandRegistry = {
+  // Navigation with boundary detection
+  // (history recall takes precedence over onBoundaryArrow)
+  moveUp: ({ actions, buffer, cursor, width, wrapStrategy }) => {
+    if (cursor && isAtTopBoundary(buffer, cursor, width, wrapStrategy)) {
+      if (actions.historyPrevious?.()) {
+        return;
+      }
+      if (actions.onBoundaryArrow) {
+        actions.onBoundaryArrow('up');
+        return;
+      }
+    }
+    actions.moveCursor('up');
+  },
+  moveDown: ({ actions, buffer, cursor, width, wrapStrategy }) => {
+    if (cursor && isAtBottomBoundary(buffer, cursor, width, wrapStrategy)) {
+      if (actions.historyNext?.()) {
+        return;
+      }
+      if (actions.onBoundaryArrow) {
+        actions.onBoundaryArrow('down');
+        return;
+      }
+    }
+    actions.moveCursor('down');
+  },
+  moveLeft: ({ actions, cursor }) => {
+    if (cursor && actions.onBoundaryArrow && isAtLeftBoundary(cursor)) {
+      actions.onBoundaryArrow('left');
+      return;
+    }
+    actions.moveCursor('left');
+  },
+  // At the end of the text, Right accepts a ghost-text suggestion first
+  moveRight: ({ actions, buffer, cursor }) => {
+    if (cursor && isAtRightBoundary(buffer, cursor)) {
+      if (actions.acceptSuggestion?.()) {
+        return;
+      }
+      if (actions.onBoundaryArrow) {
+        actions.onBoundaryArrow('right');
+        return;
+      }
+    }
+    actions.moveCursor('right');
+  },
+  movePageUp: ({ actions }) => actions.movePage('up'),
+  movePageDown: ({ actions }) => actions.movePage('down'),
+  moveLineStart: ({ actions }) => actions.moveCursor('lineStart'),
+  moveLineEnd: ({ actions }) => actions.moveCursor('lineEnd'),
+  moveWordLeft: ({ actions }) => actions.moveCursor('wordLeft'),
+  moveWordRight: ({ actions, buffer, cursor }) => {
+    if (cursor && isAtRightBoundary(buffer, cursor) && actions.acceptSuggestionWord?.()) {
+      return;
+    }
+    actions.moveCursor('wordRight');
+  },
+
+  // Selection
+  selectUp: ({ actions }) => actions.extendSelection('up'),
+  selectDown: ({ actions }) => actions.extendSelection('down'),
+  selectLeft: ({ actions }) => actions.extendSelection('left'),
+  selectRight: ({ actions }) => actions.extendSelection('right'),
+  selectLineStart: ({ actions }) => actions.extendSelection('lineStart'),
+  selectLineEnd: ({ actions }) => actions.extendSelection('lineEnd'),
+  clearSelection: ({ actions }) => actions.clearSelection(),
+
+  // Editing
+  deleteBackward: ({ actions }) => {
+    if (actions.deleteTokenBackward?.()) {
+      return;
+    }
+    actions.delete();
+  },
+  deleteForward: ({ actions }) => actions.deleteForward(),
+  deleteWordBackward: ({ actions }) => actions.deleteWordBackward(),
+  deleteWordForward: ({ actions }) => actions.deleteWordForward(),
+  newLine: ({ actions }) => actions.newLine(),
+  togglePaste: ({ actions }) => {
+    actions.togglePaste?.();
+  },
+
+  // Kill ring
+  killToLineEnd: ({ actions }) => actions.killToLineEnd(),
+  killToLineStart: ({ actions }) => actions.killToLineStart(),
+  yank: ({ actions }) => actions.yank(),
+  yankPop: ({ actions }) => actions.yankPop(),
+
+  // Transposition and case
+  transposeChars: ({ actions }) => actions.transposeChars(),
+  transposeWords: ({ actions }) => actions.transposeWords(),
+  upcaseWord: ({ actions }) => actions.upcaseWord(),
+  downcaseWord: ({ actions }) => actions.downcaseWord(),
+  capitalizeWord: ({ actions }) => actions.capitalizeWord(),
+
+  // Mark and region
+  setMark: ({ actions }) => actions.setMark(),
+  exchangePointAndMark: ({ actions }) => actions.exchangePointAndMark(),
+  killRegion: ({ actions }) => actions.killRegion(),
+  copyRegion: ({ actions }) => actions.copyRegion(),
+
+  // Completion
+  // Without a completion provider, Tab accepts the ghost-text suggestion
+  complete: ({ actions }) => {
+    if (actions.complete) {
+      actions.complete();
+      return;
+    }
+    actions.acceptSuggestion?.();
+  },
+
+  // History
+  undo: ({ actions }) => actions.undo(),
+  redo: ({ actions }) => actions.redo(),
+  historyPrevious: ({ actions }) => {
+    actions.historyPrevious?.();
+  },
+  historyNext: ({ actions }) => {
+    actions.historyNext?.();
+  },
+  historySearch: ({ actions }) => actions.historySearch?.(),
+
+  // Submission
+  submit: ({ actions }) => actions.submit(),
+  submitOrContinue: ({ actions, buffer, cursor, backslashContinuation = true }) => {
+    log(`[KEYHANDLER] return key, cursor=${JSON.stringify(cursor)}, currentLine="${(cursor ? buffer.lines[cursor.line || 0] : 'no cursor').replace(/[\x00-\x1F\x7F-\uFFFF]/g, c => `\\x${c.charCodeAt(0).toString(16)}`)}" endsWithBackslash=${cursor ? buffer.lines[cursor.line || 0].endsWith('\\') : false}`);
+    if (cursor && backslashContinuation) {
+      // Line ending with \ + Enter continues to the next line instead of submitting
+      if (buffer.lines[cursor.line].endsWith('\\')) {
+        // Use combined action to ensure both operations happen with correct state
+        actions.deleteAndNewLine();
+        return;
+      }
+    }
+
+    log(`[KEYHANDLER] submit value lines=${buffer.lines.length} lastLine="${buffer.lines[buffer.lines.length-1]?.replace(/[\x00-\x1F\x7F-\uFFFF]/g, c => `\\x${c.charCodeAt(0).toString(16)}`)}"`);
+    actions.submit();
+  },
+  newLineOrSubmit: ({ actions, buffer, cursor }) => {
+    const lastLine = buffer.lines.length - 1;
+    if (!cursor || cursor.line !== lastLine || buffer.lines[lastLine] !== '') {
+      actions.newLine();
+      return;
+    }
+    // Enter on an empty last line submits, without that line
+    actions.submit(lastLine > 0 ? buffer.lines.slice(0, lastLine).join('\n') : undefined);
+  },
+};
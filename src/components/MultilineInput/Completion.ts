@@ -0,0 +1,67 @@
+/**
+ * A completion candidate. `start` and `end` are offsets into the text the
+ * provider was called with; that range is replaced by `value` on accept.
+ */
+export interface CompletionCandidate {
+  /** Text inserted in place of the replaced range */
+  value: string;
+  /** Text shown in the menu (defaults to `value`) */
+  label?: string;
+  /** Extra detail shown dimmed next to the label */
+  description?: string;
+  /** Start of the range to replace (UTF-16 offset into the text) */
+  start: number;
+  /** End of the range to replace (UTF-16 offset into the text) */
+  end: number;
+}
+
+/**
+ * Returns completion candidates for the text at the cursor, either directly
+ * or as a promise. An empty list means there is nothing to complete.
+ */
+export type CompletionProvider = (
+  text: string,
+  cursorOffset: number
+) => CompletionCandidate[] | Promise<CompletionCandidate[]>;
+
+/**
+ * What a key press does while the completion menu is open.
+ */
+export type CompletionKeyAction = 'next' | 'previous' | 'accept' | 'dismiss';
+
+/**
+ * Map a chord to a completion menu action, or undefined if the key should be
+ * handled by the editor as usual (typing keeps refining the candidates).
+ */
+export function getCompletionKeyAction(chord: string | undefined): CompletionKeyAction | undefined {
+  switch (chord) {
+    case 'tab':
+    case 'down':
+      return 'next';
+    case 'shift+tab':
+    case 'up':
+      return 'previous';
+    case 'return':
+      return 'accept';
+    case 'escape':
+      return 'dismiss';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Replace the candidate's range with its value.
+ * Returns the new text and the cursor offset just after the inserted value.
+ */
+export function applyCompletion(
+  text: string,
+  candidate: CompletionCandidate
+): { text: string; cursorOffset: number } {
+  const start = Math.max(0, Math.min(candidate.start, text.length));
+  const end = Math.max(start, Math.min(candidate.end, text.length));
+  return {
+    text: text.slice(0, start) + candidate.value + text.slice(end),
+    cursorOffset: start + candidate.value.length,
+  };
+}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Box, Text } from 'ink';
+import type { CompletionCandidate } from './Completion.js';
+
+/**
+ * Props for the CompletionMenu component
+ */
+export interface CompletionMenuProps {
+  /** Candidates to list */
+  candidates: CompletionCandidate[];
+  /** Index of the highlighted candidate */
+  selectedIndex: number;
+  /** Maximum number of rows shown at once (defaults to 8) */
+  maxVisible?: number;
+}
+
+/**
+ * Vertical list of completion candidates with the selected one highlighted.
+ * Long lists scroll to keep the selection visible.
+ */
+export function CompletionMenu({
+  candidates,
+  selectedIndex,
+  maxVisible = 8,
+}: CompletionMenuProps): React.ReactElement {
+  const visibleCount = Math.max(1, Math.min(maxVisible, candidates.length));
+  const first = Math.max(
+    0,
+    Math.min(selectedIndex - Math.floor(visibleCount / 2), candidates.length - visibleCount)
+  );
+  const visible = candidates.slice(first, first + visibleCount);
+
+  return (
+    <Box flexDirection="column">
+      {visible.map((candidate, i) => {
+        const index = first + i;
+        return (
+          <Box key={index}>
+            <Text inverse={index === selectedIndex}>{candidate.label ?? candidate.value}</Text>
+            {candidate.description ? <Text dimColor> {candidate.description}</Text> : null}
+          </Box>
+        );
+      })}
+      {candidates.length > visibleCount ? (
+        <Text dimColor>
+          {selectedIndex + 1}/{candidates.length}
+        </Text>
+      ) : null}
+    </Box>
+  );
+}
@@ -0,0 +1,183 @@
+import { splitGraphemes } from '../../utils/graphemes.js';
+
+/**
+ * How a search query matches history entries:
+ * - 'substring': the entry contains the query
+ * - 'fuzzy': the query's characters appear in order (case-insensitive)
+ */
+export type HistorySearchMatcher = 'substring' | 'fuzzy';
+
+/**
+ * State of a reverse incremental search (Ctrl+R).
+ */
+export interface HistorySearchState {
+  /** Text typed so far */
+  query: string;
+  /** Index of the matched history entry, or null when nothing matches yet */
+  matchIndex: number | null;
+  /** UTF-16 offset of the match within the entry */
+  matchOffset: number;
+  /** True when the last search step found nothing */
+  failed: boolean;
+}
+
+/**
+ * Outcome of a key press during a search:
+ * - 'update': keep searching with the new state
+ * - 'accept': leave search and load `text` (undefined keeps the draft);
+ *   with `runKey`, the key is then handled as usual, like readline does
+ * - 'cancel': leave search and keep the draft
+ */
+export type HistorySearchResult =
+  | { type: 'update'; state: HistorySearchState }
+  | { type: 'accept'; text: string | undefined; runKey?: boolean }
+  | { type: 'cancel' };
+
+export function createHistorySearch(): HistorySearchState {
+  return { query: '', matchIndex: null, matchOffset: 0, failed: false };
+}
+
+/**
+ * Find where `query` matches `entry`. Returns the offset of the first
+ * matched character, or undefined if the entry does not match.
+ */
+export function matchHistoryEntry(
+  entry: string,
+  query: string,
+  matcher: HistorySearchMatcher
+): number | undefined {
+  if (matcher === 'substring') {
+    const offset = entry.indexOf(query);
+    return offset === -1 ? undefined : offset;
+  }
+
+  const haystack = entry.toLowerCase();
+  const needle = query.toLowerCase();
+  let start: number | undefined;
+  let position = 0;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position);
+    if (found === -1) return undefined;
+    start ??= found;
+    position = found + char.length;
+  }
+  return start ?? 0;
+}
+
+/**
+ * Search `entries` from index `from` (inclusive) towards older entries
+ * (direction -1) or newer ones (direction 1). Entries equal to `skip` are
+ * passed over so repeated searches do not show the same text twice.
+ */
+export function findHistoryMatch(
+  entries: string[],
+  query: string,
+  from: number,
+  direction: -1 | 1,
+  matcher: HistorySearchMatcher,
+  skip?: string
+): { index: number; offset: number } | undefined {
+  for (let index = from; index >= 0 && index < entries.length; index += direction) {
+    if (entries[index] === skip) continue;
+    const offset = matchHistoryEntry(entries[index], query, matcher);
+    if (offset !== undefined) {
+      return { index, offset };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Move the search to the next match, keeping the current match (and
+ * flagging the search as failed) when there is none.
+ */
+function step(
+  state: HistorySearchState,
+  entries: string[],
+  query: string,
+  from: number,
+  direction: -1 | 1,
+  matcher: HistorySearchMatcher,
+  skip?: string
+): HistorySearchState {
+  if (!query) {
+    return { query, matchIndex: null, matchOffset: 0, failed: false };
+  }
+  const match = findHistoryMatch(entries, query, from, direction, matcher, skip);
+  if (!match) {
+    return { ...state, query, failed: true };
+  }
+  return { query, matchIndex: match.index, matchOffset: match.offset, failed: false };
+}
+
+/**
+ * Handle a key press while searching.
+ *
+ * Printable input extends the query, Backspace shortens it, Ctrl+R steps to
+ * older matches and Ctrl+S to newer ones. Enter accepts the match, Escape
+ * or Ctrl+G cancels, and any other key accepts the match and then runs
+ * (Ctrl+E lands at the end of the entry, arrows move within it).
+ */
+export function handleHistorySearchKey(
+  state: HistorySearchState,
+  chord: string | undefined,
+  input: string,
+  entries: string[],
+  matcher: HistorySearchMatcher = 'substring'
+): HistorySearchResult {
+  const current = state.matchIndex === null ? undefined : entries[state.matchIndex];
+  const newest = entries.length - 1;
+
+  switch (chord) {
+    case 'ctrl+r':
+      return {
+        type: 'update',
+        state: step(state, entries, state.query, (state.matchIndex ?? newest + 1) - 1, -1, matcher, current),
+      };
+    case 'ctrl+s':
+      if (state.matchIndex === null) {
+        return { type: 'update', state };
+      }
+      return {
+        type: 'update',
+        state: step(state, entries, state.query, state.matchIndex + 1, 1, matcher, current),
+      };
+    case 'backspace': {
+      const query = splitGraphemes(state.query).slice(0, -1).join('');
+      return { type: 'update', state: step(state, entries, query, newest, -1, matcher) };
+    }
+    case 'escape':
+    case 'ctrl+g':
+      return { type: 'cancel' };
+    case 'return':
+      return { type: 'accept', text: current };
+  }
+
+  const isText = chord === undefined || chord === 'space' || [...chord].length === 1;
+  if (isText && input && !input.includes('\x1b')) {
+    return { type: 'update', state: extendHistorySearch(state, input, entries, matcher) };
+  }
+
+  return { type: 'accept', text: current, runKey: true };
+}
+
+/**
+ * Add typed or pasted text to the query, with line breaks as spaces.
+ */
+export function extendHistorySearch(
+  state: HistorySearchState,
+  text: string,
+  entries: string[],
+  matcher: HistorySearchMatcher = 'substring'
+): HistorySearchState {
+  // Keep the current match while it still matches the longer query
+  const query = state.query + text.replace(/[\r\n]+/g, ' ');
+  return step(state, entries, query, state.matchIndex ?? entries.length - 1, -1, matcher);
+}
+
+/**
+ * Prompt shown on the search line, e.g. "(reverse-i-search)`git'".
+ */
+export function formatHistorySearchPrompt(state: HistorySearchState): string {
+  return `(${state.failed ? 'failed ' : ''}reverse-i-search)\`${state.query}'`;
+}
@@ -0,0 +1,392 @@
+import type { Key } from './types.js';
+
+/**
+ * A key press decoded from stdin. `input` follows Ink's conventions: the
+ * typed text for printable keys (consecutive characters from one read are
+ * grouped), the letter for Ctrl+letter, and empty for named keys.
+ */
+export interface KeyEvent {
+  key: Key;
+  input: string;
+}
+
+/**
+ * Bytes of an unfinished escape sequence, carried from one stdin chunk to
+ * the next.
+ */
+export interface KeyDecoderState {
+  pending: string;
+}
+
+/**
+ * A terminal's reply to a query, found among the keys:
+ * - 'keyboardFlags': the kitty keyboard protocol flags (`CSI ? flags u`)
+ * - 'deviceAttributes': primary device attributes (`CSI ? … c`)
+ */
+export type TerminalResponse = { type: 'keyboardFlags'; flags: number } | { type: 'deviceAttributes' };
+
+export interface KeyDecoderResult {
+  state: KeyDecoderState;
+  events: KeyEvent[];
+  responses: TerminalResponse[];
+}
+
+/**
+ * How long to wait for the rest of an escape sequence before taking a lone
+ * ESC as the Escape key (or ESC plus a character as Alt+character).
+ */
+export const ESCAPE_TIMEOUT_MS = 50;
+
+const ESC = '\x1b';
+
+// Named keys by CSI / SS3 final character
+const LETTER_KEYS: Record<string, Key> = {
+  A: { upArrow: true },
+  B: { downArrow: true },
+  C: { rightArrow: true },
+  D: { leftArrow: true },
+  H: { home: true },
+  F: { end: true },
+  P: { functionKey: 1 },
+  Q: { functionKey: 2 },
+  R: { functionKey: 3 },
+  S: { functionKey: 4 },
+};
+
+// rxvt sends Shift+arrows as CSI a–d and Ctrl+arrows as SS3 a–d
+const RXVT_ARROWS: Record<string, Key> = {
+  a: { upArrow: true },
+  b: { downArrow: true },
+  c: { rightArrow: true },
+  d: { leftArrow: true },
+};
+
+// Named keys by the number in `CSI number ~`
+const TILDE_KEYS: Record<number, Key> = {
+  1: { home: true },
+  2: { insert: true },
+  3: { delete: true },
+  4: { end: true },
+  5: { pageUp: true },
+  6: { pageDown: true },
+  7: { home: true },
+  8: { end: true },
+  11: { functionKey: 1 },
+  12: { functionKey: 2 },
+  13: { functionKey: 3 },
+  14: { functionKey: 4 },
+  15: { functionKey: 5 },
+  17: { functionKey: 6 },
+  18: { functionKey: 7 },
+  19: { functionKey: 8 },
+  20: { functionKey: 9 },
+  21: { functionKey: 10 },
+  23: { functionKey: 11 },
+  24: { functionKey: 12 },
+};
+
+// Named keys by the code in kitty's `CSI code u` and modifyOtherKeys'
+// `CSI 27 ; modifier ; code ~`
+const CODEPOINT_KEYS: Record<number, Key> = {
+  9: { tab: true },
+  13: { return: true },
+  27: { escape: true },
+  127: { backspace: true },
+  // Keypad keys, which kitty reports by private use code points
+  57414: { return: true },
+  57417: { leftArrow: true },
+  57418: { rightArrow: true },
+  57419: { upArrow: true },
+  57420: { downArrow: true },
+  57421: { pageUp: true },
+  57422: { pageDown: true },
+  57423: { home: true },
+  57424: { end: true },
+  57425: { insert: true },
+  57426: { delete: true },
+};
+
+// Characters of kitty's keypad text keys: KP_0–KP_9 (57399–57408), then
+// decimal point, divide, multiply, subtract and add, and KP_EQUAL after
+// KP_ENTER
+const KEYPAD_TEXT: Record<number, string> = {
+  ...Object.fromEntries([...'0123456789./*-+'].map((char, i) => [57399 + i, char])),
+  57415: '=',
+};
+
+// Kitty's functional keys without text use private use code points; the
+// ones not named above (media keys, lone modifiers, ...) are dropped
+const PRIVATE_USE_START = 0xe000;
+const PRIVATE_USE_END = 0xf8ff;
+
+// Modifiers of rxvt's alternative `~` finals
+const RXVT_FINALS: Record<string, Key> = {
+  $: { shift: true },
+  '^': { ctrl: true },
+  '@': { ctrl: true, shift: true },
+};
+
+export function createKeyDecoder(): KeyDecoderState {
+  return { pending: '' };
+}
+
+/**
+ * Decode a stdin chunk into key events. An escape sequence cut off at the
+ * end of the chunk is kept in the returned state and completed by the next
+ * chunk; if none comes within `ESCAPE_TIMEOUT_MS`, call `flushKeys`.
+ * Unrecognized escape sequences are dropped rather than typed as text.
+ */
+export function decodeKeys(state: KeyDecoderState, chunk: string): KeyDecoderResult {
+  const data = state.pending + chunk;
+  const events: KeyEvent[] = [];
+  const responses: TerminalResponse[] = [];
+  let index = 0;
+
+  while (index < data.length) {
+    const parsed = parseKey(data, index);
+    if (!parsed) {
+      return { state: { pending: data.slice(index) }, events, responses };
+    }
+    if (parsed.event) {
+      events.push(parsed.event);
+    }
+    if (parsed.response) {
+      responses.push(parsed.response);
+    }
+    index = parsed.end;
+  }
+
+  return { state: createKeyDecoder(), events, responses };
+}
+
+/**
+ * Give up waiting for the rest of a pending escape sequence: a lone ESC is
+ * the Escape key and ESC plus one character is Alt+character. Longer
+ * fragments are dropped.
+ */
+export function flushKeys(state: KeyDecoderState): KeyDecoderResult {
+  const { pending } = state;
+  const events: KeyEvent[] = [];
+  if (pending === ESC) {
+    events.push({ key: { escape: true }, input: '' });
+  } else if (pending === ESC + ESC) {
+    events.push({ key: { escape: true, meta: true }, input: '' });
+  } else if (pending.length === 2) {
+    const event = parseControl(pending[1]) ?? { key: {}, input: pending[1] };
+    events.push(withModifiers(event, { meta: true }));
+  }
+  return { state: createKeyDecoder(), events, responses: [] };
+}
+
+interface ParsedKey {
+  /** The key, or undefined for a sequence that is skipped */
+  event?: KeyEvent;
+  /** Set when the sequence was a reply to a query rather than a key */
+  response?: TerminalResponse;
+  /** Offset just past the key */
+  end: number;
+}
+
+/**
+ * Parse the key starting at `index`, or return undefined if the data ends
+ * inside an escape sequence.
+ */
+function parseKey(data: string, index: number): ParsedKey | undefined {
+  const char = data[index];
+  if (char !== ESC) {
+    const control = parseControl(char);
+    if (control) {
+      return { event: control, end: index + 1 };
+    }
+    // Group printable characters, as a fast typist or a plain paste sends them
+    let end = index + 1;
+    while (end < data.length && data[end] !== ESC && !parseControl(data[end])) {
+      end++;
+    }
+    return { event: { key: {}, input: data.slice(index, end) }, end };
+  }
+
+  const next = data[index + 1];
+  if (next === undefined) return undefined;
+  if (next === '[') return parseCsi(data, index);
+  if (next === 'O') return parseSs3(data, index);
+
+  if (next === ESC) {
+    // Alt with a key that sends an escape sequence (macOS Terminal Alt+arrows)
+    const inner = parseKey(data, index + 1);
+    if (!inner) return undefined;
+    return { event: inner.event && withModifiers(inner.event, { meta: true }), end: inner.end };
+  }
+
+  // Alt+key arrives as ESC followed by the key
+  const typed = String.fromCodePoint(data.codePointAt(index + 1)!);
+  const event = parseControl(typed) ?? { key: {}, input: typed };
+  return { event: withModifiers(event, { meta: true }), end: index + 1 + typed.length };
+}
+
+/**
+ * Keys sent as a single control character, or undefined for printable ones.
+ */
+function parseControl(char: string): KeyEvent | undefined {
+  const code = char.charCodeAt(0);
+  switch (char) {
+    case '\r':
+      return { key: { return: true }, input: '' };
+    case '\n':
+      return { key: { ctrl: true }, input: 'j' };
+    case '\t':
+      return { key: { tab: true }, input: '' };
+    case '\x7f':
+    case '\b':
+      return { key: { backspace: true }, input: '' };
+    case '\x00':
+      return { key: { ctrl: true }, input: ' ' };
+  }
+  if (code <= 0x1a) {
+    // Ctrl+A..Z
+    return { key: { ctrl: true }, input: String.fromCharCode(code + 0x60) };
+  }
+  if (code < 0x20) {
+    // Ctrl+\ ] ^ _
+    return { key: { ctrl: true }, input: String.fromCharCode(code + 0x40) };
+  }
+  return undefined;
+}
+
+/**
+ * Parse `ESC [ params final`.
+ */
+function parseCsi(data: string, index: number): ParsedKey | undefined {
+  const start = index + 2;
+
+  // Linux console F1–F5: ESC [ [ A–E
+  if (data[start] === '[') {
+    const final = data[start + 1];
+    if (final === undefined) return undefined;
+    const number = final.charCodeAt(0) - 0x40;
+    return { event: number >= 1 && number <= 5 ? namedKey({ functionKey: number }) : undefined, end: start + 2 };
+  }
+
+  let end = start;
+  while (end < data.length && /[0-9;:<=>?]/.test(data[end])) {
+    end++;
+  }
+  const final = data[end];
+  if (final === undefined) return undefined;
+
+  const params = data.slice(start, end).split(';');
+  const parsed = { end: end + 1 };
+
+  // Replies to the keyboard protocol and device attribute queries
+  if (params[0].startsWith('?')) {
+    if (final === 'u') {
+      return { ...parsed, response: { type: 'keyboardFlags', flags: Number.parseInt(params[0].slice(1), 10) || 0 } };
+    }
+    return final === 'c' ? { ...parsed, response: { type: 'deviceAttributes' } } : parsed;
+  }
+
+  const first = params[0] === '' ? undefined : Number.parseInt(params[0], 10);
+
+  // kitty keyboard protocol: CSI code[:alternates] ; modifier[:event] u
+  if (final === 'u' && first !== undefined) {
+    return { ...parsed, event: codepointKey(first, decodeModifier(params[1])) };
+  }
+
+  // xterm modifyOtherKeys: CSI 27 ; modifier ; code ~
+  if (final === '~' && first === 27 && params.length >= 3) {
+    return { ...parsed, event: codepointKey(Number.parseInt(params[2], 10), decodeModifier(params[1])) };
+  }
+
+  if (final === '~' || RXVT_FINALS[final]) {
+    const key = first === undefined ? undefined : TILDE_KEYS[first];
+    if (!key) return parsed;
+    const modifiers = final === '~' ? decodeModifier(params[1]) : RXVT_FINALS[final];
+    return { ...parsed, event: namedKey({ ...key, ...modifiers }) };
+  }
+
+  if (final === 'Z') {
+    return { ...parsed, event: namedKey({ tab: true, shift: true }) };
+  }
+
+  if (RXVT_ARROWS[final] && params[0] === '') {
+    return { ...parsed, event: namedKey({ ...RXVT_ARROWS[final], shift: true }) };
+  }
+
+  const key = LETTER_KEYS[final];
+  if (!key) return parsed;
+  // `ESC [ 1 ; 5 D` is usual, but older terminals send `ESC [ 5 D`
+  const modifier = params.length > 1 ? params[1] : first === 1 ? undefined : params[0];
+  return { ...parsed, event: namedKey({ ...key, ...decodeModifier(modifier) }) };
+}
+
+/**
+ * Parse `ESC O [modifier] final`.
+ */
+function parseSs3(data: string, index: number): ParsedKey | undefined {
+  let end = index + 2;
+  while (end < data.length && /[0-9]/.test(data[end])) {
+    end++;
+  }
+  const final = data[end];
+  if (final === undefined) return undefined;
+
+  const parsed = { end: end + 1 };
+  const modifiers = decodeModifier(data.slice(index + 2, end));
+  if (final === 'M') {
+    return { ...parsed, event: namedKey({ return: true, ...modifiers }) };
+  }
+  if (RXVT_ARROWS[final]) {
+    return { ...parsed, event: namedKey({ ...RXVT_ARROWS[final], ctrl: true }) };
+  }
+  const key = LETTER_KEYS[final];
+  return key ? { ...parsed, event: namedKey({ ...key, ...modifiers }) } : parsed;
+}
+
+/**
+ * Decode a modifier parameter: 1 plus a bit mask of Shift (1), Alt (2),
+ * Ctrl (4) and Meta (8; kitty's Super, with its Meta at 32). Caps Lock and
+ * Num Lock (64, 128) are ignored.
+ */
+function decodeModifier(param: string | undefined): Key {
+  const value = param ? Number.parseInt(param, 10) - 1 : 0;
+  if (!(value > 0)) return {};
+
+  const key: Key = {};
+  if (value & 1) key.shift = true;
+  if (value & (2 | 8 | 32)) key.meta = true;
+  if (value & 4) key.ctrl = true;
+  return key;
+}
+
+/**
+ * The key for a Unicode code point with modifiers, as the kitty protocol and
+ * modifyOtherKeys report them. Text keys keep the character as input, shown
+ * in upper case when Shift is held.
+ */
+function codepointKey(code: number, modifiers: Key): KeyEvent | undefined {
+  const named = CODEPOINT_KEYS[code];
+  if (named) {
+    return namedKey({ ...named, ...modifiers });
+  }
+  const keypadChar = KEYPAD_TEXT[code];
+  if (keypadChar) {
+    return { key: modifiers, input: keypadChar };
+  }
+  if (!Number.isInteger(code) || code < 0x20 || code > 0x10ffff) {
+    return undefined;
+  }
+  if (code >= PRIVATE_USE_START && code <= PRIVATE_USE_END) {
+    return undefined;
+  }
+
+  const char = String.fromCodePoint(code);
+  return { key: modifiers, input: modifiers.shift ? char.toUpperCase() : char };
+}
+
+function namedKey(key: Key): KeyEvent {
+  return { key, input: '' };
+}
+
+function withModifiers(event: KeyEvent, modifiers: Key): KeyEvent {
+  return { key: { ...event.key, ...modifiers }, input: event.input };
+}
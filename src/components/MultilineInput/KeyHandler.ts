@@ -1,161 +1,102 @@
-import { type Key, type Buffer, type Cursor, type Direction } from './types.js';
+import { type Key, type Buffer, type Cursor, type SubmitMode, type WordCharPredicate, type WrapStrategy } from './types.js';
 import { type UseTextInputResult } from './useTextInput.js';
-import { getVisualRows } from './TextBuffer.js';
+import {
+  type Keymap,
+  type KeySequenceState,
+  defaultKeymap,
+  submitModeKeymaps,
+  resolveKeymap,
+  keyToChord,
+  getUnmodifiedChord,
+  isSequencePrefix,
+} from './Keymap.js';
+import { type CommandRegistry, defaultCommands } from './Commands.js';
+import { type ViState, handleViKey, recordInsertKey } from './ViMode.js';
+import { compareCursors } from './TextBuffer.js';
 import { log } from '../../utils/logger.js';
 
-export interface KeyHandlerActions extends Omit<UseTextInputResult, 'value' | 'cursor' | 'cursorOffset' | 'setCursorOffset'> {
-  submit: () => void;
+export interface KeyHandlerActions extends Omit<UseTextInputResult, 'value' | 'cursor' | 'selection' | 'selectedText' | 'killRing' | 'killText' | 'cursorOffset' | 'setCursorOffset'> {
+  /** Submit the input, or `text` in its place */
+  submit: (text?: string) => void;
   onBoundaryArrow?: (direction: 'up' | 'down' | 'left' | 'right') => void;
+  /** Recall the previous history entry; returns false if there is none */
+  historyPrevious?: () => boolean;
+  /** Recall the next history entry (or the draft); returns false when not browsing history */
+  historyNext?: () => boolean;
+  /** Start a reverse incremental history search */
+  historySearch?: () => void;
+  /** Request completions at the cursor */
+  complete?: () => void;
+  /** Insert the whole ghost-text suggestion; returns false if there is none */
+  acceptSuggestion?: () => boolean;
+  /** Insert the next word of the ghost-text suggestion; returns false if there is none */
+  acceptSuggestionWord?: () => boolean;
+  /** Delete an atomic token before the cursor as a whole; returns false if there is none */
+  deleteTokenBackward?: () => boolean;
+  /** Expand or collapse the pasted text at the cursor; returns false if there is none */
+  togglePaste?: () => boolean;
 }
 
 /**
- * Check if cursor is at the left boundary (start of text).
+ * Options that adjust how keys are interpreted
  */
-function isAtLeftBoundary(cursor: Cursor): boolean {
-  return cursor.line === 0 && cursor.column === 0;
-}
-
-/**
- * Check if cursor is at the right boundary (end of text).
- */
-function isAtRightBoundary(buffer: Buffer, cursor: Cursor): boolean {
-  const lastLineIndex = buffer.lines.length - 1;
-  const lastLine = buffer.lines[lastLineIndex];
-  return cursor.line === lastLineIndex && cursor.column >= lastLine.length;
-}
-
-/**
- * Check if cursor is at the top boundary (cannot move up).
- * When width is provided, this considers visual line wrapping.
- */
-function isAtTopBoundary(buffer: Buffer, cursor: Cursor, width?: number): boolean {
-  if (cursor.line > 0) {
-    // Not on first buffer line, check visual wrapping
-    if (width !== undefined) {
-      const currentLine = buffer.lines[cursor.line];
-      const rows = getVisualRows(currentLine, width);
-      // Find which visual row the cursor is on
-      let visualRow = 0;
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i];
-        const rowEnd = row.start + row.length;
-        if (cursor.column >= row.start && cursor.column <= rowEnd) {
-          visualRow = i;
-          break;
-        }
-      }
-      // If cursor is not on the first visual row of this line, it can move up
-      return false;
-    }
-    return false;
-  }
-
-  // Cursor is on first buffer line
-  if (width !== undefined) {
-    const currentLine = buffer.lines[0];
-    const rows = getVisualRows(currentLine, width);
-    // Find which visual row the cursor is on
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      const rowEnd = row.start + row.length;
-      if (cursor.column >= row.start && cursor.column <= rowEnd) {
-        // At top boundary only if on first visual row
-        return i === 0;
-      }
-    }
-  }
-
-  // No width - buffer line-based: first line means at top
-  return true;
-}
-
-/**
- * Check if cursor is at the bottom boundary (cannot move down).
- * When width is provided, this considers visual line wrapping.
- */
-function isAtBottomBoundary(buffer: Buffer, cursor: Cursor, width?: number): boolean {
-  const lastLineIndex = buffer.lines.length - 1;
-
-  if (cursor.line < lastLineIndex) {
-    // Not on last buffer line, check visual wrapping
-    if (width !== undefined) {
-      const currentLine = buffer.lines[cursor.line];
-      const rows = getVisualRows(currentLine, width);
-      // Find which visual row the cursor is on
-      let visualRow = 0;
-      for (let i = 0; i < rows.length; i++) {
-        const row = rows[i];
-        const rowEnd = row.start + row.length;
-        if (cursor.column >= row.start && cursor.column <= rowEnd) {
-          visualRow = i;
-          break;
-        }
-      }
-      // If cursor is not on the last visual row of this line, it can move down
-      return false;
-    }
-    return false;
-  }
-
-  // Cursor is on last buffer line
-  if (width !== undefined) {
-    const currentLine = buffer.lines[lastLineIndex];
-    const rows = getVisualRows(currentLine, width);
-    const lastVisualRow = rows.length - 1;
-    // Find which visual row the cursor is on
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      const rowEnd = row.start + row.length;
-      if (cursor.column >= row.start && cursor.column <= rowEnd) {
-        // At bottom boundary only if on last visual row
-        return i === lastVisualRow;
-      }
-    }
-  }
-
-  // No width - buffer line-based: last line means at bottom
-  return true;
-}
-
-/**
- * Escape sequences for Home key (various terminal emulators)
- */
-const HOME_SEQUENCES = [
-  '\x1b[H',   // CSI H (xterm)
-  '\x1b[1~',  // CSI 1~ (linux console)
-  '\x1bOH',   // SS3 H (xterm application mode)
-  '\x1b[7~',  // CSI 7~ (rxvt)
-];
-
-/**
- * Escape sequences for End key (various terminal emulators)
- */
-const END_SEQUENCES = [
-  '\x1b[F',   // CSI F (xterm)
-  '\x1b[4~',  // CSI 4~ (linux console)
-  '\x1bOF',   // SS3 F (xterm application mode)
-  '\x1b[8~',  // CSI 8~ (rxvt)
-];
-
-/**
- * Raw sequences that represent backspace. Some terminals send DEL (0x7f) while others send BS (0x08).
- */
-const BACKSPACE_SEQUENCES = ['\u0008', '\u007f'];
-
-function isBackspaceSequence(seq?: string): boolean {
-  return !!seq && BACKSPACE_SEQUENCES.includes(seq);
+export interface KeyHandlerOptions {
+  /**
+   * What Ctrl+Y does: 'redo' (default) or readline-style 'yank'
+   * (paste the most recent kill)
+   */
+  ctrlY?: 'redo' | 'yank';
+  /**
+   * What Enter does (default 'classic'); see `SubmitMode`
+   */
+  submitMode?: SubmitMode;
+  /**
+   * Whether Enter after a trailing `\` inserts a newline instead of
+   * submitting (default true)
+   */
+  backslashContinuation?: boolean;
+  /**
+   * Bindings merged over the default keymap. Map a chord to null to unbind it.
+   */
+  keymap?: Keymap;
+  /**
+   * Extra commands that bindings can refer to, checked before the built-in ones
+   */
+  commands?: CommandRegistry;
+  /**
+   * State for multi-key sequences; must be the same object across calls
+   */
+  sequence?: KeySequenceState;
+  /**
+   * Vi editor state; when set, keys go through vi mode first. Must be the
+   * same object across calls (it is updated in place).
+   */
+  vi?: ViState;
+  /**
+   * Which characters count as part of a word for vi word motions
+   */
+  isWordChar?: WordCharPredicate;
+  /**
+   * How lines wrap at `width`, for visual-aware boundary detection
+   * (defaults to word wrapping)
+   */
+  wrapStrategy?: WrapStrategy;
 }
 
 /**
  * Handles keyboard input and maps it to text input actions.
  *
+ * The key is converted to a chord, looked up in the keymap and the bound
+ * command is run. Unbound printable input is inserted as text.
+ *
  * @param key - The Ink key object
  * @param input - The input string (if any)
  * @param buffer - The current text buffer
  * @param actions - The actions available to modify the state
  * @param cursor - The current cursor position (optional, but required for some logic like backslash check)
- * @param rawInput - The raw input sequence (optional, used for detecting Home/End keys)
+ * @param rawInput - A raw escape sequence to decode in place of key and input (optional)
  * @param width - Terminal width for visual-aware boundary detection (optional)
+ * @param options - Keymap, commands and binding options (optional)
  */
 export function handleKey(
   key: Partial<Key>,
@@ -164,120 +105,91 @@ export function handleKey(
   actions: KeyHandlerActions,
   cursor?: Cursor,
   rawInput?: string,
-  width?: number
+  width?: number,
+  options: KeyHandlerOptions = {}
 ): void {
-  // Navigation with boundary detection
-  if (key.upArrow) {
-    if (cursor && actions.onBoundaryArrow && isAtTopBoundary(buffer, cursor, width)) {
-      actions.onBoundaryArrow('up');
-      return;
-    }
-    actions.moveCursor('up');
-    return;
-  }
-  if (key.downArrow) {
-    if (cursor && actions.onBoundaryArrow && isAtBottomBoundary(buffer, cursor, width)) {
-      actions.onBoundaryArrow('down');
-      return;
-    }
-    actions.moveCursor('down');
-    return;
-  }
-  if (key.leftArrow) {
-    if (cursor && actions.onBoundaryArrow && isAtLeftBoundary(cursor)) {
-      actions.onBoundaryArrow('left');
-      return;
-    }
-    actions.moveCursor('left');
-    return;
-  }
-  if (key.rightArrow) {
-    if (cursor && actions.onBoundaryArrow && isAtRightBoundary(buffer, cursor)) {
-      actions.onBoundaryArrow('right');
+  const keymap = resolveKeymap(
+    defaultKeymap,
+    options.ctrlY === 'yank' ? { 'ctrl+y': 'yank' } : undefined,
+    submitModeKeymaps[options.submitMode ?? 'classic'],
+    options.keymap
+  );
+  const sequence = options.sequence ?? { pending: [] };
+  const chord = keyToChord(key, input, rawInput);
+
+  // Vi insert mode edits through the keymap like the plain input (so atomic
+  // tokens, pickers and suggestions behave the same); vi only takes Escape
+  // and records the typing for '.'
+  if (options.vi?.mode === 'insert' && chord !== 'escape') {
+    // The whole insert is one undo step, as in vi
+    actions.beginUndoGroup();
+    Object.assign(options.vi, recordInsertKey(options.vi, { chord, input }));
+  } else if (options.vi && sequence.pending.length === 0) {
+    // Vi mode handles its own keys and passes the rest on to the keymap
+    const current = cursor ?? { line: 0, column: 0 };
+    const wasInsert = options.vi.mode === 'insert';
+    const result = handleViKey(options.vi, { chord, input }, buffer, current, { isWordChar: options.isWordChar });
+    if (result) {
+      Object.assign(options.vi, result.state);
+      // A command that enters insert mode ('cw', 'o', ...) shares the
+      // insert's undo step
+      if (wasInsert && options.vi.mode !== 'insert') {
+        actions.endUndoGroup();
+      } else if (!wasInsert && options.vi.mode === 'insert') {
+        actions.beginUndoGroup();
+      }
+      if (result.buffer !== buffer || compareCursors(result.cursor, current) !== 0) {
+        actions.applyEdit(result.buffer, result.cursor);
+      }
+      if (result.action === 'undo') {
+        actions.undo();
+      } else if (result.action === 'redo') {
+        actions.redo();
+      }
       return;
     }
-    actions.moveCursor('right');
-    return;
   }
 
-  // Home/End key detection
-  // Ink doesn't expose key.home/key.end, so we check:
-  // 1. Raw escape sequences if available
-  // 2. Ctrl+A (home) and Ctrl+E (end) - common terminal shortcuts
-  if (rawInput && HOME_SEQUENCES.includes(rawInput)) {
-    actions.moveCursor('lineStart');
-    return;
-  }
-  if (rawInput && END_SEQUENCES.includes(rawInput)) {
-    actions.moveCursor('lineEnd');
-    return;
-  }
-  // Ctrl+A for line start (common in bash/readline)
-  if (key.ctrl && input === 'a') {
-    actions.moveCursor('lineStart');
-    return;
-  }
-  // Ctrl+E for line end (common in bash/readline)
-  if (key.ctrl && input === 'e') {
-    actions.moveCursor('lineEnd');
-    return;
-  }
+  if (chord !== undefined) {
+    const candidate = [...sequence.pending, chord].join(' ');
 
-  // History
-  if (key.ctrl) {
-    if (input === 'z') {
-      actions.undo();
-      return;
-    }
-    if (input === 'y') {
-      actions.redo();
-      return;
-    }
-    if (input === 'j') {
-      actions.newLine();
+    if (isSequencePrefix(keymap, candidate)) {
+      sequence.pending.push(chord);
       return;
     }
-  }
-
-  // Editing
-  const rawBackspace = isBackspaceSequence(rawInput);
-  const inputBackspace = isBackspaceSequence(input);
 
-  if (key.backspace || rawBackspace || inputBackspace || (key.delete && rawBackspace)) {
-    actions.delete();
-    return;
-  }
-  if (key.delete) {
-    // Delete key - forward delete (delete character after cursor)
-    actions.deleteForward();
-    return;
-  }
+    const hadPending = sequence.pending.length > 0;
+    sequence.pending.length = 0;
 
-  // Submission / New Line
-  if (key.return) {
-    log(`[KEYHANDLER] return key, cursor=${JSON.stringify(cursor)}, currentLine="${(cursor ? buffer.lines[cursor.line || 0] : 'no cursor').replace(/[\x00-\x1F\x7F-\uFFFF]/g, c => `\\x${c.charCodeAt(0).toString(16)}`)}" endsWithBackslash=${cursor ? buffer.lines[cursor.line || 0].endsWith('\\') : false}`);
-    if (cursor) {
-      const currentLine = buffer.lines[cursor.line];      // Check if line ends with backslash AND cursor is at the end (or we just check the line content?)
-      // Requirement: "Line ending with \ + Enter continues to next line"
-      // Usually this implies the user typed '\' then Enter.
-      // We should probably check if the character *before* the cursor is '\' if we want to be precise,
-      // or just if the line ends with '\'.
-      // Let's assume "line ends with \" means the last char of the line is '\'.
+    let commandName = keymap[candidate];
+    if (hadPending) {
+      // An unfinished sequence followed by an unbound key is dropped
+      if (commandName) {
+        runCommand(commandName, key, input, buffer, actions, cursor, width, options);
+      }
+      return;
+    }
 
-      if (currentLine.endsWith('\\')) {
-        // Use combined action to ensure both operations happen with correct state
-        actions.deleteAndNewLine();
-        return;
+    // Modified named keys without a binding of their own (e.g. Ctrl+Up)
+    // behave like the unmodified key
+    if (commandName === undefined) {
+      const unmodified = getUnmodifiedChord(chord);
+      if (unmodified !== undefined) {
+        commandName = keymap[unmodified];
       }
     }
 
-    log(`[KEYHANDLER] submit value lines=${buffer.lines.length} lastLine="${buffer.lines[buffer.lines.length-1]?.replace(/[\x00-\x1F\x7F-\uFFFF]/g, c => `\\x${c.charCodeAt(0).toString(16)}`)}"`);
-    actions.submit();
-    return;
+    if (commandName) {
+      runCommand(commandName, key, input, buffer, actions, cursor, width, options);
+      return;
+    }
+    if (commandName === null) {
+      return;
+    }
   }
 
   // Text Insertion
-  // Ignore control keys if they don't have a specific handler above
+  // Ignore control keys if they aren't bound to a command
   if (key.ctrl || key.meta) {
     return;
   }
@@ -287,3 +199,30 @@ export function handleKey(
     actions.insert(input);
   }
 }
+
+function runCommand(
+  name: string,
+  key: Partial<Key>,
+  input: string,
+  buffer: Buffer,
+  actions: KeyHandlerActions,
+  cursor: Cursor | undefined,
+  width: number | undefined,
+  options: KeyHandlerOptions
+): void {
+  const command = options.commands?.[name] ?? defaultCommands[name];
+  if (!command) {
+    log(`[KEYHANDLER] unknown command "${name}"`);
+    return;
+  }
+  command({
+    actions,
+    buffer,
+    cursor,
+    width,
+    wrapStrategy: options.wrapStrategy,
+    backslashContinuation: options.backslashContinuation,
+    key,
+    input,
+  });
+}
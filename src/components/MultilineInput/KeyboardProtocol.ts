@@ -0,0 +1,78 @@
+import type { TerminalResponse } from './KeyDecoder.js';
+
+/**
+ * Asks for the kitty keyboard protocol flags, then for the primary device
+ * attributes. Every terminal answers the second; one that supports the
+ * kitty protocol answers the first before it.
+ */
+export const QUERY_KEYBOARD_PROTOCOL = '\x1b[?u\x1b[c';
+
+/** Pushes kitty flag 1 (disambiguate escape codes) onto the terminal's stack */
+export const ENABLE_KITTY_KEYBOARD = '\x1b[>1u';
+/** Pops the flags pushed above */
+export const DISABLE_KITTY_KEYBOARD = '\x1b[<u';
+/** xterm modifyOtherKeys level 2 */
+export const ENABLE_MODIFY_OTHER_KEYS = '\x1b[>4;2m';
+/** Resets modifyOtherKeys */
+export const DISABLE_MODIFY_OTHER_KEYS = '\x1b[>4;0m';
+
+/**
+ * Where keyboard negotiation stands:
+ * - 'querying': waiting for the terminal's replies
+ * - 'kitty': the kitty protocol is enabled
+ * - 'modifyOtherKeys': the terminal has no kitty support, so modifyOtherKeys
+ *   is enabled instead (terminals without it ignore the request)
+ */
+export type KeyboardProtocol = 'querying' | 'kitty' | 'modifyOtherKeys';
+
+export interface KeyboardNegotiation {
+  protocol: KeyboardProtocol;
+  /** Sequence to write to the terminal, if any */
+  write?: string;
+}
+
+/**
+ * Advance negotiation with a reply to `QUERY_KEYBOARD_PROTOCOL`. Only the
+ * first decisive reply counts; later ones leave the protocol as it is.
+ */
+export function negotiateKeyboardProtocol(
+  protocol: KeyboardProtocol,
+  response: TerminalResponse
+): KeyboardNegotiation {
+  if (protocol !== 'querying') {
+    return { protocol };
+  }
+  if (response.type === 'keyboardFlags') {
+    return { protocol: 'kitty', write: ENABLE_KITTY_KEYBOARD };
+  }
+  return { protocol: 'modifyOtherKeys', write: ENABLE_MODIFY_OTHER_KEYS };
+}
+
+/**
+ * The sequence that turns a negotiated protocol back on, for an input that
+ * reactivates after negotiation has finished.
+ */
+export function enableKeyboardProtocol(protocol: KeyboardProtocol): string {
+  switch (protocol) {
+    case 'kitty':
+      return ENABLE_KITTY_KEYBOARD;
+    case 'modifyOtherKeys':
+      return ENABLE_MODIFY_OTHER_KEYS;
+    default:
+      return '';
+  }
+}
+
+/**
+ * The sequence that turns off what negotiation enabled.
+ */
+export function resetKeyboardProtocol(protocol: KeyboardProtocol): string {
+  switch (protocol) {
+    case 'kitty':
+      return DISABLE_KITTY_KEYBOARD;
+    case 'modifyOtherKeys':
+      return DISABLE_MODIFY_OTHER_KEYS;
+    default:
+      return '';
+  }
+}
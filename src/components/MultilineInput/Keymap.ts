@@ -0,0 +1,244 @@
+import type { Key, SubmitMode } from './types.js';
+import { createKeyDecoder, decodeKeys } from './KeyDecoder.js';
+
+/**
+ * Maps key chords to command names.
+ *
+ * A chord is a key name with optional modifiers joined by '+', written in the
+ * order ctrl, meta, shift: 'ctrl+j', 'meta+b', 'shift+left', 'return'.
+ * Named keys are up, down, left, right, home, end, pageup, pagedown, insert,
+ * f1–f12, return, escape, tab, backspace, delete and space. Any other printable character is
+ * written as itself ('a', 'G', '\\'). Multi-key sequences separate chords with
+ * a space: 'ctrl+x ctrl+e'.
+ *
+ * Mapping a chord to null unbinds it.
+ */
+export type Keymap = Record<string, string | null>;
+
+/**
+ * Keys pressed so far in an unfinished multi-key sequence.
+ * Keep one instance per input (e.g. in a ref) and pass it to every
+ * `handleKey` call so sequences can span several key presses.
+ */
+export interface KeySequenceState {
+  pending: string[];
+}
+
+/**
+ * Default keymap, matching the built-in MultilineInput bindings.
+ */
+export const defaultKeymap: Keymap = {
+  // Navigation
+  up: 'moveUp',
+  down: 'moveDown',
+  left: 'moveLeft',
+  right: 'moveRight',
+  home: 'moveLineStart',
+  end: 'moveLineEnd',
+  pageup: 'movePageUp',
+  pagedown: 'movePageDown',
+  'ctrl+a': 'moveLineStart',
+  'ctrl+e': 'moveLineEnd',
+
+  // Selection
+  'shift+up': 'selectUp',
+  'shift+down': 'selectDown',
+  'shift+left': 'selectLeft',
+  'shift+right': 'selectRight',
+  'shift+home': 'selectLineStart',
+  'shift+end': 'selectLineEnd',
+  escape: 'clearSelection',
+
+  // Words
+  'ctrl+left': 'moveWordLeft',
+  'meta+left': 'moveWordLeft',
+  'meta+b': 'moveWordLeft',
+  'ctrl+right': 'moveWordRight',
+  'meta+right': 'moveWordRight',
+  'meta+f': 'moveWordRight',
+  'ctrl+w': 'deleteWordBackward',
+  'meta+backspace': 'deleteWordBackward',
+  'meta+d': 'deleteWordForward',
+
+  // Kill ring
+  'ctrl+k': 'killToLineEnd',
+  'ctrl+u': 'killToLineStart',
+  'meta+y': 'yankPop',
+
+  // History
+  'ctrl+z': 'undo',
+  'ctrl+y': 'redo',
+  'ctrl+r': 'historySearch',
+
+  // Editing
+  backspace: 'deleteBackward',
+  delete: 'deleteForward',
+  'ctrl+j': 'newLine',
+  'shift+return': 'newLine',
+  'ctrl+o': 'togglePaste',
+  tab: 'complete',
+
+  // Submission
+  return: 'submitOrContinue',
+};
+
+/**
+ * Bindings each submit mode lays over the default keymap. Ctrl+Enter needs
+ * a terminal that reports it (see `KeyboardProtocol.ts`); Alt+Enter and
+ * Ctrl+S work everywhere.
+ */
+export const submitModeKeymaps: Record<SubmitMode, Keymap> = {
+  classic: {},
+  'newline-first': {
+    return: 'newLine',
+    'ctrl+return': 'submit',
+    'meta+return': 'submit',
+    'ctrl+s': 'submit',
+  },
+  'double-enter': {
+    return: 'newLineOrSubmit',
+    'ctrl+return': 'submit',
+    'meta+return': 'submit',
+  },
+};
+
+/**
+ * Emacs / readline bindings, meant to be merged over the default keymap
+ * (pass it as the `keymap` prop). Ctrl+Space sets the mark; movement then
+ * extends the region, which Ctrl+W kills and Alt+W copies. Ctrl+Y yanks.
+ */
+export const emacsKeymap: Keymap = {
+  // Movement
+  'ctrl+f': 'moveRight',
+  'ctrl+b': 'moveLeft',
+  'ctrl+n': 'moveDown',
+  'ctrl+p': 'moveUp',
+
+  // Editing
+  'ctrl+d': 'deleteForward',
+  'ctrl+t': 'transposeChars',
+  'meta+t': 'transposeWords',
+  'meta+u': 'upcaseWord',
+  'meta+l': 'downcaseWord',
+  'meta+c': 'capitalizeWord',
+
+  // Mark and region
+  'ctrl+space': 'setMark',
+  'ctrl+g': 'clearSelection',
+  'ctrl+x ctrl+x': 'exchangePointAndMark',
+  'ctrl+w': 'killRegion',
+  'meta+w': 'copyRegion',
+  'ctrl+y': 'yank',
+};
+
+/**
+ * Merge keymap overrides onto a base keymap.
+ * Later keymaps win; a null value unbinds the chord.
+ */
+export function resolveKeymap(base: Keymap, ...overrides: Array<Keymap | undefined>): Keymap {
+  const result: Keymap = { ...base };
+  for (const override of overrides) {
+    if (override) {
+      Object.assign(result, override);
+    }
+  }
+  return result;
+}
+
+/**
+ * Raw sequences that represent backspace. Some terminals send DEL (0x7f) while others send BS (0x08).
+ */
+const BACKSPACE_SEQUENCES = ['\u0008', '\u007f'];
+
+function isBackspaceSequence(seq?: string): boolean {
+  return !!seq && BACKSPACE_SEQUENCES.includes(seq);
+}
+
+/**
+ * Get the named key for a key event, or undefined for character input.
+ */
+function getNamedKey(key: Partial<Key>, input: string): string | undefined {
+  if (key.upArrow) return 'up';
+  if (key.downArrow) return 'down';
+  if (key.leftArrow) return 'left';
+  if (key.rightArrow) return 'right';
+  if (key.home) return 'home';
+  if (key.end) return 'end';
+  if (key.pageUp) return 'pageup';
+  if (key.pageDown) return 'pagedown';
+  if (key.insert) return 'insert';
+  if (key.functionKey) return `f${key.functionKey}`;
+  if (key.return) return 'return';
+  if (key.escape) return 'escape';
+  if (key.tab) return 'tab';
+  if (key.backspace || isBackspaceSequence(input)) return 'backspace';
+  if (key.delete) return 'delete';
+  if (input === ' ') return 'space';
+  return undefined;
+}
+
+/**
+ * Convert a key event into a chord string, or undefined if it is not a
+ * single key press (e.g. pasted text). A raw escape sequence, when given,
+ * is decoded and takes precedence over `key` and `input`.
+ */
+export function keyToChord(key: Partial<Key>, input: string, rawInput?: string): string | undefined {
+  if (rawInput) {
+    const { events } = decodeKeys(createKeyDecoder(), rawInput);
+    if (events.length === 1) {
+      ({ key, input } = events[0]);
+    }
+  }
+
+  // Ctrl+J arrives as a bare line feed
+  if (input === '\n') {
+    return 'ctrl+j';
+  }
+
+  const namedKey = getNamedKey(key, input);
+  if (namedKey) {
+    // Ink reports Escape with meta set
+    if (namedKey === 'escape') return 'escape';
+    return formatChord(namedKey, key.ctrl, key.meta, key.shift);
+  }
+
+  // Ctrl+Space arrives as NUL, which Ink reports as Ctrl+`
+  if (key.ctrl && (input === '`' || input === '\x00')) {
+    return formatChord('space', true, key.meta, false);
+  }
+
+  if (!input || [...input].length !== 1) {
+    return undefined;
+  }
+
+  // Shift is already reflected in the character itself
+  return formatChord(input, key.ctrl, key.meta, false);
+}
+
+function formatChord(name: string, ctrl?: boolean, meta?: boolean, shift?: boolean): string {
+  let chord = '';
+  if (ctrl) chord += 'ctrl+';
+  if (meta) chord += 'meta+';
+  if (shift) chord += 'shift+';
+  return chord + name;
+}
+
+/**
+ * Strip modifiers from a chord for a named key ('ctrl+up' → 'up').
+ * Returns undefined if the chord has no modifiers or is not a named key.
+ */
+export function getUnmodifiedChord(chord: string): string | undefined {
+  const name = chord.replace(/^(?:(?:ctrl|meta|shift)\+)+/, '');
+  if (name === chord || name.length === 1) {
+    return undefined;
+  }
+  return name;
+}
+
+/**
+ * Whether any binding in the keymap starts with the given chord sequence.
+ */
+export function isSequencePrefix(keymap: Keymap, sequence: string): boolean {
+  const prefix = `${sequence} `;
+  return Object.keys(keymap).some((chord) => chord.startsWith(prefix) && keymap[chord] !== null);
+}
@@ -0,0 +1,117 @@
+import type { VisualRowInfo, WrapStrategy } from './types.js';
+import { wordWrap } from './Wrap.js';
+import { getStringWidth, offsetAtWidth, previousGraphemeBoundary } from '../../utils/graphemes.js';
+
+/**
+ * Position of a buffer column on screen, within its buffer line.
+ */
+export interface VisualPosition {
+  /** Visual row within the buffer line */
+  row: number;
+  /** Display column in cells, including the row's indent */
+  x: number;
+}
+
+/** Lines kept per wrap strategy before the oldest are dropped */
+const MAX_CACHED_LINES = 5000;
+
+// Rows per strategy, keyed by width and line text. A WeakMap so strategies
+// created on the fly do not keep their rows alive.
+const rowCache = new WeakMap<WrapStrategy, Map<string, readonly VisualRowInfo[]>>();
+
+/**
+ * Break a line into visual rows. The default strategy wraps at spaces,
+ * keeping words intact when possible and hard-wrapping words longer than the
+ * width between grapheme clusters. Width is measured in terminal cells
+ * (wide characters take two cells).
+ *
+ * Rows are memoized per strategy by line text and width, so navigation,
+ * boundary checks and rendering share one computation per line and an edit
+ * only re-wraps the lines it changed. The returned rows are shared: treat
+ * them as read-only.
+ */
+export function getVisualRows(
+  line: string,
+  width: number,
+  strategy: WrapStrategy = wordWrap
+): readonly VisualRowInfo[] {
+  const safeWidth = Math.max(1, width);
+  let cache = rowCache.get(strategy);
+  if (!cache) {
+    cache = new Map();
+    rowCache.set(strategy, cache);
+  }
+
+  const key = `${safeWidth}:${line}`;
+  const cached = cache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const rows = strategy(line, safeWidth);
+  if (cache.size >= MAX_CACHED_LINES) {
+    // Maps iterate in insertion order, so the first key is the oldest
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(key, rows);
+  return rows;
+}
+
+/**
+ * Index of the visual row holding a buffer column. A column at a wrap point
+ * belongs to the row that starts there; the end of the line belongs to the
+ * last row.
+ */
+export function getVisualRowIndex(rows: readonly VisualRowInfo[], bufferColumn: number): number {
+  for (let i = rows.length - 1; i > 0; i--) {
+    if (bufferColumn >= rows[i].start) return i;
+  }
+  return 0;
+}
+
+/**
+ * Map a buffer column to its visual row and display column within the line.
+ */
+export function getVisualPosition(
+  line: string,
+  bufferColumn: number,
+  width: number,
+  strategy?: WrapStrategy
+): VisualPosition {
+  const rows = getVisualRows(line, width, strategy);
+  const row = getVisualRowIndex(rows, bufferColumn);
+  const { start, indent = 0 } = rows[row];
+  return { row, x: indent + getStringWidth(line.slice(start, bufferColumn)) };
+}
+
+/**
+ * Map a visual row and display column back to a buffer column. Columns
+ * inside the indent land on the row's first character, columns past the end
+ * on its last position. Never lands inside a grapheme cluster, nor on the end
+ * of a row whose last position belongs to the next row.
+ */
+export function getBufferColumn(
+  line: string,
+  row: number,
+  x: number,
+  width: number,
+  strategy?: WrapStrategy
+): number {
+  const rows = getVisualRows(line, width, strategy);
+  if (row >= rows.length) {
+    return line.length;
+  }
+  const { start, length, indent = 0 } = rows[row];
+  const column = start + offsetAtWidth(line.slice(start, start + length), Math.max(0, x - indent));
+  if (column === start + length && row < rows.length - 1 && length > 0) {
+    return previousGraphemeBoundary(line, column);
+  }
+  return Math.min(column, line.length);
+}
+
+/**
+ * Number of visual rows a line takes.
+ */
+export function getVisualRowCount(line: string, width: number, strategy?: WrapStrategy): number {
+  return getVisualRows(line, width, strategy).length;
+}
@@ -0,0 +1,205 @@
+import type { Decoration, Decorator, TextStyle } from './types.js';
+
+/**
+ * Styles used by the Markdown highlighter.
+ */
+export interface MarkdownTheme {
+  /** `# Heading` lines */
+  heading: TextStyle;
+  /** `**strong**` / `__strong__` */
+  strong: TextStyle;
+  /** `*emphasis*` / `_emphasis_` */
+  emphasis: TextStyle;
+  /** `` `inline code` `` */
+  code: TextStyle;
+  /** ```` ``` ```` / `~~~` fence lines */
+  codeFence: TextStyle;
+  /** Language tag after an opening fence */
+  codeLanguage: TextStyle;
+  /** Lines inside a fenced code block */
+  codeBlock: TextStyle;
+  /** `-`, `*`, `+` and `1.` list markers */
+  listMarker: TextStyle;
+  /** `[text]` of a link */
+  link: TextStyle;
+  /** `(url)` of a link */
+  linkUrl: TextStyle;
+}
+
+export const defaultMarkdownTheme: MarkdownTheme = {
+  heading: { color: 'blue', bold: true },
+  strong: { bold: true },
+  emphasis: { italic: true },
+  code: { color: 'yellow' },
+  codeFence: { dimColor: true },
+  codeLanguage: { color: 'magenta' },
+  codeBlock: { color: 'green' },
+  listMarker: { color: 'cyan' },
+  link: { color: 'blue', underline: true },
+  linkUrl: { dimColor: true },
+};
+
+/**
+ * An open fenced code block: the fence character and its length.
+ */
+export interface MarkdownFence {
+  char: '`' | '~';
+  length: number;
+}
+
+/**
+ * Tokens of one line, plus the fence still open after it.
+ */
+export interface MarkdownLineTokens {
+  /** Styled ranges (columns only; the caller adds the line index) */
+  ranges: Array<Omit<Decoration, 'line'>>;
+  fence: MarkdownFence | undefined;
+}
+
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`]*)/;
+const HEADING_PATTERN = /^ {0,3}#{1,6}(?:[ \t]|$)/;
+const LIST_PATTERN = /^([ \t]*)([-*+]|\d{1,9}[.)])(?=[ \t]|$)/;
+
+// Code spans first so their contents are not read as emphasis or links.
+// Underscores only count at word boundaries, so snake_case stays plain.
+const INLINE_PATTERN = new RegExp(
+  [
+    '(`+)(.+?)\\1',
+    '\\[([^\\]\\n]+)\\]\\(([^)\\s]*)\\)',
+    '(\\*\\*|(?<!\\w)__)(?=\\S)(.+?)(?<=\\S)\\5',
+    '(\\*|(?<!\\w)_)(?=[^\\s*_])(.+?)(?<=[^\\s*_])\\7(?!\\w)',
+  ].join('|'),
+  'g'
+);
+
+function tokenizeInline(line: string, from: number, theme: MarkdownTheme): MarkdownLineTokens['ranges'] {
+  const ranges: MarkdownLineTokens['ranges'] = [];
+  INLINE_PATTERN.lastIndex = from;
+  let match: RegExpExecArray | null;
+  while ((match = INLINE_PATTERN.exec(line))) {
+    const start = match.index;
+    const end = start + match[0].length;
+    if (match[1] !== undefined) {
+      ranges.push({ start, end, style: theme.code });
+    } else if (match[3] !== undefined) {
+      const textEnd = start + match[3].length + 2;
+      ranges.push({ start, end: textEnd, style: theme.link });
+      ranges.push({ start: textEnd, end, style: theme.linkUrl });
+    } else if (match[5] !== undefined) {
+      ranges.push({ start, end, style: theme.strong });
+    } else {
+      ranges.push({ start, end, style: theme.emphasis });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Tokenize one line of Markdown. `fence` is the code block open before the
+ * line, if any; the result says which one is open after it.
+ */
+export function tokenizeMarkdownLine(
+  line: string,
+  fence: MarkdownFence | undefined,
+  theme: MarkdownTheme = defaultMarkdownTheme
+): MarkdownLineTokens {
+  const fenceMatch = FENCE_PATTERN.exec(line);
+
+  if (fence) {
+    // A closing fence uses the same character, at least as many times, and nothing else
+    const closes =
+      fenceMatch !== null &&
+      fenceMatch[1][0] === fence.char &&
+      fenceMatch[1].length >= fence.length &&
+      line.trim() === fenceMatch[1];
+    if (closes) {
+      return { ranges: [{ start: 0, end: line.length, style: theme.codeFence }], fence: undefined };
+    }
+    const ranges = line.length > 0 ? [{ start: 0, end: line.length, style: theme.codeBlock }] : [];
+    return { ranges, fence };
+  }
+
+  if (fenceMatch) {
+    const marker = fenceMatch[1];
+    const markerEnd = fenceMatch[0].indexOf(marker) + marker.length;
+    const ranges: MarkdownLineTokens['ranges'] = [{ start: 0, end: markerEnd, style: theme.codeFence }];
+    const language = fenceMatch[2];
+    if (language) {
+      const languageStart = fenceMatch[0].length - language.length;
+      ranges.push({ start: languageStart, end: languageStart + language.length, style: theme.codeLanguage });
+    }
+    return { ranges, fence: { char: marker[0] as MarkdownFence['char'], length: marker.length } };
+  }
+
+  if (HEADING_PATTERN.test(line)) {
+    return { ranges: [{ start: 0, end: line.length, style: theme.heading }, ...tokenizeInline(line, 0, theme)], fence };
+  }
+
+  const listMatch = LIST_PATTERN.exec(line);
+  if (listMatch) {
+    const markerStart = listMatch[1].length;
+    const markerEnd = listMatch[0].length;
+    return {
+      ranges: [{ start: markerStart, end: markerEnd, style: theme.listMarker }, ...tokenizeInline(line, markerEnd, theme)],
+      fence,
+    };
+  }
+
+  return { ranges: tokenizeInline(line, 0, theme), fence };
+}
+
+interface CachedLine {
+  line: number;
+  decorations: Decoration[];
+  fence: MarkdownFence | undefined;
+}
+
+function cacheKey(line: string, fence: MarkdownFence | undefined): string {
+  return `${fence ? fence.char.repeat(fence.length) : ''}\n${line}`;
+}
+
+/**
+ * Create a decorator that highlights Markdown: headings, emphasis, inline
+ * code, fenced code blocks with their language tag, list markers and links.
+ *
+ * Each line is tokenized on its own, given the code block open before it.
+ * Results are cached by line text and that state, so an edit re-tokenizes
+ * only the lines it touches (and, when it opens or closes a fence, the lines
+ * after it). Each decorator has its own cache; create one per input.
+ */
+export function createMarkdownDecorator(theme: Partial<MarkdownTheme> = {}): Decorator {
+  const resolvedTheme: MarkdownTheme = { ...defaultMarkdownTheme, ...theme };
+  let cache = new Map<string, CachedLine>();
+
+  return (lines) => {
+    const nextCache = new Map<string, CachedLine>();
+    const decorations: Decoration[] = [];
+    let fence: MarkdownFence | undefined;
+
+    lines.forEach((line, index) => {
+      const key = cacheKey(line, fence);
+      let cached = nextCache.get(key) ?? cache.get(key);
+      if (!cached) {
+        const tokens = tokenizeMarkdownLine(line, fence, resolvedTheme);
+        cached = {
+          line: index,
+          decorations: tokens.ranges.map((range) => ({ line: index, ...range })),
+          fence: tokens.fence,
+        };
+      } else if (cached.line !== index) {
+        // Same text at another position: reuse the tokens
+        cached = {
+          line: index,
+          decorations: cached.decorations.map((decoration) => ({ ...decoration, line: index })),
+          fence: cached.fence,
+        };
+      }
+      nextCache.set(key, cached);
+      decorations.push(...cached.decorations);
+      fence = cached.fence;
+    });
+
+    cache = nextCache;
+    return decorations;
+  };
+}
@@ -0,0 +1,274 @@
+/** Asks the terminal to wrap pasted text in start/end markers */
+export const ENABLE_BRACKETED_PASTE = '\x1b[?2004h';
+/** Restores plain pasting */
+export const DISABLE_BRACKETED_PASTE = '\x1b[?2004l';
+
+const PASTE_START = '\x1b[200~';
+const PASTE_END = '\x1b[201~';
+
+/**
+ * Progress through a bracketed paste, carried from one stdin chunk to the
+ * next since terminals split long pastes across reads.
+ */
+export interface PasteState {
+  /** True between the start and end markers */
+  pasting: boolean;
+  /** Pasted text received so far */
+  pending: string;
+}
+
+/**
+ * Text found in a chunk:
+ * - 'paste': a complete paste, with line endings normalized to \n
+ * - 'input': text outside a paste that arrived in the same chunk
+ */
+export type PasteEvent = { type: 'paste'; text: string } | { type: 'input'; text: string };
+
+export interface PasteChunkResult {
+  state: PasteState;
+  events: PasteEvent[];
+  /**
+   * True when the chunk was part of a paste. `events` then stand for the
+   * whole chunk: pastes are inserted as they are and 'input' text goes to
+   * the key decoder in their place. When false, `events` is empty and the
+   * chunk is decoded as keys.
+   */
+  handled: boolean;
+}
+
+export function createPasteState(): PasteState {
+  return { pasting: false, pending: '' };
+}
+
+/**
+ * Feed one stdin chunk through the paste parser. Chunks that neither start
+ * nor continue a paste are left to the key handler. A paste is reported
+ * once its end marker arrives, even if the marker itself is split across
+ * chunks.
+ */
+export function parsePasteChunk(state: PasteState, chunk: string): PasteChunkResult {
+  if (!state.pasting && !chunk.includes(PASTE_START)) {
+    return { state, events: [], handled: false };
+  }
+
+  const events: PasteEvent[] = [];
+  let { pasting, pending } = state;
+  let rest = chunk;
+
+  while (rest) {
+    if (pasting) {
+      // The end marker may have started in the previous chunk
+      const searchFrom = Math.max(0, pending.length - PASTE_END.length + 1);
+      const data = pending + rest;
+      const end = data.indexOf(PASTE_END, searchFrom);
+      if (end === -1) {
+        pending = data;
+        break;
+      }
+      events.push({ type: 'paste', text: normalizeLineEndings(data.slice(0, end)) });
+      pasting = false;
+      pending = '';
+      rest = data.slice(end + PASTE_END.length);
+    } else {
+      const start = rest.indexOf(PASTE_START);
+      if (start === -1) {
+        events.push({ type: 'input', text: rest });
+        break;
+      }
+      if (start > 0) {
+        events.push({ type: 'input', text: rest.slice(0, start) });
+      }
+      pasting = true;
+      rest = rest.slice(start + PASTE_START.length);
+    }
+  }
+
+  return { state: { pasting, pending }, events, handled: true };
+}
+
+// Terminals send pasted line breaks as \r
+function normalizeLineEndings(text: string): string {
+  return text.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+}
+
+/**
+ * When a paste is collapsed into a placeholder token: when it has more than
+ * `lines` lines or more than `chars` characters.
+ */
+export interface PasteCollapseOptions {
+  /** Line count above which a paste is collapsed (default: 10) */
+  lines?: number;
+  /** Character count above which a paste is collapsed (default: 1000) */
+  chars?: number;
+}
+
+/**
+ * A collapsed paste: the placeholder shown in the buffer and the text it
+ * stands for.
+ */
+export interface PastedText {
+  token: string;
+  text: string;
+}
+
+/**
+ * Where a paste sits in the text around an offset, either collapsed to its
+ * token or expanded to its text.
+ */
+export interface PasteLocation {
+  paste: PastedText;
+  start: number;
+  end: number;
+  expanded: boolean;
+}
+
+export function shouldCollapsePaste(text: string, options: PasteCollapseOptions = {}): boolean {
+  const { lines = 10, chars = 1000 } = options;
+  return text.split('\n').length > lines || text.length > chars;
+}
+
+/**
+ * Placeholder for the `id`th collapsed paste, e.g. `[Pasted text #1, 2000 lines]`.
+ * Single-line pastes are described by their length instead.
+ */
+export function formatPasteToken(id: number, text: string): string {
+  const lineCount = text.split('\n').length;
+  const size = lineCount > 1 ? `${lineCount} lines` : `${text.length} chars`;
+  return `[Pasted text #${id}, ${size}]`;
+}
+
+/**
+ * Replace every paste token in `value` with the text it stands for.
+ */
+export function expandPasteTokens(value: string, pastes: Iterable<PastedText>): string {
+  const textByToken = new Map<string, string>();
+  for (const { token, text } of pastes) {
+    textByToken.set(token, text);
+  }
+  if (textByToken.size === 0) return value;
+
+  // One pass, so pasted text that looks like a token is left alone
+  const pattern = new RegExp([...textByToken.keys()].map(escapeRegExp).join('|'), 'g');
+  return value.replace(pattern, (token) => textByToken.get(token)!);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Find the paste at `offset`: a token the offset is inside of or next to,
+ * or else expanded paste text containing the offset. Expanded text is only
+ * found while it is unchanged.
+ */
+export function findPasteAt(value: string, offset: number, pastes: Iterable<PastedText>): PasteLocation | undefined {
+  const list = [...pastes];
+  for (const expanded of [false, true]) {
+    for (const paste of list) {
+      const needle = expanded ? paste.text : paste.token;
+      if (!needle) continue;
+      // The nearest occurrence that starts at or before the offset
+      const start = value.lastIndexOf(needle, offset);
+      if (start !== -1 && offset <= start + needle.length) {
+        return { paste, start, end: start + needle.length, expanded };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * A range of text that edits must keep whole, as offsets [start, end).
+ */
+export interface TokenRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where each paste token occurs in `value`.
+ */
+export function findPasteTokens(value: string, pastes: Iterable<PastedText>): TokenRange[] {
+  const ranges: TokenRange[] = [];
+  for (const { token } of pastes) {
+    if (!token) continue;
+    for (let at = value.indexOf(token); at !== -1; at = value.indexOf(token, at + token.length)) {
+      ranges.push({ start: at, end: at + token.length });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Widen the range [start, end) to whole tokens wherever it cuts into one.
+ * An empty range strictly inside a token widens to the whole token.
+ */
+export function expandToRanges(start: number, end: number, ranges: Iterable<TokenRange>): TokenRange {
+  let from = start;
+  let to = end;
+  for (const range of ranges) {
+    const overlaps = start === end
+      ? range.start < start && start < range.end
+      : range.start < end && start < range.end;
+    if (overlaps) {
+      from = Math.min(from, range.start);
+      to = Math.max(to, range.end);
+    }
+  }
+  return { start: from, end: to };
+}
+
+/**
+ * Widen the range [start, end) of `value` to whole paste tokens wherever it
+ * cuts into one, so editing the range never leaves part of a token behind.
+ * An empty range strictly inside a token widens to the whole token.
+ */
+export function expandToPasteTokens(
+  value: string,
+  start: number,
+  end: number,
+  pastes: Iterable<PastedText>
+): TokenRange {
+  return expandToRanges(start, end, findPasteTokens(value, pastes));
+}
+
+/**
+ * Redo the change from `before` to `after` so it keeps tokens whole: text
+ * removed from inside a token takes the whole token, and text inserted
+ * inside one goes after it. For edits made without knowing about tokens,
+ * such as vi commands. `cursorOffset` is the cursor in `after`.
+ */
+export function keepRangesWhole(
+  before: string,
+  after: string,
+  cursorOffset: number,
+  ranges: TokenRange[]
+): { value: string; cursorOffset: number } {
+  const limit = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < limit && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < limit - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+    suffix++;
+  }
+  const removedEnd = before.length - suffix;
+  const insertedEnd = after.length - suffix;
+
+  const widened = expandToRanges(prefix, removedEnd, ranges);
+  if (widened.start === prefix && widened.end === removedEnd) {
+    return { value: after, cursorOffset };
+  }
+
+  const from = prefix === removedEnd ? widened.end : widened.start;
+  const inserted = after.slice(prefix, insertedEnd);
+  const value = before.slice(0, from) + inserted + before.slice(widened.end);
+  if (cursorOffset < prefix) {
+    return { value, cursorOffset: Math.min(cursorOffset, from) };
+  }
+  if (cursorOffset <= insertedEnd) {
+    return { value, cursorOffset: from + cursorOffset - prefix };
+  }
+  return { value, cursorOffset: cursorOffset + value.length - after.length };
+}
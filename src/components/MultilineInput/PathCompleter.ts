@@ -0,0 +1,157 @@
+import { readdirSync, statSync, type Dirent } from 'fs';
+import { homedir } from 'os';
+import { join, resolve } from 'path';
+import type { CompletionCandidate, CompletionProvider } from './Completion.js';
+import { log } from '../../utils/logger.js';
+
+export interface PathCompleterOptions {
+  /** Directory relative paths are resolved against (default: process.cwd()) */
+  cwd?: string;
+  /** Home directory used for `~` (default: os.homedir()) */
+  homeDir?: string;
+  /**
+   * Include dotfiles even when the typed name does not start with '.'
+   * (default: false)
+   */
+  showHidden?: boolean;
+  /** Only offer directories (default: false) */
+  directoriesOnly?: boolean;
+  /**
+   * Only offer files with one of these extensions, e.g. ['.ts', '.tsx'].
+   * Directories are always offered so they can be descended into.
+   */
+  extensions?: string[];
+  /** Replace a leading `~` with the home directory in the inserted path (default: false) */
+  expandTilde?: boolean;
+}
+
+/**
+ * The whitespace-delimited token that ends at the cursor. A backslash
+ * escapes the following character, so `my\ file` is one token.
+ */
+export interface PathToken {
+  /** Start offset of the token in the text */
+  start: number;
+  /** End offset (the cursor) */
+  end: number;
+  /** Token text as typed (escapes kept) */
+  raw: string;
+  /** Token text with escapes removed */
+  path: string;
+}
+
+/**
+ * Find the path token that ends at the cursor.
+ */
+export function findPathToken(text: string, cursorOffset: number): PathToken {
+  let start = cursorOffset;
+  while (start > 0) {
+    const char = text[start - 1];
+    if (!/\s/.test(char)) {
+      start--;
+      continue;
+    }
+    // Whitespace preceded by an odd number of backslashes is escaped
+    let backslashes = 0;
+    while (start - 2 - backslashes >= 0 && text[start - 2 - backslashes] === '\\') {
+      backslashes++;
+    }
+    if (backslashes % 2 === 0) break;
+    start--;
+  }
+
+  const raw = text.slice(start, cursorOffset);
+  return { start, end: cursorOffset, raw, path: unescapePath(raw) };
+}
+
+/**
+ * Escape spaces (and backslashes) so a path stays one token.
+ */
+export function escapePath(path: string): string {
+  return path.replace(/[\\\s]/g, (char) => `\\${char}`);
+}
+
+function unescapePath(raw: string): string {
+  return raw.replace(/\\(.)/g, '$1');
+}
+
+function isDirectory(directory: string, entry: Dirent): boolean {
+  if (entry.isDirectory()) return true;
+  if (!entry.isSymbolicLink()) return false;
+  try {
+    return statSync(join(directory, entry.name)).isDirectory();
+  } catch {
+    // Broken link
+    return false;
+  }
+}
+
+/**
+ * Create a completion provider for filesystem paths.
+ *
+ * The token before the cursor is split into a directory part and a name
+ * prefix; entries of that directory starting with the prefix are offered.
+ * Directories get a trailing '/', spaces are escaped, and `~` / `~/` refer
+ * to the home directory.
+ */
+export function createPathCompleter(options: PathCompleterOptions = {}): CompletionProvider {
+  const {
+    cwd,
+    homeDir,
+    showHidden = false,
+    directoriesOnly = false,
+    extensions,
+    expandTilde = false,
+  } = options;
+
+  return (text, cursorOffset) => {
+    const token = findPathToken(text, cursorOffset);
+    const home = homeDir ?? homedir();
+
+    // "~" alone completes to the home directory itself
+    let typed = token.path === '~' ? '~/' : token.path;
+    const isTilde = typed.startsWith('~/');
+    if (isTilde && expandTilde) {
+      typed = home + typed.slice(1);
+    }
+
+    const slash = typed.lastIndexOf('/');
+    const directoryPart = typed.slice(0, slash + 1);
+    const prefix = typed.slice(slash + 1);
+
+    const resolvedDirectory = isTilde && !expandTilde
+      ? join(home, directoryPart.slice(1))
+      : resolve(cwd ?? process.cwd(), directoryPart || '.');
+
+    let entries: Dirent[];
+    try {
+      entries = readdirSync(resolvedDirectory, { withFileTypes: true });
+    } catch (error) {
+      log(`[PATH] cannot list ${resolvedDirectory}: ${String(error)}`, 'DEBUG');
+      return [];
+    }
+
+    entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+    const candidates: CompletionCandidate[] = [];
+    for (const entry of entries) {
+      const { name } = entry;
+      if (!name.startsWith(prefix)) continue;
+      if (name.startsWith('.') && !showHidden && !prefix.startsWith('.')) continue;
+
+      const directory = isDirectory(resolvedDirectory, entry);
+      if (!directory && directoriesOnly) continue;
+      if (!directory && extensions && !extensions.some((extension) => name.endsWith(extension))) continue;
+
+      const suffix = directory ? '/' : '';
+      candidates.push({
+        value: escapePath(directoryPart + name) + suffix,
+        label: name + suffix,
+        start: token.start,
+        end: token.end,
+      });
+    }
+
+    return candidates;
+  };
+}
@@ -0,0 +1,39 @@
+import { splitGraphemes } from '../../utils/graphemes.js';
+import { isDefaultWordChar } from './TextBuffer.js';
+import type { WordCharPredicate } from './types.js';
+
+/**
+ * Returns the text to suggest after `text` (only the missing part, not the
+ * whole line), directly or as a promise. Undefined or '' means no suggestion.
+ */
+export type Suggester = (text: string) => string | undefined | Promise<string | undefined>;
+
+/**
+ * Suggest the rest of the newest history entry that starts with the text.
+ */
+export function createHistorySuggester(entries: string[]): Suggester {
+  return (text) => {
+    if (!text) return undefined;
+    for (let i = entries.length - 1; i >= 0; i--) {
+      if (entries[i].length > text.length && entries[i].startsWith(text)) {
+        return entries[i].slice(text.length);
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * The part of a suggestion accepted by a word-wise step (Alt+F): any
+ * leading non-word characters followed by one word.
+ */
+export function getSuggestionWord(
+  suggestion: string,
+  isWordChar: WordCharPredicate = isDefaultWordChar
+): string {
+  const graphemes = splitGraphemes(suggestion);
+  let i = 0;
+  while (i < graphemes.length && !isWordChar(graphemes[i])) i++;
+  while (i < graphemes.length && isWordChar(graphemes[i])) i++;
+  return graphemes.slice(0, i).join('');
+}
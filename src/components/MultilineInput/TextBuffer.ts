@@ -1,4 +1,12 @@
-import type { Buffer, Cursor, Direction } from './types.js';
+import type { Buffer, Cursor, Direction, Selection, WordCharPredicate, WrapStrategy } from './types.js';
+import { getVisualPosition, getBufferColumn, getVisualRowCount } from './Layout.js';
+import {
+  splitGraphemes,
+  getStringWidth,
+  previousGraphemeBoundary,
+  nextGraphemeBoundary,
+  offsetAtWidth,
+} from '../../utils/graphemes.js';
 
 /**
  * Create a new buffer from optional initial text
@@ -53,7 +61,7 @@ export function insertText(
 }
 
 /**
- * Delete character before cursor (backspace)
+ * Delete the grapheme cluster before cursor (backspace)
  */
 export function deleteChar(
   buffer: Buffer,
@@ -82,21 +90,22 @@ export function deleteChar(
     };
   }
 
-  // Delete character within the line
+  // Delete the whole grapheme cluster within the line
   const currentLine = buffer.lines[line];
-  const newLine = currentLine.slice(0, column - 1) + currentLine.slice(column);
+  const start = previousGraphemeBoundary(currentLine, column);
+  const newLine = currentLine.slice(0, start) + currentLine.slice(column);
 
   const newLines = [...buffer.lines];
   newLines[line] = newLine;
 
   return {
     buffer: { lines: newLines },
-    cursor: { line, column: column - 1 },
+    cursor: { line, column: start },
   };
 }
 
 /**
- * Delete character after cursor (forward delete / Delete key)
+ * Delete the grapheme cluster after cursor (forward delete / Delete key)
  */
 export function deleteCharForward(
   buffer: Buffer,
@@ -126,8 +135,9 @@ export function deleteCharForward(
     };
   }
 
-  // Delete character after cursor within the line
-  const newLine = currentLine.slice(0, column) + currentLine.slice(column + 1);
+  // Delete the whole grapheme cluster after cursor within the line
+  const end = nextGraphemeBoundary(currentLine, column);
+  const newLine = currentLine.slice(0, column) + currentLine.slice(end);
 
   const newLines = [...buffer.lines];
   newLines[line] = newLine;
@@ -138,6 +148,69 @@ export function deleteCharForward(
   };
 }
 
+/**
+ * Compare two cursor positions.
+ * Returns a negative number if `a` comes before `b`, a positive number if
+ * it comes after, and 0 if they are equal.
+ */
+export function compareCursors(a: Cursor, b: Cursor): number {
+  if (a.line !== b.line) {
+    return a.line - b.line;
+  }
+  return a.column - b.column;
+}
+
+/**
+ * Get the ordered start and end positions of a selection.
+ */
+export function getSelectionRange(selection: Selection): { start: Cursor; end: Cursor } {
+  const { anchor, head } = selection;
+  return compareCursors(anchor, head) <= 0
+    ? { start: anchor, end: head }
+    : { start: head, end: anchor };
+}
+
+/**
+ * Get the text between two positions (start must not come after end).
+ * Lines within the range are joined with newlines.
+ */
+export function getTextInRange(buffer: Buffer, start: Cursor, end: Cursor): string {
+  if (start.line === end.line) {
+    return buffer.lines[start.line].slice(start.column, end.column);
+  }
+
+  const parts = [buffer.lines[start.line].slice(start.column)];
+  for (let i = start.line + 1; i < end.line; i++) {
+    parts.push(buffer.lines[i]);
+  }
+  parts.push(buffer.lines[end.line].slice(0, end.column));
+  return parts.join('\n');
+}
+
+/**
+ * Delete the text between two positions (start must not come after end).
+ * The cursor is placed at the start of the removed range.
+ */
+export function deleteRange(
+  buffer: Buffer,
+  start: Cursor,
+  end: Cursor
+): { buffer: Buffer; cursor: Cursor } {
+  const before = buffer.lines[start.line].slice(0, start.column);
+  const after = buffer.lines[end.line].slice(end.column);
+
+  const newLines = [
+    ...buffer.lines.slice(0, start.line),
+    before + after,
+    ...buffer.lines.slice(end.line + 1),
+  ];
+
+  return {
+    buffer: { lines: newLines },
+    cursor: { line: start.line, column: start.column },
+  };
+}
+
 /**
  * Insert a new line at cursor position (splits current line)
  */
@@ -162,148 +235,258 @@ export function insertNewLine(
 }
 
 /**
- * Information about a visual row within a wrapped line.
+ * Result of a kill operation: the new state plus the removed text
+ */
+export interface KillResult {
+  buffer: Buffer;
+  cursor: Cursor;
+  /** Text that was removed (empty if nothing was killed) */
+  killed: string;
+}
+
+/**
+ * Remove the text between two positions and return it alongside the new state.
+ * Positions may be given in either order.
  */
-interface VisualRowInfo {
-  /** Starting offset in the buffer line */
-  start: number;
-  /** Length of this visual row */
-  length: number;
+export function killRange(buffer: Buffer, from: Cursor, to: Cursor): KillResult {
+  const [start, end] = compareCursors(from, to) <= 0 ? [from, to] : [to, from];
+  if (compareCursors(start, end) === 0) {
+    return { buffer, cursor: start, killed: '' };
+  }
+  const killed = getTextInRange(buffer, start, end);
+  return { ...deleteRange(buffer, start, end), killed };
 }
 
 /**
- * Break a line into visual rows using word-aware wrapping.
- * Words are kept intact when possible, breaking at spaces.
- * Long words that exceed width are hard-wrapped.
+ * Kill from the cursor to the end of the line (Ctrl+K).
+ * At the end of a line, the line break is killed instead (joining the next line).
  */
-export function getVisualRows(line: string, width: number): VisualRowInfo[] {
-  const safeWidth = Math.max(1, width);
-  const rows: VisualRowInfo[] = [];
+export function killToLineEnd(buffer: Buffer, cursor: Cursor): KillResult {
+  const currentLine = buffer.lines[cursor.line];
+  if (cursor.column < currentLine.length) {
+    return killRange(buffer, cursor, { line: cursor.line, column: currentLine.length });
+  }
+  if (cursor.line < buffer.lines.length - 1) {
+    return killRange(buffer, cursor, { line: cursor.line + 1, column: 0 });
+  }
+  return { buffer, cursor, killed: '' };
+}
 
-  if (line.length === 0) {
-    return [{ start: 0, length: 0 }];
+/**
+ * Kill from the start of the line to the cursor (Ctrl+U).
+ * At the start of a line, the preceding line break is killed instead.
+ */
+export function killToLineStart(buffer: Buffer, cursor: Cursor): KillResult {
+  if (cursor.column > 0) {
+    return killRange(buffer, { line: cursor.line, column: 0 }, cursor);
+  }
+  if (cursor.line > 0) {
+    return killRange(buffer, { line: cursor.line - 1, column: buffer.lines[cursor.line - 1].length }, cursor);
   }
+  return { buffer, cursor, killed: '' };
+}
 
+/**
+ * Default word character definition: letters, digits and underscore
+ * (in any script).
+ */
+export const isDefaultWordChar: WordCharPredicate = (char) => /^[\p{L}\p{N}\p{M}_]+$/u.test(char);
+
+/**
+ * Split the whole buffer into grapheme clusters with their flat offsets.
+ * Line breaks appear as '\n' clusters.
+ */
+export function getBufferGraphemes(buffer: Buffer): { graphemes: string[]; offsets: number[] } {
+  const graphemes = splitGraphemes(buffer.lines.join('\n'));
+  const offsets: number[] = [];
   let offset = 0;
-  let remaining = line;
-
-  while (remaining.length > 0) {
-    let chunkLength = safeWidth;
-
-    if (remaining.length <= safeWidth) {
-      chunkLength = remaining.length;
-    } else {
-      // Find split point (last space within width)
-      let splitIndex = -1;
-      for (let i = safeWidth - 1; i >= 0; i--) {
-        if (remaining[i] === ' ') {
-          splitIndex = i;
-          break;
-        }
-      }
+  for (const grapheme of graphemes) {
+    offsets.push(offset);
+    offset += grapheme.length;
+  }
+  offsets.push(offset);
+  return { graphemes, offsets };
+}
 
-      if (splitIndex !== -1) {
-        // Include the space in the chunk
-        chunkLength = splitIndex + 1;
-      }
-    }
+/**
+ * Find the start of the word before the cursor (readline backward-word).
+ * Skips non-word characters (including line breaks), then word characters.
+ */
+export function findWordStart(
+  buffer: Buffer,
+  cursor: Cursor,
+  isWordChar: WordCharPredicate = isDefaultWordChar
+): Cursor {
+  const { graphemes, offsets } = getBufferGraphemes(buffer);
+  const offset = getOffset(buffer, cursor);
+  let index = offsets.findIndex((o) => o >= offset);
+  if (index === -1) index = graphemes.length;
 
-    rows.push({ start: offset, length: chunkLength });
-    remaining = remaining.slice(chunkLength);
-    offset += chunkLength;
-  }
+  while (index > 0 && !isWordChar(graphemes[index - 1])) index--;
+  while (index > 0 && isWordChar(graphemes[index - 1])) index--;
 
-  return rows;
+  return getCursor(buffer, offsets[index]);
 }
 
 /**
- * Calculate which visual row (within a buffer line) the cursor is on,
- * and the column within that visual row.
- * Uses word-aware wrapping.
+ * Find the end of the word after the cursor (readline forward-word).
+ * Skips non-word characters (including line breaks), then word characters.
  */
-function getVisualPosition(
-  bufferColumn: number,
-  line: string,
-  width: number
-): { visualRow: number; visualCol: number } {
-  const rows = getVisualRows(line, width);
-
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
-    const rowEnd = row.start + row.length;
-
-    if (bufferColumn >= row.start && bufferColumn < rowEnd) {
-      return { visualRow: i, visualCol: bufferColumn - row.start };
-    }
-    // Handle cursor at the very end of this row
-    if (bufferColumn === rowEnd && i === rows.length - 1) {
-      return { visualRow: i, visualCol: row.length };
-    }
+export function findWordEnd(
+  buffer: Buffer,
+  cursor: Cursor,
+  isWordChar: WordCharPredicate = isDefaultWordChar
+): Cursor {
+  const { graphemes, offsets } = getBufferGraphemes(buffer);
+  const offset = getOffset(buffer, cursor);
+  let index = offsets.findIndex((o) => o >= offset);
+  if (index === -1) index = graphemes.length;
+
+  while (index < graphemes.length && !isWordChar(graphemes[index])) index++;
+  while (index < graphemes.length && isWordChar(graphemes[index])) index++;
+
+  return getCursor(buffer, offsets[index]);
+}
+
+/**
+ * Delete from the start of the previous word up to the cursor (Ctrl+W / Alt+Backspace).
+ * Returns the removed text so callers can add it to a kill ring.
+ */
+export function deleteWordBackward(
+  buffer: Buffer,
+  cursor: Cursor,
+  isWordChar: WordCharPredicate = isDefaultWordChar
+): KillResult {
+  return killRange(buffer, findWordStart(buffer, cursor, isWordChar), cursor);
+}
+
+/**
+ * Delete from the cursor up to the end of the next word (Alt+D).
+ * Returns the removed text so callers can add it to a kill ring.
+ */
+export function deleteWordForward(
+  buffer: Buffer,
+  cursor: Cursor,
+  isWordChar: WordCharPredicate = isDefaultWordChar
+): KillResult {
+  return killRange(buffer, cursor, findWordEnd(buffer, cursor, isWordChar));
+}
+
+/**
+ * Replace the text between two positions and place the cursor after the
+ * replacement.
+ */
+function replaceRange(
+  buffer: Buffer,
+  start: Cursor,
+  end: Cursor,
+  text: string
+): { buffer: Buffer; cursor: Cursor } {
+  const removed = deleteRange(buffer, start, end);
+  return insertText(removed.buffer, removed.cursor, text);
+}
+
+/**
+ * Swap the character before the cursor with the one under it and move the
+ * cursor forward (Ctrl+T). At the end of a line the last two characters are
+ * swapped instead. Does nothing at the start of a line.
+ */
+export function transposeChars(buffer: Buffer, cursor: Cursor): { buffer: Buffer; cursor: Cursor } {
+  const line = buffer.lines[cursor.line];
+  if (cursor.column === 0) {
+    return { buffer, cursor };
   }
 
-  // Cursor at wrap point - belongs to the next row
-  for (let i = 0; i < rows.length; i++) {
-    const row = rows[i];
-    if (bufferColumn === row.start + row.length && i < rows.length - 1) {
-      return { visualRow: i + 1, visualCol: 0 };
-    }
+  const point = cursor.column >= line.length ? previousGraphemeBoundary(line, line.length) : cursor.column;
+  const start = previousGraphemeBoundary(line, point);
+  const end = nextGraphemeBoundary(line, point);
+  if (start === point) {
+    return { buffer, cursor };
   }
 
-  // Fallback: cursor at end of line
-  const lastRow = rows[rows.length - 1];
-  return { visualRow: rows.length - 1, visualCol: lastRow.length };
+  const swapped = line.slice(point, end) + line.slice(start, point);
+  return replaceRange(buffer, { line: cursor.line, column: start }, { line: cursor.line, column: end }, swapped);
 }
 
 /**
- * Calculate how many visual rows a buffer line takes.
- * Uses word-aware wrapping.
+ * Swap the word before the cursor with the word after it and move the
+ * cursor past both (Alt+T). Inside a word, that word is swapped with the
+ * previous one; after the last word, the last two words are swapped.
  */
-function getVisualRowCount(line: string, width: number): number {
-  return getVisualRows(line, width).length;
+export function transposeWords(
+  buffer: Buffer,
+  cursor: Cursor,
+  isWordChar: WordCharPredicate = isDefaultWordChar
+): { buffer: Buffer; cursor: Cursor } {
+  const end2 = findWordEnd(buffer, cursor, isWordChar);
+  const start2 = findWordStart(buffer, end2, isWordChar);
+  const start1 = findWordStart(buffer, start2, isWordChar);
+  const end1 = findWordEnd(buffer, start1, isWordChar);
+
+  if (compareCursors(start1, start2) === 0 || compareCursors(end1, start2) > 0) {
+    return { buffer, cursor };
+  }
+
+  const word1 = getTextInRange(buffer, start1, end1);
+  const between = getTextInRange(buffer, end1, start2);
+  const word2 = getTextInRange(buffer, start2, end2);
+  return replaceRange(buffer, start1, end2, word2 + between + word1);
 }
 
 /**
- * Convert visual position back to buffer column.
- * Uses word-aware wrapping.
+ * Change the case of the text from the cursor to the end of the next word
+ * and move the cursor there (Alt+U, Alt+L, Alt+C).
+ * 'capitalize' upper-cases the first word character and lower-cases the rest.
  */
-function visualToBufferColumn(
-  visualRow: number,
-  visualCol: number,
-  line: string,
-  width: number
-): number {
-  const rows = getVisualRows(line, width);
-  if (visualRow >= rows.length) {
-    return line.length;
+export function changeWordCase(
+  buffer: Buffer,
+  cursor: Cursor,
+  change: 'upper' | 'lower' | 'capitalize',
+  isWordChar: WordCharPredicate = isDefaultWordChar
+): { buffer: Buffer; cursor: Cursor } {
+  const end = findWordEnd(buffer, cursor, isWordChar);
+  const text = getTextInRange(buffer, cursor, end);
+  if (!text) {
+    return { buffer, cursor };
+  }
+
+  let changed: string;
+  if (change === 'upper') {
+    changed = text.toUpperCase();
+  } else if (change === 'lower') {
+    changed = text.toLowerCase();
+  } else {
+    const graphemes = splitGraphemes(text);
+    const first = graphemes.findIndex((grapheme) => isWordChar(grapheme));
+    changed = graphemes
+      .map((grapheme, i) => (i === first ? grapheme.toUpperCase() : grapheme.toLowerCase()))
+      .join('');
   }
-  const row = rows[visualRow];
-  return Math.min(row.start + visualCol, line.length);
+
+  return replaceRange(buffer, cursor, end, changed);
 }
 
 /**
- * Get the length of a specific visual row within a buffer line.
- * Uses word-aware wrapping.
+ * Map a column in one buffer line to the column in another line that sits
+ * at the same display position (used for logical up/down movement).
  */
-function getVisualRowLength(
-  line: string,
-  visualRow: number,
-  width: number
-): number {
-  const rows = getVisualRows(line, width);
-  if (visualRow >= rows.length) return 0;
-  return rows[visualRow].length;
+function alignColumn(fromLine: string, column: number, toLine: string): number {
+  return offsetAtWidth(toLine, getStringWidth(fromLine.slice(0, column)));
 }
 
 /**
  * Move cursor in specified direction with bounds checking.
- * When width is provided, up/down movement is based on visual lines (accounting for wrapping).
- * When width is not provided, up/down movement is based on buffer lines.
+ * When width is provided, up/down movement is based on visual lines (accounting for wrapping
+ * with `wrapStrategy`). When width is not provided, up/down movement is based on buffer lines.
+ * Word motions use `isWordChar` to decide what belongs to a word.
  */
 export function moveCursor(
   buffer: Buffer,
   cursor: Cursor,
   direction: Direction,
-  width?: number
+  width?: number,
+  isWordChar: WordCharPredicate = isDefaultWordChar,
+  wrapStrategy?: WrapStrategy
 ): Cursor {
   const { line, column } = cursor;
   const currentLine = buffer.lines[line];
@@ -312,7 +495,7 @@ export function moveCursor(
   switch (direction) {
     case 'left':
       if (column > 0) {
-        return { line, column: column - 1 };
+        return { line, column: previousGraphemeBoundary(currentLine, column) };
       }
       // Wrap to end of previous line
       if (line > 0) {
@@ -322,7 +505,7 @@ export function moveCursor(
 
     case 'right':
       if (column < currentLine.length) {
-        return { line, column: column + 1 };
+        return { line, column: nextGraphemeBoundary(currentLine, column) };
       }
       // Wrap to start of next line
       if (line < lineCount - 1) {
@@ -332,25 +515,19 @@ export function moveCursor(
 
     case 'up':
       if (width !== undefined) {
-        // Visual-aware movement (word-aware wrapping)
-        const { visualRow, visualCol } = getVisualPosition(column, currentLine, width);
+        // Visual-aware movement, following the wrap strategy's rows
+        const { row, x } = getVisualPosition(currentLine, column, width, wrapStrategy);
 
-        if (visualRow > 0) {
+        if (row > 0) {
           // Move to previous visual row within the same buffer line
-          const targetVisualRow = visualRow - 1;
-          const targetVisualRowLength = getVisualRowLength(currentLine, targetVisualRow, width);
-          const targetVisualCol = Math.min(visualCol, targetVisualRowLength);
-          return { line, column: visualToBufferColumn(targetVisualRow, targetVisualCol, currentLine, width) };
+          return { line, column: getBufferColumn(currentLine, row - 1, x, width, wrapStrategy) };
         }
 
         // At first visual row of current line - move to last visual row of previous buffer line
         if (line > 0) {
           const prevLine = buffer.lines[line - 1];
-          const prevLineVisualRows = getVisualRowCount(prevLine, width);
-          const targetVisualRow = prevLineVisualRows - 1;
-          const targetVisualRowLength = getVisualRowLength(prevLine, targetVisualRow, width);
-          const targetVisualCol = Math.min(visualCol, targetVisualRowLength);
-          return { line: line - 1, column: visualToBufferColumn(targetVisualRow, targetVisualCol, prevLine, width) };
+          const lastRow = getVisualRowCount(prevLine, width, wrapStrategy) - 1;
+          return { line: line - 1, column: getBufferColumn(prevLine, lastRow, x, width, wrapStrategy) };
         }
 
         return cursor;
@@ -358,31 +535,23 @@ export function moveCursor(
 
       // Buffer-line movement (no width provided)
       if (line > 0) {
-        const targetLine = buffer.lines[line - 1];
-        return { line: line - 1, column: Math.min(column, targetLine.length) };
+        return { line: line - 1, column: alignColumn(currentLine, column, buffer.lines[line - 1]) };
       }
       return cursor;
 
     case 'down':
       if (width !== undefined) {
-        // Visual-aware movement (word-aware wrapping)
-        const { visualRow, visualCol } = getVisualPosition(column, currentLine, width);
-        const currentLineVisualRows = getVisualRowCount(currentLine, width);
+        // Visual-aware movement, following the wrap strategy's rows
+        const { row, x } = getVisualPosition(currentLine, column, width, wrapStrategy);
 
-        if (visualRow < currentLineVisualRows - 1) {
+        if (row < getVisualRowCount(currentLine, width, wrapStrategy) - 1) {
           // Move to next visual row within the same buffer line
-          const targetVisualRow = visualRow + 1;
-          const targetVisualRowLength = getVisualRowLength(currentLine, targetVisualRow, width);
-          const targetVisualCol = Math.min(visualCol, targetVisualRowLength);
-          return { line, column: visualToBufferColumn(targetVisualRow, targetVisualCol, currentLine, width) };
+          return { line, column: getBufferColumn(currentLine, row + 1, x, width, wrapStrategy) };
         }
 
         // At last visual row of current line - move to first visual row of next buffer line
         if (line < lineCount - 1) {
-          const nextLine = buffer.lines[line + 1];
-          const targetVisualRowLength = getVisualRowLength(nextLine, 0, width);
-          const targetVisualCol = Math.min(visualCol, targetVisualRowLength);
-          return { line: line + 1, column: Math.min(targetVisualCol, nextLine.length) };
+          return { line: line + 1, column: getBufferColumn(buffer.lines[line + 1], 0, x, width, wrapStrategy) };
         }
 
         return cursor;
@@ -390,8 +559,7 @@ export function moveCursor(
 
       // Buffer-line movement (no width provided)
       if (line < lineCount - 1) {
-        const targetLine = buffer.lines[line + 1];
-        return { line: line + 1, column: Math.min(column, targetLine.length) };
+        return { line: line + 1, column: alignColumn(currentLine, column, buffer.lines[line + 1]) };
       }
       return cursor;
 
@@ -401,11 +569,38 @@ export function moveCursor(
     case 'lineEnd':
       return { line, column: currentLine.length };
 
+    case 'wordLeft':
+      return findWordStart(buffer, cursor, isWordChar);
+
+    case 'wordRight':
+      return findWordEnd(buffer, cursor, isWordChar);
+
     default:
       return cursor;
   }
 }
 
+/**
+ * Move the cursor up (negative) or down (positive) by a number of rows, as
+ * if pressing Up/Down that many times. Stops early at the first or last row.
+ */
+export function moveCursorRows(
+  buffer: Buffer,
+  cursor: Cursor,
+  rows: number,
+  width?: number,
+  wrapStrategy?: WrapStrategy
+): Cursor {
+  const direction = rows < 0 ? 'up' : 'down';
+  let current = cursor;
+  for (let i = 0; i < Math.abs(rows); i++) {
+    const next = moveCursor(buffer, current, direction, width, isDefaultWordChar, wrapStrategy);
+    if (compareCursors(next, current) === 0) break;
+    current = next;
+  }
+  return current;
+}
+
 /**
  * Get the full text content from buffer (lines joined with newlines)
  */
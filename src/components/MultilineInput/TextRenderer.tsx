@@ -1,7 +1,22 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef } from 'react';
 import { Box, Text } from 'ink';
-import type { Buffer, Cursor, WrapResult } from './types.js';
+import type {
+  Buffer,
+  ClipResult,
+  Cursor,
+  Decoration,
+  Decorator,
+  Selection,
+  TextStyle,
+  WrapMode,
+  WrapResult,
+  WrapStrategy,
+} from './types.js';
 import { useTerminalWidth } from '../../hooks/useTerminalWidth.js';
+import { getSelectionRange } from './TextBuffer.js';
+import { getVisualRows, getVisualRowIndex } from './Layout.js';
+import { resolveWrapStrategy } from './Wrap.js';
+import { splitGraphemes, getGraphemeWidth, getStringWidth, graphemeAt } from '../../utils/graphemes.js';
 
 /**
  * Props for the TextRenderer component
@@ -15,131 +30,355 @@ export interface TextRendererProps {
   width?: number;
   /** Whether to show the cursor (defaults to true) */
   showCursor?: boolean;
+  /** Active selection to highlight */
+  selection?: Selection | null;
+  /** Background color for selected text (defaults to 'blue') */
+  selectionColor?: string;
+  /** Content shown directly below the cursor's visual row, e.g. a completion menu */
+  menu?: React.ReactNode;
+  /**
+   * Buffer position the menu is aligned with. Used when it is on the
+   * cursor's visual row; otherwise the menu starts at the left edge.
+   * Defaults to the cursor.
+   */
+  menuAnchor?: Cursor;
+  /**
+   * Ghost text shown dimmed after the cursor when it is at the end of the
+   * buffer (ignored while there is a selection). It is wrapped together
+   * with the text, so accepting it does not change the layout.
+   */
+  suggestion?: string;
+  /**
+   * Returns styled ranges for the buffer lines (syntax highlighting).
+   * Called again only when the text or the function changes, so pass a
+   * stable function.
+   */
+  decorator?: Decorator;
+  /**
+   * Maximum number of visual rows to render. Longer content scrolls: only a
+   * window of rows around the cursor is rendered.
+   */
+  maxHeight?: number;
+  /** Minimum number of rows to render; shorter content is padded with empty rows */
+  minHeight?: number;
+  /** Rows kept visible above and below the cursor while scrolling (defaults to 1) */
+  scrollOff?: number;
+  /** Show a dimmed "rows x–y of n" line below the viewport when content scrolls */
+  scrollIndicator?: boolean;
+  /**
+   * How long lines are displayed: 'word' (default) wraps at spaces,
+   * 'character' anywhere, 'hanging' at spaces with continuation rows indented
+   * under the text; a custom strategy can be passed too. 'none' keeps one row
+   * per line and scrolls horizontally to the cursor, marking clipped content
+   * with '…'.
+   */
+  wrap?: WrapMode | WrapStrategy;
 }
 
 /**
- * Wrap buffer lines to fit within a given width.
+ * First visual row of the viewport. The previous window is kept while the
+ * cursor stays at least `scrollOff` rows inside it; otherwise it scrolls just
+ * far enough, never past the end of the content.
+ */
+export function getViewportStart(
+  previousStart: number,
+  cursorRow: number,
+  rowCount: number,
+  height: number,
+  scrollOff: number
+): number {
+  const margin = Math.max(0, Math.min(scrollOff, Math.floor((height - 1) / 2)));
+  let start = previousStart;
+  if (cursorRow < start + margin) {
+    start = cursorRow - margin;
+  } else if (cursorRow > start + height - 1 - margin) {
+    start = cursorRow - height + 1 + margin;
+  }
+  return Math.max(0, Math.min(start, rowCount - height));
+}
+
+/**
+ * Wrap buffer lines to fit within a given width (in terminal cells).
  * Returns visual lines and maps cursor position to visual coordinates.
+ * Rows come from `getVisualRows` with the same strategy that cursor
+ * navigation uses, so both always agree on where lines break. Wrapping
+ * never splits a grapheme cluster.
  */
-export function wrapLines(buffer: Buffer, cursor: Cursor, width: number): WrapResult {
+export function wrapLines(
+  buffer: Buffer,
+  cursor: Cursor,
+  width: number,
+  strategy?: WrapStrategy
+): WrapResult {
   const visualLines: string[] = [];
+  const visualLineStarts: Cursor[] = [];
+  const visualLineIndents: number[] = [];
   let cursorVisualRow = 0;
   let cursorVisualCol = 0;
 
-  // Ensure width is at least 1 to avoid infinite loops
-  const safeWidth = Math.max(1, width);
+  buffer.lines.forEach((line, lineIndex) => {
+    const rows = getVisualRows(line, width, strategy);
+
+    if (lineIndex === cursor.line) {
+      // A cursor at a wrap point belongs to the row that starts there
+      const rowIndex = getVisualRowIndex(rows, cursor.column);
+      cursorVisualRow = visualLines.length + rowIndex;
+      cursorVisualCol = cursor.column - rows[rowIndex].start;
+    }
+
+    for (const row of rows) {
+      visualLines.push(line.slice(row.start, row.start + row.length));
+      visualLineStarts.push({ line: lineIndex, column: row.start });
+      visualLineIndents.push(row.indent ?? 0);
+    }
+  });
+
+  return { visualLines, cursorVisualRow, cursorVisualCol, visualLineStarts, visualLineIndents };
+}
+
+/**
+ * Horizontal scroll offset (in cells) that keeps the cursor cell visible.
+ * The previous offset is kept while the cursor stays clear of the edge cells,
+ * which show ellipsis markers when content is clipped.
+ */
+export function getHorizontalScroll(
+  previousScroll: number,
+  cursorX: number,
+  cursorWidth: number,
+  width: number
+): number {
+  let scroll = previousScroll;
+  if (cursorX < scroll + (scroll > 0 ? 1 : 0)) {
+    scroll = cursorX - 1;
+  } else if (cursorX + cursorWidth > scroll + width - 1) {
+    // Leave the last cell for a marker
+    scroll = cursorX + cursorWidth - width + 1;
+  }
+  return Math.max(0, scroll);
+}
+
+/**
+ * Clip buffer lines to the width without wrapping (wrap="none"). Every line
+ * is scrolled by the same offset so the cursor stays visible; clipped
+ * content is marked with an ellipsis at the edge. Never splits a grapheme
+ * cluster.
+ */
+export function clipLines(buffer: Buffer, cursor: Cursor, width: number, previousScroll = 0): ClipResult {
+  const safeWidth = Math.max(3, width);
+  const cursorLine = buffer.lines[cursor.line];
+  const cursorX = getStringWidth(cursorLine.slice(0, cursor.column));
+  const cursorWidth = Math.max(1, getStringWidth(graphemeAt(cursorLine, cursor.column)));
+  let widest = 0;
+  for (const line of buffer.lines) {
+    widest = Math.max(widest, getStringWidth(line));
+  }
+  // No scrolling while everything (and the cursor cell at the end) fits
+  const scrollX = widest < safeWidth ? 0 : getHorizontalScroll(previousScroll, cursorX, cursorWidth, safeWidth);
 
-  let visualRowIndex = 0;
+  const visualLines: string[] = [];
+  const visualLineStarts: Cursor[] = [];
+  const clips: ClipResult['clips'] = [];
 
-  for (let lineIndex = 0; lineIndex < buffer.lines.length; lineIndex++) {
-    const line = buffer.lines[lineIndex];
-    const isCursorLine = lineIndex === cursor.line;
+  buffer.lines.forEach((line, lineIndex) => {
+    const lineWidth = getStringWidth(line);
+    const hasLeft = scrollX > 0 && lineWidth > 0;
+    const hasRight = lineWidth > scrollX + safeWidth;
+    const from = scrollX + (hasLeft ? 1 : 0);
+    const to = scrollX + safeWidth - (hasRight ? 1 : 0);
 
-    // Handle empty line case
-    if (line.length === 0) {
-      visualLines.push('');
-      if (isCursorLine) {
-        cursorVisualRow = visualRowIndex;
-        cursorVisualCol = 0;
+    // Keep the graphemes that lie entirely within [from, to)
+    let x = 0;
+    let offset = 0;
+    let start = -1;
+    let end = -1;
+    let startX = from;
+    let endX = from;
+    for (const grapheme of splitGraphemes(line)) {
+      const graphemeWidth = getGraphemeWidth(grapheme);
+      if (start === -1 && x >= from) {
+        start = offset;
+        startX = x;
+      }
+      if (start !== -1 && x + graphemeWidth <= to) {
+        end = offset + grapheme.length;
+        endX = x + graphemeWidth;
       }
-      visualRowIndex++;
-      continue;
+      x += graphemeWidth;
+      offset += grapheme.length;
+    }
+    if (start === -1) {
+      start = line.length;
+      startX = Math.max(from, x);
+    }
+    if (end === -1) {
+      end = start;
+      endX = startX;
     }
 
-    let remaining = line;
-    let offset = 0;
+    visualLines.push(line.slice(start, end));
+    visualLineStarts.push({ line: lineIndex, column: start });
+    clips.push({
+      before: (hasLeft ? '…' : '') + ' '.repeat(Math.max(0, Math.min(startX, to) - from)),
+      after: hasRight ? ' '.repeat(Math.max(0, to - endX)) + '…' : '',
+    });
+  });
 
-    while (remaining.length > 0) {
-      let chunkLength = safeWidth;
-
-      if (remaining.length <= safeWidth) {
-        chunkLength = remaining.length;
-      } else {
-        // Find split point (last space within width)
-        let splitIndex = -1;
-        for (let i = safeWidth - 1; i >= 0; i--) {
-          if (remaining[i] === ' ') {
-            splitIndex = i;
-            break;
-          }
-        }
-
-        if (splitIndex !== -1) {
-          // Include the space in the chunk
-          chunkLength = splitIndex + 1;
-        }
-      }
+  return {
+    visualLines,
+    cursorVisualRow: cursor.line,
+    cursorVisualCol: cursor.column - visualLineStarts[cursor.line].column,
+    visualLineStarts,
+    visualLineIndents: visualLines.map(() => 0),
+    scrollX,
+    clips,
+  };
+}
 
-      const chunk = remaining.slice(0, chunkLength);
-      visualLines.push(chunk);
-
-      if (isCursorLine) {
-      // Check if cursor falls within this chunk
-        // Cursor is at `cursor.column` (relative to line start)
-        // Current chunk covers `offset` to `offset + chunkLength`
-        if (cursor.column >= offset && cursor.column < offset + chunkLength) {
-          cursorVisualRow = visualRowIndex;
-          cursorVisualCol = cursor.column - offset;
-        } else if (cursor.column === offset + chunkLength) {
-          // Cursor is at the end of this chunk
-          if (offset + chunkLength === line.length) {
-          // End of line
-            cursorVisualRow = visualRowIndex;
-            cursorVisualCol = chunkLength;
-          } else {
-            // Wrap point - cursor should be at start of next line
-            // We'll let the next iteration handle it (it will be index 0 of next chunk)
-            // But wait, if we are at the wrap point, the next iteration will see:
-            // offset = oldOffset + chunkLength.
-            // cursor.column == offset.
-            // So it enters the first `if` block: cursor.column >= offset.
-            // cursorVisualCol = cursor.column - offset = 0.
-            // This is correct.
-          }
-        }
-      }
+/**
+ * Portion of a visual row covered by the selection.
+ */
+interface RowSelection {
+  /** Start offset within the visual row */
+  start: number;
+  /** End offset within the visual row */
+  end: number;
+  /** Whether the selection continues past the end of the buffer line */
+  includesLineBreak: boolean;
+}
+
+/**
+ * Intersect a visual row with the selection range.
+ * Returns undefined when the row is not selected at all.
+ */
+function getRowSelection(
+  rowStart: Cursor,
+  rowLength: number,
+  isLastRowOfLine: boolean,
+  range: { start: Cursor; end: Cursor }
+): RowSelection | undefined {
+  const { line } = rowStart;
+  if (line < range.start.line || line > range.end.line) {
+    return undefined;
+  }
 
-      remaining = remaining.slice(chunkLength);
-      offset += chunkLength;
-      visualRowIndex++;
+  const startInLine = line === range.start.line ? range.start.column : 0;
+  const endInLine = line === range.end.line ? range.end.column : Infinity;
+
+  const start = Math.max(0, startInLine - rowStart.column);
+  const end = Math.min(rowLength, endInLine - rowStart.column);
+  const includesLineBreak = isLastRowOfLine && line < range.end.line;
+
+  if (start >= end && !includesLineBreak) {
+    return undefined;
+  }
+  return { start, end, includesLineBreak };
+}
+
+
+/**
+ * Decoration ranges of a buffer line that overlap a visual row, relative to
+ * the row.
+ */
+function getRowDecorations(
+  decorations: Decoration[],
+  rowStart: Cursor,
+  rowLength: number
+): Array<{ start: number; end: number; style: TextStyle }> {
+  const result: Array<{ start: number; end: number; style: TextStyle }> = [];
+  for (const decoration of decorations) {
+    if (decoration.line !== rowStart.line) continue;
+    const start = Math.max(0, decoration.start - rowStart.column);
+    const end = Math.min(rowLength, decoration.end - rowStart.column);
+    if (start < end) {
+      result.push({ start, end, style: decoration.style });
     }
   }
+  return result;
+}
 
-  return { visualLines, cursorVisualRow, cursorVisualCol };
+/**
+ * What to draw on a visual row besides its text. Offsets are UTF-16 offsets
+ * within the row.
+ */
+interface RowLayers {
+  /** Styled ranges, later ones winning */
+  decorations: Array<{ start: number; end: number; style: TextStyle }>;
+  /** Selected span */
+  selection?: RowSelection;
+  selectionColor: string;
+  /** Offset where ghost text (dimmed) begins */
+  ghostFrom?: number;
+  /** Cursor offset, if the cursor is drawn on this row */
+  cursorCol?: number;
 }
 
 /**
- * Render a line with cursor inserted at the specified position
+ * Render one visual row. The row is cut into segments wherever a
+ * decoration, the selection, ghost text or the cursor starts or ends, and
+ * each segment gets the merged style: decorations, then the selection
+ * background, then ghost dimming, then the inverse cursor. The cursor covers
+ * the whole grapheme cluster under it, or a trailing cell at the end of the row.
  */
-function renderLineWithCursor(
-  line: string,
-  cursorCol: number,
-  showCursor: boolean
-): React.ReactNode {
-  if (!showCursor) {
-    // Empty lines need a space to be rendered by Ink
-    return <Text>{line || ' '}</Text>;
+function renderRow(line: string, layers: RowLayers): React.ReactNode {
+  const { decorations, selection, selectionColor, ghostFrom, cursorCol } = layers;
+  const cursorEnd = cursorCol === undefined ? undefined : cursorCol + graphemeAt(line, cursorCol).length;
+
+  const boundaries = new Set([0, line.length]);
+  for (const decoration of decorations) {
+    boundaries.add(decoration.start);
+    boundaries.add(decoration.end);
+  }
+  if (selection) {
+    boundaries.add(selection.start);
+    boundaries.add(selection.end);
+  }
+  if (ghostFrom !== undefined) boundaries.add(ghostFrom);
+  if (cursorCol !== undefined && cursorEnd !== undefined) {
+    boundaries.add(cursorCol);
+    boundaries.add(cursorEnd);
+  }
+  const sorted = [...boundaries]
+    .filter((boundary) => boundary >= 0 && boundary <= line.length)
+    .sort((a, b) => a - b);
+
+  const parts: React.ReactNode[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const from = sorted[i];
+    const to = sorted[i + 1];
+    if (from === to) continue;
+
+    let style: TextStyle = {};
+    for (const decoration of decorations) {
+      if (from >= decoration.start && to <= decoration.end) {
+        style = { ...style, ...decoration.style };
+      }
+    }
+    if (selection && from >= selection.start && to <= selection.end) {
+      style = { ...style, backgroundColor: selectionColor };
+    }
+    if (ghostFrom !== undefined && from >= ghostFrom) {
+      style = { ...style, dimColor: true };
+    }
+    const isCursor = from === cursorCol;
+
+    parts.push(
+      <Text key={from} {...style} inverse={isCursor || undefined}>
+        {line.slice(from, to)}
+      </Text>
+    );
   }
 
-  // For empty lines with cursor, we need special handling
-  if (line.length === 0) {
-    return <Text inverse> </Text>;
+  // Trailing cell: the cursor at end of row, a marker for a selected line
+  // break, or a space so Ink renders an empty row
+  if (cursorCol === line.length) {
+    parts.push(<Text key="eol" inverse> </Text>);
+  } else if (selection?.includesLineBreak) {
+    parts.push(<Text key="eol" backgroundColor={selectionColor}> </Text>);
+  } else if (line.length === 0) {
+    parts.push(<Text key="eol"> </Text>);
   }
 
-  const before = line.slice(0, cursorCol);
-  const charUnderCursor = cursorCol < line.length ? line[cursorCol] : ' ';
-  const after = line.slice(cursorCol + 1);
-
-  // Render the cursor using Ink's Text with inverse colors for high visibility.
-  // We show the actual character under the cursor (or a space at line end)
-  // with inverted colors to make it stand out in any terminal color scheme.
-  return (
-    <>
-      <Text>{before}</Text>
-      <Text inverse>{charUnderCursor}</Text>
-      <Text>{after}</Text>
-    </>
-  );
+  return <>{parts}</>;
 }
 
 /**
@@ -150,26 +389,130 @@ export function TextRenderer({
   cursor,
   width: propWidth,
   showCursor = true,
+  selection,
+  selectionColor = 'blue',
+  menu,
+  menuAnchor,
+  suggestion,
+  decorator,
+  maxHeight,
+  minHeight = 0,
+  scrollOff = 1,
+  scrollIndicator = false,
+  wrap = 'word',
 }: TextRendererProps): React.ReactElement {
   const width = useTerminalWidth(propWidth);
-  const { visualLines, cursorVisualRow, cursorVisualCol } = wrapLines(buffer, cursor, width);
-
-  return (
-    <Box flexDirection="column">
-      {visualLines.map((line, index) => {
-        const isCursorRow = index === cursorVisualRow;
-
-        return (
-          <Box key={index}>
-            {isCursorRow ? (
-              // renderLineWithCursor returns a ReactNode composed of Text
-              renderLineWithCursor(line, cursorVisualCol, showCursor)
-            ) : (
-              <Text>{line || ' '}</Text>
-            )}
-          </Box>
-        );
-      })}
-    </Box>
-  );
+  // Scroll positions of the last committed render; new ones are derived from
+  // them and stored after commit, so rendering twice gives the same result
+  const viewportStart = useRef(0);
+  const scrollX = useRef(0);
+  const text = buffer.lines.join('\n');
+  const decorations = useMemo(() => decorator?.(buffer.lines), [decorator, text]);
+  const lastLine = buffer.lines.length - 1;
+  const showSuggestion =
+    !!suggestion && !selection && cursor.line === lastLine && cursor.column === buffer.lines[lastLine].length;
+  // Wrap the ghost text with the buffer; it starts at the cursor
+  const displayBuffer = showSuggestion
+    ? { lines: [...buffer.lines.slice(0, lastLine), buffer.lines[lastLine] + suggestion] }
+    : buffer;
+  const wrapStrategy = resolveWrapStrategy(wrap);
+  const clipped = wrapStrategy ? undefined : clipLines(displayBuffer, cursor, width, scrollX.current);
+  const { visualLines, cursorVisualRow, cursorVisualCol, visualLineStarts, visualLineIndents } =
+    clipped ?? wrapLines(displayBuffer, cursor, width, wrapStrategy);
+  const selectionRange = selection ? getSelectionRange(selection) : undefined;
+
+  let menuColumn = 0;
+  if (menu) {
+    const anchor = !menuAnchor
+      ? undefined
+      : clipped
+        ? clipLines(displayBuffer, menuAnchor, width, clipped.scrollX)
+        : wrapLines(displayBuffer, menuAnchor, width, wrapStrategy);
+    const anchorCol = !anchor
+      ? cursorVisualCol
+      : anchor.cursorVisualRow === cursorVisualRow
+        ? Math.max(0, anchor.cursorVisualCol)
+        : 0;
+    menuColumn = getStringWidth(clipped?.clips[cursorVisualRow].before ?? '') +
+      visualLineIndents[cursorVisualRow] +
+      getStringWidth(visualLines[cursorVisualRow].slice(0, anchorCol));
+  }
+
+  // Only a window of rows around the cursor is rendered when content exceeds maxHeight
+  const height = maxHeight === undefined ? visualLines.length : Math.max(1, maxHeight);
+  const isScrolling = visualLines.length > height;
+  const windowStart = isScrolling
+    ? getViewportStart(viewportStart.current, cursorVisualRow, visualLines.length, height, scrollOff)
+    : 0;
+  const windowEnd = Math.min(visualLines.length, windowStart + height);
+
+  useEffect(() => {
+    viewportStart.current = windowStart;
+    scrollX.current = clipped?.scrollX ?? 0;
+  });
+
+  const rows = visualLines.slice(windowStart, windowEnd).map((line, windowIndex) => {
+    const index = windowStart + windowIndex;
+    const isCursorRow = index === cursorVisualRow;
+    const rowStart = visualLineStarts[index];
+    const clip = clipped?.clips[index];
+    // A clipped row stands for its whole buffer line; its end is on screen
+    // unless the line runs past the right edge
+    const isLastRowOfLine = clip
+      ? !clip.after
+      : rowStart.column + line.length === displayBuffer.lines[rowStart.line].length;
+    const rowSelection = selectionRange
+      ? getRowSelection(rowStart, line.length, isLastRowOfLine, selectionRange)
+      : undefined;
+
+    // Ghost text starts at the cursor and fills the rows after it
+    const ghostFrom = !showSuggestion || index < cursorVisualRow
+      ? undefined
+      : isCursorRow ? cursorVisualCol : 0;
+
+    return (
+      <Box key={index}>
+        {clip?.before && <Text dimColor>{clip.before}</Text>}
+        {visualLineIndents[index] > 0 && <Text>{' '.repeat(visualLineIndents[index])}</Text>}
+        {renderRow(line, {
+          decorations: decorations ? getRowDecorations(decorations, rowStart, line.length) : [],
+          selection: rowSelection,
+          selectionColor,
+          ghostFrom,
+          cursorCol: isCursorRow && showCursor ? cursorVisualCol : undefined,
+        })}
+        {clip?.after && <Text dimColor>{clip.after}</Text>}
+      </Box>
+    );
+  });
+
+  const padding = Math.min(minHeight, maxHeight ?? minHeight) - rows.length;
+  for (let i = 0; i < padding; i++) {
+    rows.push(
+      <Box key={`pad-${i}`}>
+        <Text> </Text>
+      </Box>
+    );
+  }
+
+  if (isScrolling && scrollIndicator) {
+    rows.push(
+      <Box key="scroll">
+        <Text dimColor>{`rows ${windowStart + 1}–${windowEnd} of ${visualLines.length}`}</Text>
+      </Box>
+    );
+  }
+
+  // The menu is not counted in the viewport height
+  if (menu) {
+    rows.splice(
+      cursorVisualRow - windowStart + 1,
+      0,
+      <Box key="menu" marginLeft={menuColumn}>
+        {menu}
+      </Box>
+    );
+  }
+
+  return <Box flexDirection="column">{rows}</Box>;
 }
@@ -0,0 +1,188 @@
+import type { CompletionCandidate, CompletionProvider } from './Completion.js';
+
+/**
+ * An entry in a trigger picker.
+ */
+export interface PickerItem {
+  /** Text inserted after the trigger character */
+  value: string;
+  /** Text shown in the picker (defaults to `value`) */
+  label?: string;
+  /** Extra detail shown dimmed next to the label */
+  description?: string;
+}
+
+/**
+ * A character that opens a picker when typed, e.g. '/' for commands at the
+ * start of a line or '@' for mentions anywhere.
+ */
+export interface Trigger {
+  /** The trigger character */
+  char: string;
+  /**
+   * Only trigger at the start of a line (default: false, which triggers at
+   * the start of any word)
+   */
+  lineStart?: boolean;
+  /**
+   * Items to pick from, filtered by the text typed after the trigger, or a
+   * function returning the items for that query (synchronously or as a promise)
+   */
+  items: PickerItem[] | ((query: string) => PickerItem[] | Promise<PickerItem[]>);
+  /** Insert the picked token as a unit that Backspace deletes whole (default: false) */
+  atomic?: boolean;
+}
+
+/**
+ * A trigger in progress: the trigger character and what was typed after it.
+ */
+export interface TriggerMatch {
+  trigger: Trigger;
+  /** Offset of the trigger character */
+  start: number;
+  /** Text between the trigger character and the cursor */
+  query: string;
+}
+
+function isWordStart(text: string, offset: number): boolean {
+  return offset === 0 || /\s/.test(text[offset - 1]);
+}
+
+function isLineStart(text: string, offset: number): boolean {
+  return offset === 0 || text[offset - 1] === '\n';
+}
+
+/**
+ * Find the trigger whose picker should be open for the cursor position:
+ * the word before the cursor must start with a trigger character at an
+ * allowed position.
+ */
+export function findTriggerMatch(
+  text: string,
+  cursorOffset: number,
+  triggers: Trigger[]
+): TriggerMatch | undefined {
+  let start = cursorOffset;
+  while (start > 0 && !/\s/.test(text[start - 1])) {
+    start--;
+  }
+
+  for (const trigger of triggers) {
+    if (!text.startsWith(trigger.char, start)) continue;
+    if (trigger.lineStart ? !isLineStart(text, start) : !isWordStart(text, start)) continue;
+    return { trigger, start, query: text.slice(start + trigger.char.length, cursorOffset) };
+  }
+  return undefined;
+}
+
+/**
+ * Keep items whose value or label contains the query (ignoring case),
+ * with prefix matches first.
+ */
+export function filterPickerItems(items: PickerItem[], query: string): PickerItem[] {
+  const needle = query.toLowerCase();
+  const prefix: PickerItem[] = [];
+  const contains: PickerItem[] = [];
+  for (const item of items) {
+    const texts = [item.value, item.label ?? ''].map((text) => text.toLowerCase());
+    if (texts.some((text) => text.startsWith(needle))) {
+      prefix.push(item);
+    } else if (texts.some((text) => text.includes(needle))) {
+      contains.push(item);
+    }
+  }
+  return [...prefix, ...contains];
+}
+
+/**
+ * Completion provider for trigger pickers. Candidates replace the trigger
+ * and query with the trigger, the picked value and a space.
+ */
+export function createTriggerProvider(triggers: Trigger[]): CompletionProvider {
+  return (text, cursorOffset) => {
+    const match = findTriggerMatch(text, cursorOffset, triggers);
+    if (!match) return [];
+
+    const { trigger, start, query } = match;
+    const toCandidates = (items: PickerItem[]): CompletionCandidate[] =>
+      items.map((item) => ({
+        value: `${trigger.char}${item.value} `,
+        label: item.label ?? item.value,
+        description: item.description,
+        start,
+        end: cursorOffset,
+      }));
+
+    if (Array.isArray(trigger.items)) {
+      return toCandidates(filterPickerItems(trigger.items, query));
+    }
+    const items = trigger.items(query);
+    return Array.isArray(items) ? toCandidates(items) : items.then(toCandidates);
+  };
+}
+
+/**
+ * A token inserted by an atomic trigger, by position.
+ */
+export interface AtomicToken {
+  /** Offset of the token's first character */
+  start: number;
+  /** The token as inserted, e.g. '@src/index.ts' */
+  text: string;
+}
+
+/**
+ * Carry atomic tokens over a change of the text from `before` to `after`.
+ * The changed span is what lies between the common prefix and suffix of the
+ * two; tokens before it stay, tokens after it shift with it, and tokens it
+ * touches are dropped, as are any whose text no longer matches.
+ */
+export function updateAtomicTokens(tokens: AtomicToken[], before: string, after: string): AtomicToken[] {
+  if (before === after || tokens.length === 0) return tokens;
+
+  const limit = Math.min(before.length, after.length);
+  let prefix = 0;
+  while (prefix < limit && before[prefix] === after[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < limit - prefix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+    suffix++;
+  }
+  const changedEnd = before.length - suffix;
+  const shift = after.length - before.length;
+
+  const result: AtomicToken[] = [];
+  for (const token of tokens) {
+    const end = token.start + token.text.length;
+    const start = end <= prefix ? token.start : token.start >= changedEnd ? token.start + shift : undefined;
+    if (start !== undefined && after.startsWith(token.text, start)) {
+      result.push({ start, text: token.text });
+    }
+  }
+  return result;
+}
+
+function isWordEnd(text: string, offset: number): boolean {
+  return offset === text.length || /\s/.test(text[offset]);
+}
+
+/**
+ * If an atomic token ends at the cursor and stands as a whole word, return
+ * its start offset.
+ */
+export function findAtomicTokenBefore(
+  text: string,
+  cursorOffset: number,
+  tokens: AtomicToken[]
+): number | undefined {
+  if (!isWordEnd(text, cursorOffset)) return undefined;
+  let longest: number | undefined;
+  for (const { start, text: token } of tokens) {
+    if (start + token.length !== cursorOffset || !text.startsWith(token, start)) continue;
+    if (isWordStart(text, start) && (longest === undefined || start < longest)) {
+      longest = start;
+    }
+  }
+  return longest;
+}
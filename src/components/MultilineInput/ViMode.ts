@@ -0,0 +1,763 @@
+import type { Buffer, Cursor, Selection, WordCharPredicate } from './types.js';
+import {
+  insertText,
+  insertNewLine,
+  deleteChar,
+  deleteRange,
+  getTextInRange,
+  compareCursors,
+  moveCursor,
+  getBufferGraphemes,
+  getOffset,
+  getCursor,
+  isDefaultWordChar,
+} from './TextBuffer.js';
+import { nextGraphemeBoundary, previousGraphemeBoundary } from '../../utils/graphemes.js';
+
+/**
+ * Vi editing modes.
+ * - 'insert': keys type text as usual
+ * - 'normal': keys are motions and commands
+ * - 'visual': motions extend a character selection that operators act on
+ */
+export type ViMode = 'normal' | 'insert' | 'visual';
+
+/**
+ * A key press as seen by the vi handler: its chord (see `Keymap`) and the
+ * input text that came with it.
+ */
+export interface ViKeyPress {
+  chord: string | undefined;
+  input: string;
+}
+
+/**
+ * Text stored by the last delete, change or yank.
+ */
+export interface ViRegister {
+  text: string;
+  /** Whether the text is whole lines (dd, yy) rather than characters */
+  linewise: boolean;
+}
+
+/**
+ * State of the vi editor between key presses.
+ */
+export interface ViState {
+  mode: ViMode;
+  /** Keys of an unfinished normal mode command, e.g. ['2', 'd'] */
+  pending: string[];
+  /** Unnamed register used by d, c, y and p */
+  register: ViRegister;
+  /** Where the visual selection started (visual mode only) */
+  visualAnchor: Cursor | null;
+  /** Keys of the last change, replayed by '.' */
+  lastChange: ViKeyPress[];
+  /** Keys of the change in progress while in insert mode */
+  recording: ViKeyPress[] | null;
+}
+
+/**
+ * Result of handling a key in vi mode.
+ */
+export interface ViKeyResult {
+  state: ViState;
+  buffer: Buffer;
+  cursor: Cursor;
+  /** History action the caller should run after applying the result */
+  action?: 'undo' | 'redo';
+}
+
+export interface ViOptions {
+  /** Which characters count as part of a word for w, b and e */
+  isWordChar?: WordCharPredicate;
+}
+
+/**
+ * Create the initial vi state. Vi mode starts in insert mode, like a shell
+ * with `set -o vi`.
+ */
+export function createViState(mode: ViMode = 'insert'): ViState {
+  return {
+    mode,
+    pending: [],
+    register: { text: '', linewise: false },
+    visualAnchor: null,
+    lastChange: [],
+    recording: null,
+  };
+}
+
+type Operator = 'd' | 'c' | 'y';
+
+type Motion = 'h' | 'l' | 'j' | 'k' | 'w' | 'b' | 'e' | '0' | '^' | '$' | 'gg' | 'G';
+
+/**
+ * Where a motion lands and how an operator treats the covered text.
+ */
+interface MotionTarget {
+  cursor: Cursor;
+  /** Operators act on whole lines */
+  linewise: boolean;
+  /** The character under the target is included */
+  inclusive: boolean;
+}
+
+type ParsedCommand =
+  | { type: 'motion'; motion: Motion; count: number; hasCount: boolean }
+  | { type: 'operator'; operator: Operator; motion: Motion; count: number; hasCount: boolean }
+  | { type: 'line'; operator: Operator; count: number }
+  | { type: 'command'; name: string; count: number };
+
+/**
+ * Keys that name a named-key chord but act as vi keys.
+ */
+const KEY_ALIASES: Record<string, string> = {
+  left: 'h',
+  right: 'l',
+  backspace: 'h',
+  space: 'l',
+  home: '0',
+  end: '$',
+  delete: 'x',
+};
+
+const MOTION_KEYS = new Set(['h', 'l', 'j', 'k', 'w', 'b', 'e', '0', '^', '$', 'G']);
+const OPERATOR_KEYS = new Set(['d', 'c', 'y']);
+const NORMAL_COMMANDS = new Set([
+  'i', 'a', 'I', 'A', 'o', 'O', 'x', 'X', 's', 'S', 'D', 'C', 'p', 'P', 'v', 'u', 'ctrl+r', '.',
+]);
+const VISUAL_COMMANDS = new Set(['d', 'x', 'c', 's', 'y', 'o', 'v']);
+
+/**
+ * Commands that change text and can be repeated with '.'.
+ */
+const CHANGE_COMMANDS = new Set(['i', 'a', 'I', 'A', 'o', 'O', 'x', 'X', 's', 'S', 'D', 'C', 'p', 'P']);
+
+/**
+ * Parse the keys of a normal or visual mode command.
+ * Returns 'incomplete' while more keys are needed and 'invalid' for
+ * sequences that can never form a command.
+ */
+function parseCommand(keys: string[], visual: boolean): ParsedCommand | 'incomplete' | 'invalid' {
+  let index = 0;
+
+  const readCount = (): number | undefined => {
+    let digits = '';
+    while (index < keys.length && /^[0-9]$/.test(keys[index]) && !(digits === '' && keys[index] === '0')) {
+      digits += keys[index];
+      index++;
+    }
+    return digits ? parseInt(digits, 10) : undefined;
+  };
+
+  const readMotion = (): Motion | 'incomplete' | 'invalid' => {
+    const key = keys[index];
+    if (key === undefined) return 'incomplete';
+    if (key === 'g') {
+      if (keys[index + 1] === undefined) return 'incomplete';
+      return keys[index + 1] === 'g' && index + 2 === keys.length ? 'gg' : 'invalid';
+    }
+    if (MOTION_KEYS.has(key) && index + 1 === keys.length) return key as Motion;
+    return 'invalid';
+  };
+
+  const count1 = readCount();
+  const first = keys[index];
+  if (first === undefined) return 'incomplete';
+
+  if (!visual && OPERATOR_KEYS.has(first)) {
+    index++;
+    const count2 = readCount();
+    const count = (count1 ?? 1) * (count2 ?? 1);
+    const hasCount = count1 !== undefined || count2 !== undefined;
+    if (keys[index] === first && index + 1 === keys.length) {
+      return { type: 'line', operator: first as Operator, count };
+    }
+    const motion = readMotion();
+    if (motion === 'incomplete' || motion === 'invalid') return motion;
+    return { type: 'operator', operator: first as Operator, motion, count, hasCount };
+  }
+
+  const motion = readMotion();
+  if (motion === 'incomplete') return 'incomplete';
+  if (motion !== 'invalid') {
+    return { type: 'motion', motion, count: count1 ?? 1, hasCount: count1 !== undefined };
+  }
+
+  const commands = visual ? VISUAL_COMMANDS : NORMAL_COMMANDS;
+  if (commands.has(first) && index + 1 === keys.length) {
+    return { type: 'command', name: first, count: count1 ?? 1 };
+  }
+  return 'invalid';
+}
+
+type CharClass = 'word' | 'punct' | 'space' | 'newline';
+
+function getCharClass(grapheme: string, isWordChar: WordCharPredicate): CharClass {
+  if (grapheme === '\n') return 'newline';
+  if (/^\s+$/.test(grapheme)) return 'space';
+  return isWordChar(grapheme) ? 'word' : 'punct';
+}
+
+/**
+ * Index of the grapheme starting at the cursor (graphemes.length at the end).
+ */
+function graphemeIndexAt(offsets: number[], offset: number): number {
+  const index = offsets.findIndex((o) => o >= offset);
+  return index === -1 ? offsets.length - 1 : index;
+}
+
+/**
+ * Start of the next word (vi `w`). Empty lines count as words.
+ */
+function nextWordStart(buffer: Buffer, cursor: Cursor, isWordChar: WordCharPredicate): Cursor {
+  const { graphemes, offsets } = getBufferGraphemes(buffer);
+  const classOf = (i: number) => getCharClass(graphemes[i], isWordChar);
+  let index = graphemeIndexAt(offsets, getOffset(buffer, cursor));
+  if (index >= graphemes.length) return cursor;
+
+  const startClass = classOf(index);
+  if (startClass === 'word' || startClass === 'punct') {
+    while (index < graphemes.length && classOf(index) === startClass) index++;
+  }
+  while (index < graphemes.length) {
+    const charClass = classOf(index);
+    if (charClass === 'newline') {
+      index++;
+      // Stop on an empty line
+      if (index >= graphemes.length || classOf(index) === 'newline') break;
+      continue;
+    }
+    if (charClass !== 'space') break;
+    index++;
+  }
+  return getCursor(buffer, offsets[index]);
+}
+
+/**
+ * Start of the current or previous word (vi `b`).
+ */
+function previousWordStart(buffer: Buffer, cursor: Cursor, isWordChar: WordCharPredicate): Cursor {
+  const { graphemes, offsets } = getBufferGraphemes(buffer);
+  const classOf = (i: number) => getCharClass(graphemes[i], isWordChar);
+  let index = graphemeIndexAt(offsets, getOffset(buffer, cursor)) - 1;
+
+  while (index > 0) {
+    const charClass = classOf(index);
+    // Stop on an empty line
+    if (charClass === 'newline' && classOf(index - 1) === 'newline') break;
+    if (charClass !== 'space' && charClass !== 'newline') break;
+    index--;
+  }
+  if (index <= 0) return getCursor(buffer, 0);
+
+  const charClass = classOf(index);
+  if (charClass === 'newline') {
+    return getCursor(buffer, offsets[index]);
+  }
+  while (index > 0 && classOf(index - 1) === charClass) index--;
+  return getCursor(buffer, offsets[index]);
+}
+
+/**
+ * Last character of the current or next word (vi `e`).
+ */
+function wordEnd(buffer: Buffer, cursor: Cursor, isWordChar: WordCharPredicate): Cursor {
+  const { graphemes, offsets } = getBufferGraphemes(buffer);
+  const classOf = (i: number) => getCharClass(graphemes[i], isWordChar);
+  let index = graphemeIndexAt(offsets, getOffset(buffer, cursor)) + 1;
+
+  while (index < graphemes.length && (classOf(index) === 'space' || classOf(index) === 'newline')) index++;
+  if (index >= graphemes.length) return cursor;
+
+  const charClass = classOf(index);
+  while (index + 1 < graphemes.length && classOf(index + 1) === charClass) index++;
+  return getCursor(buffer, offsets[index]);
+}
+
+function firstNonBlank(line: string): number {
+  const match = /^\s*/.exec(line);
+  const column = match ? match[0].length : 0;
+  return column < line.length ? column : 0;
+}
+
+/**
+ * Keep the cursor on a character in normal mode (never past the last one).
+ */
+function clampNormalCursor(buffer: Buffer, cursor: Cursor): Cursor {
+  const line = buffer.lines[cursor.line];
+  if (line.length === 0 || cursor.column < line.length) return cursor;
+  return { line: cursor.line, column: previousGraphemeBoundary(line, line.length) };
+}
+
+function moveColumn(line: string, column: number, count: number): number {
+  let result = column;
+  for (let i = 0; i < Math.abs(count); i++) {
+    result = count > 0 ? nextGraphemeBoundary(line, result) : previousGraphemeBoundary(line, result);
+  }
+  return result;
+}
+
+function applyMotion(
+  motion: Motion,
+  count: number,
+  hasCount: boolean,
+  buffer: Buffer,
+  cursor: Cursor,
+  isWordChar: WordCharPredicate
+): MotionTarget {
+  const line = buffer.lines[cursor.line];
+  const lastLine = buffer.lines.length - 1;
+  const charwise = (target: Cursor, inclusive = false): MotionTarget => ({ cursor: target, linewise: false, inclusive });
+  const linewise = (target: Cursor): MotionTarget => ({ cursor: target, linewise: true, inclusive: false });
+  const repeat = (step: (from: Cursor) => Cursor): Cursor => {
+    let target = cursor;
+    for (let i = 0; i < count; i++) target = step(target);
+    return target;
+  };
+
+  switch (motion) {
+    case 'h':
+      return charwise({ line: cursor.line, column: moveColumn(line, cursor.column, -count) });
+    case 'l':
+      return charwise({ line: cursor.line, column: moveColumn(line, cursor.column, count) });
+    case 'j':
+      return linewise(repeat((from) => moveCursor(buffer, from, 'down')));
+    case 'k':
+      return linewise(repeat((from) => moveCursor(buffer, from, 'up')));
+    case 'w':
+      return charwise(repeat((from) => nextWordStart(buffer, from, isWordChar)));
+    case 'b':
+      return charwise(repeat((from) => previousWordStart(buffer, from, isWordChar)));
+    case 'e':
+      return charwise(repeat((from) => wordEnd(buffer, from, isWordChar)), true);
+    case '0':
+      return charwise({ line: cursor.line, column: 0 });
+    case '^':
+      return charwise({ line: cursor.line, column: firstNonBlank(line) });
+    case '$': {
+      const targetLine = Math.min(lastLine, cursor.line + count - 1);
+      return charwise({ line: targetLine, column: buffer.lines[targetLine].length });
+    }
+    case 'gg':
+    case 'G': {
+      const defaultLine = motion === 'gg' ? 0 : lastLine;
+      const targetLine = hasCount ? Math.min(lastLine, Math.max(0, count - 1)) : defaultLine;
+      return linewise({ line: targetLine, column: firstNonBlank(buffer.lines[targetLine]) });
+    }
+  }
+}
+
+/**
+ * Grapheme boundary after the character at the cursor, moving onto the next
+ * line when the cursor is at the end of a line.
+ */
+function afterCursorChar(buffer: Buffer, cursor: Cursor): Cursor {
+  const line = buffer.lines[cursor.line];
+  if (cursor.column < line.length) {
+    return { line: cursor.line, column: nextGraphemeBoundary(line, cursor.column) };
+  }
+  if (cursor.line < buffer.lines.length - 1) {
+    return { line: cursor.line + 1, column: 0 };
+  }
+  return cursor;
+}
+
+interface EditState {
+  buffer: Buffer;
+  cursor: Cursor;
+  state: ViState;
+}
+
+/**
+ * Delete, change or yank the characters between two positions.
+ */
+function operateOnRange(edit: EditState, operator: Operator, start: Cursor, end: Cursor): EditState {
+  const register: ViRegister = { text: getTextInRange(edit.buffer, start, end), linewise: false };
+  const state = { ...edit.state, register };
+
+  if (operator === 'y') {
+    return { ...edit, state, cursor: clampNormalCursor(edit.buffer, start) };
+  }
+
+  const result = deleteRange(edit.buffer, start, end);
+  if (operator === 'c') {
+    return { buffer: result.buffer, cursor: result.cursor, state: { ...state, mode: 'insert' } };
+  }
+  return { buffer: result.buffer, cursor: clampNormalCursor(result.buffer, result.cursor), state };
+}
+
+/**
+ * Delete, change or yank whole lines.
+ */
+function operateOnLines(edit: EditState, operator: Operator, from: number, to: number): EditState {
+  const lines = edit.buffer.lines;
+  const register: ViRegister = { text: lines.slice(from, to + 1).join('\n'), linewise: true };
+  const state = { ...edit.state, register };
+
+  if (operator === 'y') {
+    const column = Math.min(edit.cursor.column, lines[from].length);
+    return { ...edit, state, cursor: clampNormalCursor(edit.buffer, { line: from, column }) };
+  }
+
+  if (operator === 'c') {
+    const buffer = { lines: [...lines.slice(0, from), '', ...lines.slice(to + 1)] };
+    return { buffer, cursor: { line: from, column: 0 }, state: { ...state, mode: 'insert' } };
+  }
+
+  const remaining = [...lines.slice(0, from), ...lines.slice(to + 1)];
+  const buffer = { lines: remaining.length > 0 ? remaining : [''] };
+  const line = Math.min(from, buffer.lines.length - 1);
+  return { buffer, cursor: { line, column: firstNonBlank(buffer.lines[line]) }, state };
+}
+
+function applyOperator(
+  edit: EditState,
+  operator: Operator,
+  motion: Motion,
+  count: number,
+  hasCount: boolean,
+  isWordChar: WordCharPredicate
+): EditState {
+  const { buffer, cursor } = edit;
+
+  // cw on a word changes to the end of the word, like ce
+  let effectiveMotion = motion;
+  if (operator === 'c' && motion === 'w') {
+    const line = buffer.lines[cursor.line];
+    if (cursor.column < line.length && !/\s/.test(line[cursor.column])) {
+      effectiveMotion = 'e';
+      // e from the last character of a word would jump to the next word
+      const next = nextGraphemeBoundary(line, cursor.column);
+      if (
+        next >= line.length ||
+        getCharClass(line.slice(next, nextGraphemeBoundary(line, next)), isWordChar) !==
+          getCharClass(line.slice(cursor.column, next), isWordChar)
+      ) {
+        count -= 1;
+        if (count === 0) {
+          return operateOnRange(edit, operator, cursor, { line: cursor.line, column: next });
+        }
+      }
+    }
+  }
+
+  const target = applyMotion(effectiveMotion, count, hasCount, buffer, cursor, isWordChar);
+
+  if (target.linewise) {
+    if ((motion === 'j' || motion === 'k') && target.cursor.line === cursor.line) {
+      return edit;
+    }
+    const from = Math.min(cursor.line, target.cursor.line);
+    const to = Math.max(cursor.line, target.cursor.line);
+    return operateOnLines(edit, operator, from, to);
+  }
+
+  const before = compareCursors(target.cursor, cursor) < 0;
+  const start = before ? target.cursor : cursor;
+  let end = before ? cursor : target.cursor;
+
+  if (target.inclusive) {
+    end = afterCursorChar(buffer, end);
+  } else if (end.line > start.line && end.column === 0) {
+    // An exclusive motion ending at the start of a later line stops at the
+    // end of the previous line (so dw on the last word keeps the line break)
+    end = { line: end.line - 1, column: buffer.lines[end.line - 1].length };
+  }
+
+  if (compareCursors(start, end) === 0) {
+    return edit;
+  }
+  return operateOnRange(edit, operator, start, end);
+}
+
+function put(edit: EditState, before: boolean, count: number): EditState {
+  const { buffer, cursor, state } = edit;
+  const { register } = state;
+  if (!register.text) return edit;
+
+  if (register.linewise) {
+    const newLines = Array.from({ length: count }, () => register.text.split('\n')).flat();
+    const insertAt = before ? cursor.line : cursor.line + 1;
+    const lines = [...buffer.lines.slice(0, insertAt), ...newLines, ...buffer.lines.slice(insertAt)];
+    return { ...edit, buffer: { lines }, cursor: { line: insertAt, column: firstNonBlank(lines[insertAt]) } };
+  }
+
+  const line = buffer.lines[cursor.line];
+  const column = before || line.length === 0 ? cursor.column : nextGraphemeBoundary(line, cursor.column);
+  const result = insertText(buffer, { line: cursor.line, column }, register.text.repeat(count));
+  const resultLine = result.buffer.lines[result.cursor.line];
+  const end = { line: result.cursor.line, column: previousGraphemeBoundary(resultLine, result.cursor.column) };
+  return { ...edit, buffer: result.buffer, cursor: end };
+}
+
+function enterInsert(edit: EditState, cursor: Cursor, buffer: Buffer = edit.buffer): EditState {
+  return { buffer, cursor, state: { ...edit.state, mode: 'insert' } };
+}
+
+function runNormalCommand(edit: EditState, name: string, count: number, isWordChar: WordCharPredicate): EditState {
+  const { buffer, cursor } = edit;
+  const line = buffer.lines[cursor.line];
+
+  switch (name) {
+    case 'i':
+      return enterInsert(edit, cursor);
+    case 'a':
+      return enterInsert(edit, { line: cursor.line, column: nextGraphemeBoundary(line, cursor.column) });
+    case 'I':
+      return enterInsert(edit, { line: cursor.line, column: firstNonBlank(line) });
+    case 'A':
+      return enterInsert(edit, { line: cursor.line, column: line.length });
+    case 'o': {
+      const result = insertNewLine(buffer, { line: cursor.line, column: line.length });
+      return enterInsert(edit, result.cursor, result.buffer);
+    }
+    case 'O': {
+      const result = insertNewLine(buffer, { line: cursor.line, column: 0 });
+      return enterInsert(edit, { line: cursor.line, column: 0 }, result.buffer);
+    }
+    case 'x':
+    case 's': {
+      const end = { line: cursor.line, column: moveColumn(line, cursor.column, count) };
+      if (end.column === cursor.column) {
+        return name === 's' ? enterInsert(edit, cursor) : edit;
+      }
+      return operateOnRange(edit, name === 's' ? 'c' : 'd', cursor, end);
+    }
+    case 'X': {
+      const start = { line: cursor.line, column: moveColumn(line, cursor.column, -count) };
+      if (start.column === cursor.column) return edit;
+      return operateOnRange(edit, 'd', start, cursor);
+    }
+    case 'S':
+      return operateOnLines(edit, 'c', cursor.line, Math.min(buffer.lines.length - 1, cursor.line + count - 1));
+    case 'D':
+      return applyOperator(edit, 'd', '$', count, count > 1, isWordChar);
+    case 'C':
+      return applyOperator(edit, 'c', '$', count, count > 1, isWordChar);
+    case 'p':
+    case 'P':
+      return put(edit, name === 'P', count);
+    case 'v':
+      return { ...edit, state: { ...edit.state, mode: 'visual', visualAnchor: cursor } };
+    default:
+      return edit;
+  }
+}
+
+/**
+ * Range covered by the visual selection, including the character under
+ * the later end.
+ */
+function getVisualRange(buffer: Buffer, anchor: Cursor, cursor: Cursor): { start: Cursor; end: Cursor } {
+  const before = compareCursors(anchor, cursor) <= 0;
+  const start = before ? anchor : cursor;
+  const last = before ? cursor : anchor;
+  return { start, end: afterCursorChar(buffer, last) };
+}
+
+function runVisualCommand(edit: EditState, name: string): EditState {
+  const anchor = edit.state.visualAnchor ?? edit.cursor;
+  const toNormal = (result: EditState): EditState => ({
+    ...result,
+    state: { ...result.state, mode: result.state.mode === 'insert' ? 'insert' : 'normal', visualAnchor: null },
+  });
+
+  switch (name) {
+    case 'v':
+      return toNormal(edit);
+    case 'o':
+      return { ...edit, cursor: anchor, state: { ...edit.state, visualAnchor: edit.cursor } };
+    default: {
+      const { start, end } = getVisualRange(edit.buffer, anchor, edit.cursor);
+      const operator: Operator = name === 'y' ? 'y' : name === 'c' || name === 's' ? 'c' : 'd';
+      return toNormal(operateOnRange(edit, operator, start, end));
+    }
+  }
+}
+
+/**
+ * Insert mode keys that `handleViKey` edits with itself, so '.' can replay
+ * them: typed text, Backspace and Ctrl+J.
+ */
+function isInsertEditKey({ chord, input }: ViKeyPress): boolean {
+  if (chord === 'backspace' || chord === 'ctrl+j') return true;
+  return !!input && (chord === undefined || chord === 'space' || [...chord].length === 1);
+}
+
+/**
+ * Note an insert mode key that the caller handles through the keymap, so
+ * '.' repeats the text it typed. Returns the state unchanged for keys that
+ * cannot be replayed (e.g. completion, word deletion).
+ */
+export function recordInsertKey(state: ViState, press: ViKeyPress): ViState {
+  if (state.mode !== 'insert' || !state.recording || !isInsertEditKey(press)) {
+    return state;
+  }
+  return { ...state, recording: [...state.recording, press] };
+}
+
+/**
+ * Insert mode as a plain editor: used when '.' replays a change and by
+ * callers without a keymap of their own. `handleKey` only sends Escape here
+ * and runs other keys through the keymap.
+ */
+function handleInsertKey(
+  state: ViState,
+  press: ViKeyPress,
+  buffer: Buffer,
+  cursor: Cursor
+): ViKeyResult | undefined {
+  const { chord, input } = press;
+  const record = (next: ViState): ViState => recordInsertKey(next, press);
+
+  if (chord === 'escape') {
+    const lastChange = state.recording ? [...state.recording, press] : state.lastChange;
+    const line = buffer.lines[cursor.line];
+    const column = cursor.column > 0 ? previousGraphemeBoundary(line, cursor.column) : 0;
+    return {
+      state: { ...state, mode: 'normal', pending: [], recording: null, lastChange },
+      buffer,
+      cursor: { line: cursor.line, column },
+    };
+  }
+
+  if (chord === 'backspace') {
+    const result = deleteChar(buffer, cursor);
+    return { state: record(state), ...result };
+  }
+
+  if (chord === 'ctrl+j') {
+    const result = insertNewLine(buffer, cursor);
+    return { state: record(state), ...result };
+  }
+
+  if (input && (isInsertEditKey(press) || chord === 'tab')) {
+    const text = input.replace(/\r\n/g, '\n').replace(/\r/g, '\n');
+    const result = insertText(buffer, cursor, text);
+    return { state: record(state), ...result };
+  }
+
+  // Everything else (arrows, Enter, Ctrl shortcuts) goes through the keymap
+  return undefined;
+}
+
+function handleCommandKey(
+  state: ViState,
+  press: ViKeyPress,
+  buffer: Buffer,
+  cursor: Cursor,
+  isWordChar: WordCharPredicate
+): ViKeyResult | undefined {
+  const visual = state.mode === 'visual';
+  const chord = press.chord === undefined ? undefined : KEY_ALIASES[press.chord] ?? press.chord;
+
+  if (chord === 'escape') {
+    return { state: { ...state, mode: 'normal', pending: [], visualAnchor: null }, buffer, cursor };
+  }
+
+  // Keys vi doesn't know (up/down, Enter, Ctrl shortcuts) go through the
+  // keymap unless they interrupt a pending command
+  if (chord === undefined || ([...chord].length > 1 && chord !== 'ctrl+r')) {
+    if (state.pending.length > 0 || chord === undefined) {
+      return { state: { ...state, pending: [] }, buffer, cursor };
+    }
+    return undefined;
+  }
+
+  const keys = [...state.pending, chord];
+  const parsed = parseCommand(keys, visual);
+  if (parsed === 'incomplete') {
+    return { state: { ...state, pending: keys }, buffer, cursor };
+  }
+
+  const edit: EditState = { buffer, cursor, state: { ...state, pending: [] } };
+  if (parsed === 'invalid') {
+    return edit;
+  }
+
+  if (parsed.type === 'command' && parsed.name === 'u') {
+    return { ...edit, action: 'undo' };
+  }
+  if (parsed.type === 'command' && parsed.name === 'ctrl+r') {
+    return { ...edit, action: 'redo' };
+  }
+  if (parsed.type === 'command' && parsed.name === '.') {
+    return repeatLastChange(edit, isWordChar);
+  }
+
+  let result: EditState;
+  if (parsed.type === 'motion') {
+    const target = applyMotion(parsed.motion, parsed.count, parsed.hasCount, buffer, cursor, isWordChar);
+    result = { ...edit, cursor: clampNormalCursor(buffer, target.cursor) };
+  } else if (parsed.type === 'operator') {
+    result = applyOperator(edit, parsed.operator, parsed.motion, parsed.count, parsed.hasCount, isWordChar);
+  } else if (parsed.type === 'line') {
+    const to = Math.min(buffer.lines.length - 1, cursor.line + parsed.count - 1);
+    result = operateOnLines(edit, parsed.operator, cursor.line, to);
+  } else if (visual) {
+    result = runVisualCommand(edit, parsed.name);
+  } else {
+    result = runNormalCommand(edit, parsed.name, parsed.count, isWordChar);
+  }
+
+  // Remember changes so '.' can repeat them
+  const isChange =
+    !visual &&
+    (((parsed.type === 'operator' || parsed.type === 'line') && parsed.operator !== 'y') ||
+      (parsed.type === 'command' && CHANGE_COMMANDS.has(parsed.name)));
+  if (isChange) {
+    const pressed = keys.map((key): ViKeyPress => ({ chord: key, input: key }));
+    if (result.state.mode === 'insert') {
+      result = { ...result, state: { ...result.state, recording: pressed } };
+    } else {
+      result = { ...result, state: { ...result.state, lastChange: pressed } };
+    }
+  }
+
+  return result;
+}
+
+function repeatLastChange(edit: EditState, isWordChar: WordCharPredicate): ViKeyResult {
+  const { lastChange } = edit.state;
+  let result: ViKeyResult = edit;
+  for (const press of lastChange) {
+    result = handleViKey(result.state, press, result.buffer, result.cursor, { isWordChar }) ?? result;
+  }
+  return {
+    ...result,
+    state: { ...result.state, mode: 'normal', pending: [], recording: null, lastChange },
+  };
+}
+
+/**
+ * Handle a key press in vi mode.
+ *
+ * Returns the new state, buffer and cursor, or undefined when the key is
+ * not a vi key and should go through the regular keymap instead (e.g.
+ * arrows and Enter in insert mode, Up/Down and Enter in normal mode).
+ */
+export function handleViKey(
+  state: ViState,
+  press: ViKeyPress,
+  buffer: Buffer,
+  cursor: Cursor,
+  options: ViOptions = {}
+): ViKeyResult | undefined {
+  const isWordChar = options.isWordChar ?? isDefaultWordChar;
+  if (state.mode === 'insert') {
+    return handleInsertKey(state, press, buffer, cursor);
+  }
+  return handleCommandKey(state, press, buffer, cursor, isWordChar);
+}
+
+/**
+ * Selection to highlight for the visual mode range, or null outside
+ * visual mode.
+ */
+export function getViSelection(state: ViState, buffer: Buffer, cursor: Cursor): Selection | null {
+  if (state.mode !== 'visual' || !state.visualAnchor) return null;
+  const { start, end } = getVisualRange(buffer, state.visualAnchor, cursor);
+  return { anchor: start, head: end };
+}
@@ -0,0 +1,115 @@
+import type { VisualRowInfo, WrapMode, WrapStrategy } from './types.js';
+import { splitGraphemes, getGraphemeWidth, getStringWidth } from '../../utils/graphemes.js';
+
+/**
+ * Break a line into rows of at most `firstWidth` cells for the first row and
+ * `restWidth` for the others. With `atSpaces`, rows end after the last space
+ * that fits so words stay intact; words longer than a row are hard-wrapped.
+ * Every row holds at least one grapheme cluster, so a wide character in a
+ * one-cell-wide terminal still makes progress. Continuation rows get
+ * `indent`, and the first `prefixLength` code units (the indent's source)
+ * are never broken after.
+ */
+function breakRows(
+  line: string,
+  firstWidth: number,
+  restWidth: number,
+  atSpaces: boolean,
+  indent = 0,
+  prefixLength = 0
+): VisualRowInfo[] {
+  if (line.length === 0) {
+    return [{ start: 0, length: 0 }];
+  }
+
+  const rows: VisualRowInfo[] = [];
+  const graphemes = splitGraphemes(line);
+  let index = 0;
+  let offset = 0;
+
+  while (index < graphemes.length) {
+    const isFirst = rows.length === 0;
+    const rowLimit = Math.max(1, isFirst ? firstWidth : restWidth);
+    let end = index;
+    let rowWidth = 0;
+    let rowLength = 0;
+    let splitEnd = -1;
+    let splitLength = 0;
+
+    while (end < graphemes.length) {
+      const graphemeWidth = getGraphemeWidth(graphemes[end]);
+      if (end > index && rowWidth + graphemeWidth > rowLimit) {
+        break;
+      }
+      rowWidth += graphemeWidth;
+      rowLength += graphemes[end].length;
+      end++;
+      if (atSpaces && graphemes[end - 1] === ' ' && offset + rowLength > prefixLength) {
+        // Remember the last space so the row can break after it
+        splitEnd = end;
+        splitLength = rowLength;
+      }
+    }
+
+    if (end < graphemes.length && splitEnd !== -1) {
+      // Include the space in the row
+      end = splitEnd;
+      rowLength = splitLength;
+    }
+
+    const row: VisualRowInfo = { start: offset, length: rowLength };
+    if (!isFirst && indent > 0) {
+      row.indent = indent;
+    }
+    rows.push(row);
+    index = end;
+    offset += rowLength;
+  }
+
+  return rows;
+}
+
+/**
+ * Wrap at spaces, keeping words intact where possible (the default).
+ */
+export const wordWrap: WrapStrategy = (line, width) => breakRows(line, width, width, true);
+
+/**
+ * Wrap at the width regardless of words.
+ */
+export const characterWrap: WrapStrategy = (line, width) => breakRows(line, width, width, false);
+
+// Leading whitespace plus an optional list bullet ("-", "*", "+", "1." or "1)")
+const HANGING_INDENT_PATTERN = /^[ \t]*(?:(?:[-*+]|\d{1,9}[.)])[ \t]+)?/;
+
+/**
+ * Wrap at spaces and indent continuation rows to line up with the text
+ * after the line's leading whitespace and list bullet. The indent is
+ * dropped when it would leave less than half the width for text.
+ */
+export const hangingIndentWrap: WrapStrategy = (line, width) => {
+  const prefix = HANGING_INDENT_PATTERN.exec(line)?.[0] ?? '';
+  const indent = getStringWidth(prefix);
+  if (indent === 0 || indent > width / 2) {
+    return wordWrap(line, width);
+  }
+  return breakRows(line, width, width - indent, true, indent, prefix.length);
+};
+
+/**
+ * The strategy for a wrap mode, or the given strategy itself. 'none' has
+ * no strategy since lines are not wrapped.
+ */
+export function resolveWrapStrategy(wrap: WrapMode | WrapStrategy): WrapStrategy | undefined {
+  if (typeof wrap === 'function') return wrap;
+  switch (wrap) {
+    case 'character':
+      return characterWrap;
+    case 'hanging':
+      return hangingIndentWrap;
+    case 'none':
+      return undefined;
+    default:
+      return wordWrap;
+  }
+}
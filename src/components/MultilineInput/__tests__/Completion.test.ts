@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { applyCompletion, getCompletionKeyAction } from '../Completion.js';
+
+describe('Completion', () => {
+  describe('applyCompletion', () => {
+    it('replaces the candidate range and moves the cursor after it', () => {
+      expect(applyCompletion('/he world', { value: '/help', start: 0, end: 3 })).toEqual({
+        text: '/help world',
+        cursorOffset: 5,
+      });
+    });
+
+    it('inserts at an empty range', () => {
+      expect(applyCompletion('ab', { value: 'X', start: 1, end: 1 })).toEqual({ text: 'aXb', cursorOffset: 2 });
+    });
+
+    it('clamps ranges outside the text', () => {
+      expect(applyCompletion('ab', { value: 'cd', start: 5, end: 9 })).toEqual({ text: 'abcd', cursorOffset: 4 });
+    });
+  });
+
+  describe('getCompletionKeyAction', () => {
+    it('cycles with Tab / Shift+Tab and the arrows', () => {
+      expect(getCompletionKeyAction('tab')).toBe('next');
+      expect(getCompletionKeyAction('down')).toBe('next');
+      expect(getCompletionKeyAction('shift+tab')).toBe('previous');
+      expect(getCompletionKeyAction('up')).toBe('previous');
+    });
+
+    it('accepts with Enter and dismisses with Esc', () => {
+      expect(getCompletionKeyAction('return')).toBe('accept');
+      expect(getCompletionKeyAction('escape')).toBe('dismiss');
+    });
+
+    it('leaves other keys to the editor', () => {
+      expect(getCompletionKeyAction('a')).toBeUndefined();
+      expect(getCompletionKeyAction('backspace')).toBeUndefined();
+      expect(getCompletionKeyAction(undefined)).toBeUndefined();
+    });
+  });
+});
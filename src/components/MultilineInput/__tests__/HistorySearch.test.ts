@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  type HistorySearchState,
+  type HistorySearchResult,
+  createHistorySearch,
+  matchHistoryEntry,
+  findHistoryMatch,
+  handleHistorySearchKey,
+  extendHistorySearch,
+  formatHistorySearchPrompt,
+} from '../HistorySearch.js';
+
+const entries = ['git status', 'npm test', 'git commit -m "fix"', 'ls', 'git status'];
+
+function expectUpdate(result: HistorySearchResult): HistorySearchState {
+  expect(result.type).toBe('update');
+  return (result as { state: HistorySearchState }).state;
+}
+
+function type(text: string, state = createHistorySearch()): HistorySearchState {
+  for (const char of text) {
+    state = expectUpdate(handleHistorySearchKey(state, char === ' ' ? 'space' : char, char, entries));
+  }
+  return state;
+}
+
+describe('HistorySearch', () => {
+  describe('matchHistoryEntry', () => {
+    it('finds substrings', () => {
+      expect(matchHistoryEntry('git commit', 'com', 'substring')).toBe(4);
+      expect(matchHistoryEntry('git commit', 'xyz', 'substring')).toBeUndefined();
+    });
+
+    it('is case-sensitive for substrings', () => {
+      expect(matchHistoryEntry('Git', 'git', 'substring')).toBeUndefined();
+    });
+
+    it('matches characters in order for fuzzy search', () => {
+      expect(matchHistoryEntry('git commit -m', 'gcm', 'fuzzy')).toBe(0);
+      expect(matchHistoryEntry('npm run build', 'RB', 'fuzzy')).toBe(4);
+      expect(matchHistoryEntry('abc', 'cb', 'fuzzy')).toBeUndefined();
+    });
+  });
+
+  describe('findHistoryMatch', () => {
+    it('searches older entries from the start index', () => {
+      expect(findHistoryMatch(entries, 'git', 4, -1, 'substring')).toEqual({ index: 4, offset: 0 });
+      expect(findHistoryMatch(entries, 'git', 3, -1, 'substring')).toEqual({ index: 2, offset: 0 });
+    });
+
+    it('searches newer entries', () => {
+      expect(findHistoryMatch(entries, 'git', 1, 1, 'substring')).toEqual({ index: 2, offset: 0 });
+    });
+
+    it('skips entries equal to the given text', () => {
+      expect(findHistoryMatch(entries, 'status', 3, -1, 'substring', 'git status')).toBeUndefined();
+    });
+  });
+
+  describe('handleHistorySearchKey', () => {
+    it('finds the newest match as the query is typed', () => {
+      const state = type('git');
+      expect(state).toEqual({ query: 'git', matchIndex: 4, matchOffset: 0, failed: false });
+    });
+
+    it('keeps the current match while it still matches', () => {
+      const state = type('commit', type('git'));
+      expect(state.query).toBe('gitcommit');
+      expect(state.failed).toBe(true);
+      expect(state.matchIndex).toBe(4);
+
+      expect(type('git c').matchIndex).toBe(2);
+    });
+
+    it('cycles older matches with Ctrl+R', () => {
+      let state = type('git');
+      state = expectUpdate(handleHistorySearchKey(state, 'ctrl+r', '', entries));
+      expect(state.matchIndex).toBe(2);
+      state = expectUpdate(handleHistorySearchKey(state, 'ctrl+r', '', entries));
+      expect(state.matchIndex).toBe(0);
+      state = expectUpdate(handleHistorySearchKey(state, 'ctrl+r', '', entries));
+      expect(state.matchIndex).toBe(0);
+      expect(state.failed).toBe(true);
+    });
+
+    it('skips older entries with the same text as the current match', () => {
+      const state = expectUpdate(handleHistorySearchKey(type('status'), 'ctrl+r', '', entries));
+      expect(state.matchIndex).toBe(4);
+      expect(state.failed).toBe(true);
+    });
+
+    it('moves back to newer matches with Ctrl+S', () => {
+      let state = type('git');
+      state = expectUpdate(handleHistorySearchKey(state, 'ctrl+r', '', entries));
+      state = expectUpdate(handleHistorySearchKey(state, 'ctrl+s', '', entries));
+      expect(state.matchIndex).toBe(4);
+    });
+
+    it('shortens the query on Backspace and searches again from the newest entry', () => {
+      let state = type('npx');
+      expect(state.failed).toBe(true);
+      state = expectUpdate(handleHistorySearchKey(state, 'backspace', '', entries));
+      expect(state).toEqual({ query: 'np', matchIndex: 1, matchOffset: 0, failed: false });
+    });
+
+    it('clears the match when the query becomes empty', () => {
+      const state = expectUpdate(handleHistorySearchKey(type('l'), 'backspace', '', entries));
+      expect(state.matchIndex).toBeNull();
+    });
+
+    it('reports the match offset', () => {
+      expect(type('test').matchOffset).toBe(4);
+    });
+
+    it('uses the fuzzy matcher when asked', () => {
+      const state = expectUpdate(handleHistorySearchKey(createHistorySearch(), undefined, 'nt', entries, 'fuzzy'));
+      expect(state.matchIndex).toBe(1);
+    });
+
+    it('accepts the match on Enter', () => {
+      expect(handleHistorySearchKey(type('npm'), 'return', '\r', entries)).toEqual({
+        type: 'accept',
+        text: 'npm test',
+      });
+    });
+
+    it('accepts nothing when there is no match', () => {
+      expect(handleHistorySearchKey(createHistorySearch(), 'return', '\r', entries)).toEqual({
+        type: 'accept',
+        text: undefined,
+      });
+    });
+
+    it('cancels on Escape and Ctrl+G', () => {
+      expect(handleHistorySearchKey(type('ls'), 'escape', '', entries)).toEqual({ type: 'cancel' });
+      expect(handleHistorySearchKey(type('ls'), 'ctrl+g', 'g', entries)).toEqual({ type: 'cancel' });
+    });
+
+    it('accepts the match on other keys and runs them', () => {
+      expect(handleHistorySearchKey(type('ls'), 'left', '', entries)).toEqual({ type: 'accept', text: 'ls', runKey: true });
+      expect(handleHistorySearchKey(type('ls'), 'ctrl+e', 'e', entries)).toEqual({
+        type: 'accept',
+        text: 'ls',
+        runKey: true,
+      });
+    });
+  });
+
+  describe('extendHistorySearch', () => {
+    it('adds pasted text to the query with line breaks as spaces', () => {
+      const state = extendHistorySearch(type('git'), ' commit\n-m', entries);
+      expect(state).toEqual({ query: 'git commit -m', matchIndex: 2, matchOffset: 0, failed: false });
+    });
+  });
+
+  describe('formatHistorySearchPrompt', () => {
+    it('shows the query', () => {
+      expect(formatHistorySearchPrompt(type('git'))).toBe("(reverse-i-search)`git'");
+    });
+
+    it('flags failed searches', () => {
+      expect(formatHistorySearchPrompt(type('zzz'))).toBe("(failed reverse-i-search)`zzz'");
+    });
+  });
+});
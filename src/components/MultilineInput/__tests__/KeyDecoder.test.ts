@@ -0,0 +1,169 @@
+import { describe, it, expect } from 'vitest';
+import { createKeyDecoder, decodeKeys, flushKeys } from '../KeyDecoder.js';
+import { keyToChord } from '../Keymap.js';
+
+// Chords of the keys in one chunk, for readable expectations
+function chords(chunk: string): Array<string | undefined> {
+  return decodeKeys(createKeyDecoder(), chunk).events.map(({ key, input }) => keyToChord(key, input) ?? input);
+}
+
+describe('KeyDecoder', () => {
+  describe('decodeKeys', () => {
+    it('groups printable characters', () => {
+      expect(decodeKeys(createKeyDecoder(), 'héllo 日本').events).toEqual([{ key: {}, input: 'héllo 日本' }]);
+    });
+
+    it('decodes control characters', () => {
+      expect(chords('\r\t\x7f\b\n\x01\x00\x1f')).toEqual([
+        'return',
+        'tab',
+        'backspace',
+        'backspace',
+        'ctrl+j',
+        'ctrl+a',
+        'ctrl+space',
+        'ctrl+_',
+      ]);
+    });
+
+    it('decodes several keys in one chunk', () => {
+      expect(chords('ab\x1b[Dc\r')).toEqual(['ab', 'left', 'c', 'return']);
+    });
+
+    it('decodes Home and End variants', () => {
+      expect(chords('\x1b[H\x1b[1~\x1bOH\x1b[7~')).toEqual(['home', 'home', 'home', 'home']);
+      expect(chords('\x1b[F\x1b[4~\x1bOF\x1b[8~')).toEqual(['end', 'end', 'end', 'end']);
+    });
+
+    it('decodes xterm modifier parameters', () => {
+      expect(chords('\x1b[1;2H\x1b[1;5D\x1b[1;3C\x1b[1;6A\x1b[3;5~')).toEqual([
+        'shift+home',
+        'ctrl+left',
+        'meta+right',
+        'ctrl+shift+up',
+        'ctrl+delete',
+      ]);
+    });
+
+    it('decodes older and rxvt modifier forms', () => {
+      expect(chords('\x1b[5D\x1bOc\x1b[a\x1b[7$\x1b[8^')).toEqual([
+        'ctrl+left',
+        'ctrl+right',
+        'shift+up',
+        'shift+home',
+        'ctrl+end',
+      ]);
+    });
+
+    it('decodes paging, Insert and function keys', () => {
+      expect(chords('\x1b[5~\x1b[6~\x1b[2~\x1b[3~')).toEqual(['pageup', 'pagedown', 'insert', 'delete']);
+      expect(chords('\x1bOP\x1b[15~\x1b[24~\x1b[[A\x1b[1;2Q')).toEqual(['f1', 'f5', 'f12', 'f1', 'shift+f2']);
+    });
+
+    it('decodes Shift+Tab and keypad Enter', () => {
+      expect(chords('\x1b[Z\x1bOM')).toEqual(['shift+tab', 'return']);
+    });
+
+    it('decodes Alt as an ESC prefix', () => {
+      expect(chords('\x1bb\x1bB\x1b\x7f\x1b\x01\x1b\r')).toEqual([
+        'meta+b',
+        'meta+B',
+        'meta+backspace',
+        'ctrl+meta+a',
+        'meta+return',
+      ]);
+      expect(chords('\x1b\x1b[D')).toEqual(['meta+left']);
+    });
+
+    it('decodes kitty keyboard protocol keys', () => {
+      expect(chords('\x1b[13;2u\x1b[13;5u\x1b[13;3u\x1b[27u\x1b[97;5u\x1b[97;6u\x1b[57414u')).toEqual([
+        'shift+return',
+        'ctrl+return',
+        'meta+return',
+        'escape',
+        'ctrl+a',
+        'ctrl+A',
+        'return',
+      ]);
+    });
+
+    it('types kitty keypad text keys as their characters', () => {
+      const keypad = [...Array(17).keys()].map((i) => `\x1b[${57399 + i}u`).join('');
+      expect(chords(keypad)).toEqual([...'0123456789./*-+', 'return', '=']);
+    });
+
+    it('decodes kitty keypad navigation keys', () => {
+      const keypad = [...Array(10).keys()].map((i) => `\x1b[${57417 + i}u`).join('');
+      expect(chords(keypad)).toEqual([
+        'left',
+        'right',
+        'up',
+        'down',
+        'pageup',
+        'pagedown',
+        'home',
+        'end',
+        'insert',
+        'delete',
+      ]);
+      expect(chords('\x1b[57417;5u')).toEqual(['ctrl+left']);
+    });
+
+    it('drops other kitty private use keys', () => {
+      // KP_BEGIN, media play and a lone Left Shift
+      expect(chords('a\x1b[57427u\x1b[57428u\x1b[57441;2ub')).toEqual(['a', 'b']);
+    });
+
+    it('ignores lock keys in kitty modifiers', () => {
+      // Shift + Caps Lock + Num Lock
+      expect(chords('\x1b[13;194u')).toEqual(['shift+return']);
+    });
+
+    it('decodes modifyOtherKeys keys', () => {
+      expect(chords('\x1b[27;2;13~\x1b[27;5;13~\x1b[27;5;47~')).toEqual(['shift+return', 'ctrl+return', 'ctrl+/']);
+    });
+
+    it('reports replies to terminal queries separately', () => {
+      const result = decodeKeys(createKeyDecoder(), '\x1b[?1u\x1b[?62;22ca');
+      expect(result.responses).toEqual([{ type: 'keyboardFlags', flags: 1 }, { type: 'deviceAttributes' }]);
+      expect(result.events).toEqual([{ key: {}, input: 'a' }]);
+    });
+
+    it('drops unknown escape sequences', () => {
+      expect(chords('a\x1b[99~\x1b[?1;2cb')).toEqual(['a', 'b']);
+    });
+
+    it('waits for the rest of a sequence split across chunks', () => {
+      const first = decodeKeys(createKeyDecoder(), 'x\x1b[1;');
+      expect(first.events).toEqual([{ key: {}, input: 'x' }]);
+      expect(first.state.pending).toBe('\x1b[1;');
+
+      const second = decodeKeys(first.state, '5C');
+      expect(second.events).toEqual([{ key: { rightArrow: true, ctrl: true }, input: '' }]);
+      expect(second.state.pending).toBe('');
+    });
+
+    it('keeps a trailing ESC pending', () => {
+      const result = decodeKeys(createKeyDecoder(), '\x1b');
+      expect(result.events).toEqual([]);
+      expect(decodeKeys(result.state, 'OA').events).toEqual([{ key: { upArrow: true }, input: '' }]);
+    });
+  });
+
+  describe('flushKeys', () => {
+    it('takes a lone ESC as Escape', () => {
+      expect(flushKeys({ pending: '\x1b' }).events).toEqual([{ key: { escape: true }, input: '' }]);
+    });
+
+    it('takes ESC and one character as Alt+character', () => {
+      expect(flushKeys({ pending: '\x1b[' }).events).toEqual([{ key: { meta: true }, input: '[' }]);
+      expect(flushKeys({ pending: '\x1bO' }).events).toEqual([{ key: { meta: true }, input: 'O' }]);
+    });
+
+    it('drops a longer fragment and resets', () => {
+      const result = flushKeys({ pending: '\x1b[1;' });
+      expect(result.events).toEqual([]);
+      expect(result.state.pending).toBe('');
+    });
+  });
+});
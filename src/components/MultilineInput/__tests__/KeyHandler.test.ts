@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { handleKey, KeyHandlerActions } from '../KeyHandler.js';
+import { createViState } from '../ViMode.js';
+import { emacsKeymap } from '../Keymap.js';
 import { Buffer, Key } from '../types.js';
 
 describe('KeyHandler', () => {
@@ -11,12 +13,33 @@ describe('KeyHandler', () => {
       insert: vi.fn(),
       delete: vi.fn(),
       deleteForward: vi.fn(),
+      deleteWordBackward: vi.fn(),
+      deleteWordForward: vi.fn(),
+      killToLineEnd: vi.fn(),
+      killToLineStart: vi.fn(),
+      yank: vi.fn(),
+      yankPop: vi.fn(),
+      transposeChars: vi.fn(),
+      transposeWords: vi.fn(),
+      upcaseWord: vi.fn(),
+      downcaseWord: vi.fn(),
+      capitalizeWord: vi.fn(),
+      setMark: vi.fn(),
+      exchangePointAndMark: vi.fn(),
+      killRegion: vi.fn(),
+      copyRegion: vi.fn(),
       newLine: vi.fn(),
       deleteAndNewLine: vi.fn(),
       moveCursor: vi.fn(),
+      movePage: vi.fn(),
+      extendSelection: vi.fn(),
+      clearSelection: vi.fn(),
       undo: vi.fn(),
       redo: vi.fn(),
+      beginUndoGroup: vi.fn(),
+      endUndoGroup: vi.fn(),
       setText: vi.fn(),
+      applyEdit: vi.fn(),
       submit: vi.fn(),
     };
     buffer = { lines: [''] };
@@ -74,6 +97,13 @@ describe('KeyHandler', () => {
       handleKey({ ctrl: true }, 'e', buffer, actions);
       expect(actions.moveCursor).toHaveBeenCalledWith('lineEnd');
     });
+
+    it('handles PageUp and PageDown', () => {
+      handleKey({ pageUp: true }, '', buffer, actions);
+      expect(actions.movePage).toHaveBeenCalledWith('up');
+      handleKey({ pageDown: true }, '', buffer, actions);
+      expect(actions.movePage).toHaveBeenCalledWith('down');
+    });
   });
 
   describe('Boundary Arrow', () => {
@@ -321,6 +351,13 @@ describe('KeyHandler', () => {
       expect(actions.newLine).toHaveBeenCalled();
     });
 
+    it('handles Shift+Enter (NewLine)', () => {
+      buffer = { lines: ['hello'] };
+      handleKey({ return: true, shift: true }, '', buffer, actions);
+      expect(actions.newLine).toHaveBeenCalled();
+      expect(actions.submit).not.toHaveBeenCalled();
+    });
+
     it('handles regular text insertion', () => {
       handleKey({}, 'a', buffer, actions);
       expect(actions.insert).toHaveBeenCalledWith('a');
@@ -376,5 +413,547 @@ describe('KeyHandler', () => {
         expect(actions.newLine).not.toHaveBeenCalled();
         expect(actions.submit).not.toHaveBeenCalled();
     });
+
+    it('submits a line ending with backslash when continuation is off', () => {
+      buffer = { lines: ['C:\\Users\\'] };
+      handleKey({ return: true }, '', buffer, actions, { line: 0, column: 9 }, undefined, undefined, {
+        backslashContinuation: false,
+      });
+      expect(actions.submit).toHaveBeenCalled();
+      expect(actions.deleteAndNewLine).not.toHaveBeenCalled();
+    });
+
+    describe('newline-first mode', () => {
+      const options = { submitMode: 'newline-first' as const };
+
+      it('inserts a newline on Enter', () => {
+        buffer = { lines: ['hello'] };
+        handleKey({ return: true }, '', buffer, actions, { line: 0, column: 5 }, undefined, undefined, options);
+        expect(actions.newLine).toHaveBeenCalled();
+        expect(actions.submit).not.toHaveBeenCalled();
+      });
+
+      it.each([
+        ['Ctrl+Enter', { return: true, ctrl: true }, ''],
+        ['Alt+Enter', { return: true, meta: true }, ''],
+        ['Ctrl+S', { ctrl: true }, 's'],
+      ])('submits on %s', (_name, key, input) => {
+        handleKey(key, input, buffer, actions, { line: 0, column: 0 }, undefined, undefined, options);
+        expect(actions.submit).toHaveBeenCalled();
+        expect(actions.newLine).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('double-enter mode', () => {
+      const options = { submitMode: 'double-enter' as const };
+
+      it('inserts a newline on Enter after text', () => {
+        buffer = { lines: ['hello'] };
+        handleKey({ return: true }, '', buffer, actions, { line: 0, column: 5 }, undefined, undefined, options);
+        expect(actions.newLine).toHaveBeenCalled();
+        expect(actions.submit).not.toHaveBeenCalled();
+      });
+
+      it('submits without the empty last line', () => {
+        buffer = { lines: ['hello', 'world', ''] };
+        handleKey({ return: true }, '', buffer, actions, { line: 2, column: 0 }, undefined, undefined, options);
+        expect(actions.submit).toHaveBeenCalledWith('hello\nworld');
+        expect(actions.newLine).not.toHaveBeenCalled();
+      });
+
+      it('inserts a newline on an empty line that is not the last', () => {
+        buffer = { lines: ['hello', '', 'world'] };
+        handleKey({ return: true }, '', buffer, actions, { line: 1, column: 0 }, undefined, undefined, options);
+        expect(actions.newLine).toHaveBeenCalled();
+        expect(actions.submit).not.toHaveBeenCalled();
+      });
+
+      it('submits right away on Ctrl+Enter', () => {
+        buffer = { lines: ['hello'] };
+        handleKey({ return: true, ctrl: true }, '', buffer, actions, { line: 0, column: 5 }, undefined, undefined, options);
+        expect(actions.submit).toHaveBeenCalledWith();
+      });
+    });
+  });
+
+  describe('Selection', () => {
+    it('extends selection with Shift+Left', () => {
+      handleKey({ leftArrow: true, shift: true }, '', buffer, actions);
+      expect(actions.extendSelection).toHaveBeenCalledWith('left');
+      expect(actions.moveCursor).not.toHaveBeenCalled();
+    });
+
+    it('extends selection with Shift+Right', () => {
+      handleKey({ rightArrow: true, shift: true }, '', buffer, actions);
+      expect(actions.extendSelection).toHaveBeenCalledWith('right');
+    });
+
+    it('extends selection with Shift+Up and Shift+Down', () => {
+      handleKey({ upArrow: true, shift: true }, '', buffer, actions);
+      handleKey({ downArrow: true, shift: true }, '', buffer, actions);
+      expect(actions.extendSelection).toHaveBeenNthCalledWith(1, 'up');
+      expect(actions.extendSelection).toHaveBeenNthCalledWith(2, 'down');
+    });
+
+    it('extends selection with Shift+Home via escape sequence', () => {
+      handleKey({}, '', buffer, actions, undefined, '\x1b[1;2H');
+      expect(actions.extendSelection).toHaveBeenCalledWith('lineStart');
+    });
+
+    it('extends selection with Shift+End via escape sequence', () => {
+      handleKey({}, '', buffer, actions, undefined, '\x1b[1;2F');
+      expect(actions.extendSelection).toHaveBeenCalledWith('lineEnd');
+    });
+
+    it('does not fire onBoundaryArrow when extending selection', () => {
+      buffer = { lines: ['hello'] };
+      const onBoundaryArrow = vi.fn();
+      actions.onBoundaryArrow = onBoundaryArrow;
+
+      handleKey({ leftArrow: true, shift: true }, '', buffer, actions, { line: 0, column: 0 });
+
+      expect(onBoundaryArrow).not.toHaveBeenCalled();
+      expect(actions.extendSelection).toHaveBeenCalledWith('left');
+    });
+
+    it('clears selection on Escape', () => {
+      handleKey({ escape: true, meta: true }, '', buffer, actions);
+      expect(actions.clearSelection).toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Word navigation and deletion', () => {
+    it('handles Alt+B as previous word', () => {
+      handleKey({ meta: true }, 'b', buffer, actions);
+      expect(actions.moveCursor).toHaveBeenCalledWith('wordLeft');
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+
+    it('handles Alt+F as next word', () => {
+      handleKey({ meta: true }, 'f', buffer, actions);
+      expect(actions.moveCursor).toHaveBeenCalledWith('wordRight');
+    });
+
+    it('handles Ctrl+Left and Ctrl+Right', () => {
+      handleKey({ ctrl: true, leftArrow: true }, '', buffer, actions);
+      handleKey({ ctrl: true, rightArrow: true }, '', buffer, actions);
+      expect(actions.moveCursor).toHaveBeenNthCalledWith(1, 'wordLeft');
+      expect(actions.moveCursor).toHaveBeenNthCalledWith(2, 'wordRight');
+    });
+
+    it('handles xterm Ctrl+Arrow escape sequences', () => {
+      handleKey({}, '', buffer, actions, undefined, '\x1b[1;5D');
+      handleKey({}, '', buffer, actions, undefined, '\x1b[1;5C');
+      expect(actions.moveCursor).toHaveBeenNthCalledWith(1, 'wordLeft');
+      expect(actions.moveCursor).toHaveBeenNthCalledWith(2, 'wordRight');
+    });
+
+    it('does not fire onBoundaryArrow for word motions', () => {
+      buffer = { lines: ['hello'] };
+      const onBoundaryArrow = vi.fn();
+      actions.onBoundaryArrow = onBoundaryArrow;
+
+      handleKey({ ctrl: true, leftArrow: true }, '', buffer, actions, { line: 0, column: 0 });
+
+      expect(onBoundaryArrow).not.toHaveBeenCalled();
+    });
+
+    it('handles Ctrl+W as delete previous word', () => {
+      handleKey({ ctrl: true }, 'w', buffer, actions);
+      expect(actions.deleteWordBackward).toHaveBeenCalled();
+    });
+
+    it('handles Alt+Backspace as delete previous word', () => {
+      handleKey({ meta: true, delete: true }, '', buffer, actions, undefined, '\x1b\x7f');
+      expect(actions.deleteWordBackward).toHaveBeenCalled();
+      expect(actions.delete).not.toHaveBeenCalled();
+    });
+
+    it('handles Alt+D as delete next word', () => {
+      handleKey({ meta: true }, 'd', buffer, actions);
+      expect(actions.deleteWordForward).toHaveBeenCalled();
+    });
+  });
+
+  describe('Kill ring', () => {
+    it('handles Ctrl+K as kill to end of line', () => {
+      handleKey({ ctrl: true }, 'k', buffer, actions);
+      expect(actions.killToLineEnd).toHaveBeenCalled();
+    });
+
+    it('handles Ctrl+U as kill to start of line', () => {
+      handleKey({ ctrl: true }, 'u', buffer, actions);
+      expect(actions.killToLineStart).toHaveBeenCalled();
+    });
+
+    it('handles Alt+Y as yank-pop', () => {
+      handleKey({ meta: true }, 'y', buffer, actions);
+      expect(actions.yankPop).toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+
+    it('keeps Ctrl+Y as redo by default', () => {
+      handleKey({ ctrl: true }, 'y', buffer, actions);
+      expect(actions.redo).toHaveBeenCalled();
+      expect(actions.yank).not.toHaveBeenCalled();
+    });
+
+    it('maps Ctrl+Y to yank when configured', () => {
+      handleKey({ ctrl: true }, 'y', buffer, actions, undefined, undefined, undefined, { ctrlY: 'yank' });
+      expect(actions.yank).toHaveBeenCalled();
+      expect(actions.redo).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Keymap', () => {
+    it('runs a rebound command', () => {
+      handleKey({ ctrl: true }, 'z', buffer, actions, undefined, undefined, undefined, {
+        keymap: { 'ctrl+z': 'redo' },
+      });
+      expect(actions.redo).toHaveBeenCalled();
+      expect(actions.undo).not.toHaveBeenCalled();
+    });
+
+    it('does nothing for an unbound chord', () => {
+      handleKey({ return: true }, '\r', buffer, actions, { line: 0, column: 0 }, undefined, undefined, {
+        keymap: { return: null },
+      });
+      expect(actions.submit).not.toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+
+    it('binds printable characters to commands', () => {
+      handleKey({}, 'q', buffer, actions, undefined, undefined, undefined, {
+        keymap: { q: 'submit' },
+      });
+      expect(actions.submit).toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+
+    it('runs custom commands with the key context', () => {
+      const openEditor = vi.fn();
+      const cursor = { line: 0, column: 0 };
+      handleKey({ ctrl: true }, 'o', buffer, actions, cursor, undefined, 40, {
+        keymap: { 'ctrl+o': 'openEditor' },
+        commands: { openEditor },
+      });
+      expect(openEditor).toHaveBeenCalledWith(
+        expect.objectContaining({ actions, buffer, cursor, width: 40, input: 'o' })
+      );
+    });
+
+    it('lets custom commands replace built-in ones', () => {
+      const submit = vi.fn();
+      handleKey({ return: true }, '\r', buffer, actions, { line: 0, column: 0 }, undefined, undefined, {
+        commands: { submitOrContinue: submit },
+      });
+      expect(submit).toHaveBeenCalled();
+      expect(actions.submit).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the unmodified key for unbound modified keys', () => {
+      handleKey({ ctrl: true, upArrow: true }, '', buffer, actions);
+      expect(actions.moveCursor).toHaveBeenCalledWith('up');
+    });
+
+    describe('multi-key sequences', () => {
+      const keymap = { 'ctrl+x ctrl+e': 'openEditor' };
+
+      it('runs the command once the sequence is complete', () => {
+        const openEditor = vi.fn();
+        const sequence = { pending: [] as string[] };
+        const options = { keymap, commands: { openEditor }, sequence };
+
+        handleKey({ ctrl: true }, 'x', buffer, actions, undefined, undefined, undefined, options);
+        expect(openEditor).not.toHaveBeenCalled();
+        expect(sequence.pending).toEqual(['ctrl+x']);
+
+        handleKey({ ctrl: true }, 'e', buffer, actions, undefined, undefined, undefined, options);
+        expect(openEditor).toHaveBeenCalledTimes(1);
+        expect(actions.moveCursor).not.toHaveBeenCalled();
+        expect(sequence.pending).toEqual([]);
+      });
+
+      it('drops an unfinished sequence followed by an unbound key', () => {
+        const sequence = { pending: [] as string[] };
+        const options = { keymap, sequence };
+
+        handleKey({ ctrl: true }, 'x', buffer, actions, undefined, undefined, undefined, options);
+        handleKey({}, 'a', buffer, actions, undefined, undefined, undefined, options);
+        expect(actions.insert).not.toHaveBeenCalled();
+        expect(sequence.pending).toEqual([]);
+
+        handleKey({}, 'a', buffer, actions, undefined, undefined, undefined, options);
+        expect(actions.insert).toHaveBeenCalledWith('a');
+      });
+
+      it('keeps single-key bindings that do not start a sequence', () => {
+        const sequence = { pending: [] as string[] };
+        handleKey({ ctrl: true }, 'e', buffer, actions, undefined, undefined, undefined, { keymap, sequence });
+        expect(actions.moveCursor).toHaveBeenCalledWith('lineEnd');
+      });
+    });
+  });
+
+  describe('Vi mode', () => {
+    it('inserts text in insert mode through the keymap', () => {
+      const viState = createViState();
+      handleKey({}, 'a', buffer, actions, { line: 0, column: 0 }, undefined, undefined, { vi: viState });
+      expect(actions.insert).toHaveBeenCalledWith('a');
+      expect(actions.applyEdit).not.toHaveBeenCalled();
+    });
+
+    it('runs insert mode Backspace and Ctrl+J as keymap commands', () => {
+      const viState = createViState();
+      const deleteTokenBackward = vi.fn(() => true);
+      actions.deleteTokenBackward = deleteTokenBackward;
+      handleKey({ backspace: true }, '', buffer, actions, { line: 0, column: 0 }, undefined, undefined, { vi: viState });
+      expect(deleteTokenBackward).toHaveBeenCalled();
+
+      handleKey({ ctrl: true }, 'j', buffer, actions, { line: 0, column: 0 }, undefined, undefined, {
+        vi: viState,
+        keymap: { 'ctrl+j': 'submit' },
+      });
+      expect(actions.submit).toHaveBeenCalled();
+      expect(actions.newLine).not.toHaveBeenCalled();
+    });
+
+    it('records insert mode typing for repeat', () => {
+      const viState = createViState('normal');
+      buffer = { lines: ['x'] };
+      const options = { vi: viState };
+      handleKey({}, 'A', buffer, actions, { line: 0, column: 0 }, undefined, undefined, options);
+      expect(viState.mode).toBe('insert');
+      handleKey({}, 'ab', { lines: ['x'] }, actions, { line: 0, column: 1 }, undefined, undefined, options);
+      handleKey({ escape: true }, '', { lines: ['xab'] }, actions, { line: 0, column: 3 }, undefined, undefined, options);
+
+      handleKey({}, '.', { lines: ['xab'] }, actions, { line: 0, column: 2 }, undefined, undefined, options);
+      expect(actions.applyEdit).toHaveBeenLastCalledWith({ lines: ['xabab'] }, { line: 0, column: 4 });
+    });
+
+    it('makes an insert one undo step', () => {
+      const viState = createViState('normal');
+      const options = { vi: viState };
+      handleKey({}, 'c', { lines: ['foo bar'] }, actions, { line: 0, column: 0 }, undefined, undefined, options);
+      expect(actions.beginUndoGroup).not.toHaveBeenCalled();
+      handleKey({}, 'w', { lines: ['foo bar'] }, actions, { line: 0, column: 0 }, undefined, undefined, options);
+      expect(actions.beginUndoGroup).toHaveBeenCalled();
+      // Begun before the change, so the deleted word is part of the step
+      expect(vi.mocked(actions.beginUndoGroup).mock.invocationCallOrder[0]).toBeLessThan(
+        vi.mocked(actions.applyEdit).mock.invocationCallOrder[0]
+      );
+
+      handleKey({}, 'x', { lines: [' bar'] }, actions, { line: 0, column: 0 }, undefined, undefined, options);
+      expect(actions.endUndoGroup).not.toHaveBeenCalled();
+      handleKey({ escape: true }, '', { lines: ['x bar'] }, actions, { line: 0, column: 1 }, undefined, undefined, options);
+      expect(actions.endUndoGroup).toHaveBeenCalled();
+    });
+
+    it('switches to normal mode on Escape', () => {
+      const viState = createViState();
+      buffer = { lines: ['abc'] };
+      handleKey({ escape: true, meta: true }, '', buffer, actions, { line: 0, column: 3 }, undefined, undefined, { vi: viState });
+      expect(viState.mode).toBe('normal');
+      expect(actions.applyEdit).toHaveBeenCalledWith(buffer, { line: 0, column: 2 });
+    });
+
+    it('runs normal mode commands', () => {
+      const viState = createViState('normal');
+      buffer = { lines: ['foo bar'] };
+      const cursor = { line: 0, column: 0 };
+      handleKey({}, 'd', buffer, actions, cursor, undefined, undefined, { vi: viState });
+      expect(actions.applyEdit).not.toHaveBeenCalled();
+      handleKey({}, 'w', buffer, actions, cursor, undefined, undefined, { vi: viState });
+      expect(actions.applyEdit).toHaveBeenCalledWith({ lines: ['bar'] }, { line: 0, column: 0 });
+    });
+
+    it('maps u to undo', () => {
+      const viState = createViState('normal');
+      handleKey({}, 'u', buffer, actions, { line: 0, column: 0 }, undefined, undefined, { vi: viState });
+      expect(actions.undo).toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+
+    it('passes keys vi does not handle on to the keymap', () => {
+      const viState = createViState('normal');
+      handleKey({ return: true }, '\r', buffer, actions, { line: 0, column: 0 }, undefined, undefined, { vi: viState });
+      expect(actions.submit).toHaveBeenCalled();
+    });
+  });
+
+  describe('Emacs keymap', () => {
+    const options = { keymap: emacsKeymap };
+    const press = (key: Partial<Key>, input: string, sequence = { pending: [] as string[] }) =>
+      handleKey(key, input, buffer, actions, undefined, undefined, undefined, { ...options, sequence });
+
+    it('moves with Ctrl+F/B/N/P', () => {
+      press({ ctrl: true }, 'f');
+      press({ ctrl: true }, 'b');
+      press({ ctrl: true }, 'n');
+      press({ ctrl: true }, 'p');
+      expect(vi.mocked(actions.moveCursor).mock.calls).toEqual([['right'], ['left'], ['down'], ['up']]);
+    });
+
+    it('deletes forward with Ctrl+D', () => {
+      press({ ctrl: true }, 'd');
+      expect(actions.deleteForward).toHaveBeenCalled();
+    });
+
+    it('transposes with Ctrl+T and Alt+T', () => {
+      press({ ctrl: true }, 't');
+      press({ meta: true }, 't');
+      expect(actions.transposeChars).toHaveBeenCalled();
+      expect(actions.transposeWords).toHaveBeenCalled();
+    });
+
+    it('changes case with Alt+U/L/C', () => {
+      press({ meta: true }, 'u');
+      press({ meta: true }, 'l');
+      press({ meta: true }, 'c');
+      expect(actions.upcaseWord).toHaveBeenCalled();
+      expect(actions.downcaseWord).toHaveBeenCalled();
+      expect(actions.capitalizeWord).toHaveBeenCalled();
+    });
+
+    it('sets the mark with Ctrl+Space', () => {
+      press({ ctrl: true }, '`');
+      expect(actions.setMark).toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+
+    it('kills and copies the region with Ctrl+W and Alt+W', () => {
+      press({ ctrl: true }, 'w');
+      press({ meta: true }, 'w');
+      expect(actions.killRegion).toHaveBeenCalled();
+      expect(actions.copyRegion).toHaveBeenCalled();
+      expect(actions.deleteWordBackward).not.toHaveBeenCalled();
+    });
+
+    it('exchanges point and mark with Ctrl+X Ctrl+X', () => {
+      const sequence = { pending: [] as string[] };
+      press({ ctrl: true }, 'x', sequence);
+      press({ ctrl: true }, 'x', sequence);
+      expect(actions.exchangePointAndMark).toHaveBeenCalledTimes(1);
+    });
+
+    it('yanks with Ctrl+Y and deactivates the mark with Ctrl+G', () => {
+      press({ ctrl: true }, 'y');
+      press({ ctrl: true }, 'g');
+      expect(actions.yank).toHaveBeenCalled();
+      expect(actions.clearSelection).toHaveBeenCalled();
+    });
+  });
+
+  describe('History recall', () => {
+    it('recalls the previous entry on Up at the top boundary', () => {
+      actions.historyPrevious = vi.fn(() => true);
+      actions.onBoundaryArrow = vi.fn();
+      buffer = { lines: ['draft'] };
+      handleKey({ upArrow: true }, '', buffer, actions, { line: 0, column: 5 });
+      expect(actions.historyPrevious).toHaveBeenCalled();
+      expect(actions.onBoundaryArrow).not.toHaveBeenCalled();
+      expect(actions.moveCursor).not.toHaveBeenCalled();
+    });
+
+    it('falls back to onBoundaryArrow when there is no older entry', () => {
+      actions.historyPrevious = vi.fn(() => false);
+      actions.onBoundaryArrow = vi.fn();
+      handleKey({ upArrow: true }, '', buffer, actions, { line: 0, column: 0 });
+      expect(actions.onBoundaryArrow).toHaveBeenCalledWith('up');
+    });
+
+    it('recalls the next entry on Down at the bottom boundary', () => {
+      actions.historyNext = vi.fn(() => true);
+      handleKey({ downArrow: true }, '', buffer, actions, { line: 0, column: 0 });
+      expect(actions.historyNext).toHaveBeenCalled();
+      expect(actions.moveCursor).not.toHaveBeenCalled();
+    });
+
+    it('moves within multi-line text before recalling', () => {
+      actions.historyPrevious = vi.fn(() => true);
+      buffer = { lines: ['one', 'two'] };
+      handleKey({ upArrow: true }, '', buffer, actions, { line: 1, column: 0 });
+      expect(actions.historyPrevious).not.toHaveBeenCalled();
+      expect(actions.moveCursor).toHaveBeenCalledWith('up');
+    });
+
+    it('starts a reverse search on Ctrl+R', () => {
+      actions.historySearch = vi.fn();
+      handleKey({ ctrl: true }, 'r', buffer, actions, { line: 0, column: 0 });
+      expect(actions.historySearch).toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Completion', () => {
+    it('requests completions on Tab', () => {
+      actions.complete = vi.fn();
+      handleKey({ tab: true }, '', buffer, actions, { line: 0, column: 0 });
+      expect(actions.complete).toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Pastes', () => {
+    it('toggles the paste at the cursor on Ctrl+O', () => {
+      actions.togglePaste = vi.fn(() => true);
+      handleKey({ ctrl: true }, 'o', buffer, actions, { line: 0, column: 0 });
+      expect(actions.togglePaste).toHaveBeenCalled();
+      expect(actions.insert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Suggestions', () => {
+    beforeEach(() => {
+      buffer = { lines: ['git'] };
+      actions.acceptSuggestion = vi.fn(() => true);
+      actions.acceptSuggestionWord = vi.fn(() => true);
+      actions.onBoundaryArrow = vi.fn();
+    });
+
+    it('accepts the suggestion on Right at the end of the text', () => {
+      handleKey({ rightArrow: true }, '', buffer, actions, { line: 0, column: 3 });
+      expect(actions.acceptSuggestion).toHaveBeenCalled();
+      expect(actions.onBoundaryArrow).not.toHaveBeenCalled();
+    });
+
+    it('falls back to onBoundaryArrow without a suggestion', () => {
+      actions.acceptSuggestion = vi.fn(() => false);
+      handleKey({ rightArrow: true }, '', buffer, actions, { line: 0, column: 3 });
+      expect(actions.onBoundaryArrow).toHaveBeenCalledWith('right');
+    });
+
+    it('moves right inside the text', () => {
+      handleKey({ rightArrow: true }, '', buffer, actions, { line: 0, column: 1 });
+      expect(actions.acceptSuggestion).not.toHaveBeenCalled();
+      expect(actions.moveCursor).toHaveBeenCalledWith('right');
+    });
+
+    it('accepts one word on Alt+F at the end of the text', () => {
+      handleKey({ meta: true }, 'f', buffer, actions, { line: 0, column: 3 });
+      expect(actions.acceptSuggestionWord).toHaveBeenCalled();
+      expect(actions.moveCursor).not.toHaveBeenCalled();
+    });
+
+    it('accepts the suggestion on Tab without a completion provider', () => {
+      handleKey({ tab: true }, '', buffer, actions, { line: 0, column: 3 });
+      expect(actions.acceptSuggestion).toHaveBeenCalled();
+    });
+  });
+
+  describe('Atomic tokens', () => {
+    it('deletes an atomic token on Backspace', () => {
+      actions.deleteTokenBackward = vi.fn(() => true);
+      handleKey({ backspace: true }, '', buffer, actions, { line: 0, column: 0 });
+      expect(actions.deleteTokenBackward).toHaveBeenCalled();
+      expect(actions.delete).not.toHaveBeenCalled();
+    });
+
+    it('deletes one character when there is no token', () => {
+      actions.deleteTokenBackward = vi.fn(() => false);
+      handleKey({ backspace: true }, '', buffer, actions, { line: 0, column: 0 });
+      expect(actions.delete).toHaveBeenCalled();
+    });
   });
 });
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { negotiateKeyboardProtocol, enableKeyboardProtocol, resetKeyboardProtocol } from '../KeyboardProtocol.js';
+
+describe('KeyboardProtocol', () => {
+  describe('negotiateKeyboardProtocol', () => {
+    it('picks the kitty protocol when the flags are reported', () => {
+      expect(negotiateKeyboardProtocol('querying', { type: 'keyboardFlags', flags: 0 })).toEqual({
+        protocol: 'kitty',
+        write: '\x1b[>1u',
+      });
+    });
+
+    it('falls back to modifyOtherKeys on the device attributes alone', () => {
+      expect(negotiateKeyboardProtocol('querying', { type: 'deviceAttributes' })).toEqual({
+        protocol: 'modifyOtherKeys',
+        write: '\x1b[>4;2m',
+      });
+    });
+
+    it('ignores replies once decided', () => {
+      expect(negotiateKeyboardProtocol('kitty', { type: 'deviceAttributes' })).toEqual({ protocol: 'kitty' });
+    });
+  });
+
+  describe('enableKeyboardProtocol', () => {
+    it('turns a negotiated protocol back on', () => {
+      expect(enableKeyboardProtocol('kitty')).toBe('\x1b[>1u');
+      expect(enableKeyboardProtocol('modifyOtherKeys')).toBe('\x1b[>4;2m');
+      expect(enableKeyboardProtocol('querying')).toBe('');
+    });
+  });
+
+  describe('resetKeyboardProtocol', () => {
+    it('undoes what was enabled', () => {
+      expect(resetKeyboardProtocol('kitty')).toBe('\x1b[<u');
+      expect(resetKeyboardProtocol('modifyOtherKeys')).toBe('\x1b[>4;0m');
+      expect(resetKeyboardProtocol('querying')).toBe('');
+    });
+  });
+});
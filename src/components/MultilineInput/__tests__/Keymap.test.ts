@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import {
+  defaultKeymap,
+  resolveKeymap,
+  keyToChord,
+  getUnmodifiedChord,
+  isSequencePrefix,
+} from '../Keymap.js';
+
+describe('Keymap', () => {
+  describe('keyToChord', () => {
+    it('names arrow keys', () => {
+      expect(keyToChord({ upArrow: true }, '')).toBe('up');
+      expect(keyToChord({ leftArrow: true }, '')).toBe('left');
+    });
+
+    it('adds modifiers in ctrl, meta, shift order', () => {
+      expect(keyToChord({ shift: true, ctrl: true, meta: true, rightArrow: true }, '')).toBe(
+        'ctrl+meta+shift+right'
+      );
+    });
+
+    it('formats control characters as ctrl chords', () => {
+      expect(keyToChord({ ctrl: true }, 'a')).toBe('ctrl+a');
+      expect(keyToChord({ meta: true }, 'b')).toBe('meta+b');
+    });
+
+    it('keeps printable characters as themselves', () => {
+      expect(keyToChord({}, 'x')).toBe('x');
+      expect(keyToChord({ shift: true }, 'G')).toBe('G');
+      expect(keyToChord({}, '\\')).toBe('\\');
+    });
+
+    it('names space', () => {
+      expect(keyToChord({}, ' ')).toBe('space');
+    });
+
+    it('treats a bare line feed as Ctrl+J', () => {
+      expect(keyToChord({}, '\n')).toBe('ctrl+j');
+    });
+
+    it('recognizes Ctrl+Space', () => {
+      expect(keyToChord({ ctrl: true }, '`')).toBe('ctrl+space');
+    });
+
+    it('ignores the meta flag Ink sets on Escape', () => {
+      expect(keyToChord({ escape: true, meta: true }, '')).toBe('escape');
+    });
+
+    it('reads Home/End from raw escape sequences', () => {
+      expect(keyToChord({}, '', '\x1b[H')).toBe('home');
+      expect(keyToChord({}, '', '\x1b[4~')).toBe('end');
+      expect(keyToChord({}, '', '\x1b[1;2H')).toBe('shift+home');
+    });
+
+    it('treats raw DEL and BS as backspace', () => {
+      expect(keyToChord({ delete: true }, '', '\x7f')).toBe('backspace');
+      expect(keyToChord({}, '\b')).toBe('backspace');
+      expect(keyToChord({ delete: true }, '', '\x1b[3~')).toBe('delete');
+    });
+
+    it('returns undefined for multi-character input', () => {
+      expect(keyToChord({}, 'pasted text')).toBeUndefined();
+    });
+  });
+
+  describe('getUnmodifiedChord', () => {
+    it('strips modifiers from named keys', () => {
+      expect(getUnmodifiedChord('ctrl+up')).toBe('up');
+      expect(getUnmodifiedChord('ctrl+meta+shift+return')).toBe('return');
+    });
+
+    it('returns undefined for unmodified keys and characters', () => {
+      expect(getUnmodifiedChord('up')).toBeUndefined();
+      expect(getUnmodifiedChord('ctrl+a')).toBeUndefined();
+    });
+  });
+
+  describe('resolveKeymap', () => {
+    it('merges overrides onto the base keymap', () => {
+      const keymap = resolveKeymap(defaultKeymap, { 'ctrl+y': 'yank' }, { 'ctrl+z': null });
+      expect(keymap['ctrl+y']).toBe('yank');
+      expect(keymap['ctrl+z']).toBeNull();
+      expect(keymap.up).toBe('moveUp');
+    });
+
+    it('does not modify the base keymap', () => {
+      resolveKeymap(defaultKeymap, { up: 'moveDown' });
+      expect(defaultKeymap.up).toBe('moveUp');
+    });
+  });
+
+  describe('isSequencePrefix', () => {
+    it('detects the start of a multi-key sequence', () => {
+      const keymap = { 'ctrl+x ctrl+e': 'openEditor' };
+      expect(isSequencePrefix(keymap, 'ctrl+x')).toBe(true);
+      expect(isSequencePrefix(keymap, 'ctrl+x ctrl+e')).toBe(false);
+      expect(isSequencePrefix(keymap, 'ctrl+e')).toBe(false);
+    });
+
+    it('ignores unbound sequences', () => {
+      expect(isSequencePrefix({ 'ctrl+x ctrl+e': null }, 'ctrl+x')).toBe(false);
+    });
+  });
+});
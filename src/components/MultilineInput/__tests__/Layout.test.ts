@@ -0,0 +1,94 @@
+import { describe, it, expect, vi } from 'vitest';
+import { getVisualRows, getVisualRowIndex, getVisualPosition, getBufferColumn, getVisualRowCount } from '../Layout.js';
+import { hangingIndentWrap } from '../Wrap.js';
+import type { WrapStrategy } from '../types.js';
+
+describe('Layout', () => {
+  describe('getVisualRows caching', () => {
+    it('returns the same rows for the same line and width', () => {
+      const rows = getVisualRows('cache me if you can', 8);
+      expect(getVisualRows('cache me if you can', 8)).toBe(rows);
+    });
+
+    it('wraps again for another width', () => {
+      const rows = getVisualRows('cache me if you can', 8);
+      expect(getVisualRows('cache me if you can', 10)).not.toBe(rows);
+    });
+
+    it('runs a strategy once per line and width', () => {
+      const strategy = vi.fn<WrapStrategy>((line) => [{ start: 0, length: line.length }]);
+
+      getVisualRows('one', 10, strategy);
+      getVisualRows('one', 10, strategy);
+      getVisualRows('two', 10, strategy);
+      getVisualRows('one', 10, strategy);
+
+      expect(strategy).toHaveBeenCalledTimes(2);
+    });
+
+    it('keeps the rows of each strategy apart', () => {
+      const line = '- item one two three';
+      expect(getVisualRows(line, 10, hangingIndentWrap)).not.toEqual(getVisualRows(line, 10));
+    });
+  });
+
+  describe('getVisualRowIndex', () => {
+    it('places a column at a wrap point on the row that starts there', () => {
+      const rows = getVisualRows('hello world', 6);
+      expect(getVisualRowIndex(rows, 5)).toBe(0);
+      expect(getVisualRowIndex(rows, 6)).toBe(1);
+      expect(getVisualRowIndex(rows, 11)).toBe(1);
+    });
+  });
+
+  describe('getVisualPosition', () => {
+    it('maps a column to its row and display column', () => {
+      // Rows: 'hello ' / 'world'
+      expect(getVisualPosition('hello world', 8, 7)).toEqual({ row: 1, x: 2 });
+    });
+
+    it('puts a wrap point on the next row', () => {
+      expect(getVisualPosition('hello world', 6, 7)).toEqual({ row: 1, x: 0 });
+    });
+
+    it('includes the hanging indent', () => {
+      // Rows: '- item ' / '  one two ' / '  three'
+      expect(getVisualPosition('- item one two three', 9, 10, hangingIndentWrap)).toEqual({ row: 1, x: 4 });
+    });
+
+    it('measures wide characters in cells', () => {
+      expect(getVisualPosition('日本語', 2, 10)).toEqual({ row: 0, x: 4 });
+    });
+  });
+
+  describe('getBufferColumn', () => {
+    it('maps a row and display column back to a column', () => {
+      expect(getBufferColumn('hello world', 1, 2, 7)).toBe(8);
+    });
+
+    it('clamps to the end of the last row', () => {
+      expect(getBufferColumn('hello world', 1, 20, 7)).toBe(11);
+    });
+
+    it('stays on a row whose end is a wrap point', () => {
+      expect(getBufferColumn('hello world', 0, 20, 7)).toBe(5);
+    });
+
+    it('round-trips with getVisualPosition', () => {
+      const line = '- item one two three';
+      for (let column = 0; column <= line.length; column++) {
+        const { row, x } = getVisualPosition(line, column, 10, hangingIndentWrap);
+        const back = getBufferColumn(line, row, x, 10, hangingIndentWrap);
+        // The column can differ at a row end, but the row is kept
+        expect(getVisualPosition(line, back, 10, hangingIndentWrap).row).toBe(row);
+      }
+    });
+  });
+
+  describe('getVisualRowCount', () => {
+    it('counts rows', () => {
+      expect(getVisualRowCount('hello world', 7)).toBe(2);
+      expect(getVisualRowCount('', 7)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { tokenizeMarkdownLine, createMarkdownDecorator, defaultMarkdownTheme as theme } from '../Markdown.js';
+
+// Text and style of each range, for readable expectations
+function spans(line: string, fence?: Parameters<typeof tokenizeMarkdownLine>[1]) {
+  return tokenizeMarkdownLine(line, fence).ranges.map((range) => [line.slice(range.start, range.end), range.style]);
+}
+
+describe('Markdown', () => {
+  describe('tokenizeMarkdownLine', () => {
+    it('styles headings', () => {
+      expect(spans('## Title')).toEqual([['## Title', theme.heading]]);
+      expect(spans('#hashtag')).toEqual([]);
+    });
+
+    it('styles strong and emphasis', () => {
+      expect(spans('a **b** and *c*')).toEqual([
+        ['**b**', theme.strong],
+        ['*c*', theme.emphasis],
+      ]);
+      expect(spans('__b__ _c_')).toEqual([
+        ['__b__', theme.strong],
+        ['_c_', theme.emphasis],
+      ]);
+    });
+
+    it('leaves underscores inside words alone', () => {
+      expect(spans('snake_case_name')).toEqual([]);
+    });
+
+    it('styles inline code without looking inside it', () => {
+      expect(spans('run `a *b* c` now')).toEqual([['`a *b* c`', theme.code]]);
+      expect(spans('``a ` b``')).toEqual([['``a ` b``', theme.code]]);
+    });
+
+    it('styles link text and url', () => {
+      expect(spans('see [docs](https://x.dev)')).toEqual([
+        ['[docs]', theme.link],
+        ['(https://x.dev)', theme.linkUrl],
+      ]);
+    });
+
+    it('styles list markers and the item text', () => {
+      expect(spans('  - item *one*')).toEqual([
+        ['-', theme.listMarker],
+        ['*one*', theme.emphasis],
+      ]);
+      expect(spans('12. twelve')).toEqual([['12.', theme.listMarker]]);
+      expect(spans('* star')).toEqual([['*', theme.listMarker]]);
+    });
+
+    it('opens a fence with a language tag', () => {
+      const tokens = tokenizeMarkdownLine('```ts', undefined);
+      expect(tokens.fence).toEqual({ char: '`', length: 3 });
+      expect(spans('```ts')).toEqual([
+        ['```', theme.codeFence],
+        ['ts', theme.codeLanguage],
+      ]);
+    });
+
+    it('styles lines inside a fence as code', () => {
+      const fence = { char: '`' as const, length: 3 };
+      expect(spans('# not a heading', fence)).toEqual([['# not a heading', theme.codeBlock]]);
+      expect(tokenizeMarkdownLine('x', fence).fence).toBe(fence);
+    });
+
+    it('closes a fence only with a matching marker', () => {
+      const fence = { char: '`' as const, length: 4 };
+      expect(tokenizeMarkdownLine('```', fence).fence).toBe(fence);
+      expect(tokenizeMarkdownLine('~~~~', fence).fence).toBe(fence);
+      expect(tokenizeMarkdownLine('````` ', fence).fence).toBeUndefined();
+    });
+  });
+
+  describe('createMarkdownDecorator', () => {
+    it('tracks fences across lines', () => {
+      const decorate = createMarkdownDecorator();
+      const decorations = decorate(['```', '*x*', '```', '*y*']);
+
+      expect(decorations).toEqual([
+        { line: 0, start: 0, end: 3, style: theme.codeFence },
+        { line: 1, start: 0, end: 3, style: theme.codeBlock },
+        { line: 2, start: 0, end: 3, style: theme.codeFence },
+        { line: 3, start: 0, end: 3, style: theme.emphasis },
+      ]);
+    });
+
+    it('merges a custom theme over the default', () => {
+      const decorate = createMarkdownDecorator({ code: { color: 'red' } });
+      expect(decorate(['`x` **y**']).map((decoration) => decoration.style)).toEqual([{ color: 'red' }, theme.strong]);
+    });
+
+    it('reuses the tokens of unchanged lines', () => {
+      const decorate = createMarkdownDecorator();
+      const before = decorate(['# a', '*b*']);
+      const after = decorate(['# a', '*bc*']);
+
+      expect(after[0]).toBe(before[0]);
+      expect(after[1]).not.toBe(before[1]);
+    });
+
+    it('re-tokenizes the lines after an opened fence', () => {
+      const decorate = createMarkdownDecorator();
+      decorate(['text', '*b*']);
+
+      expect(decorate(['```', '*b*'])[1]).toMatchObject({ line: 1, style: theme.codeBlock });
+    });
+
+    it('moves cached tokens to their new line', () => {
+      const decorate = createMarkdownDecorator();
+      decorate(['*b*']);
+
+      expect(decorate(['new', '*b*'])).toEqual([{ line: 1, start: 0, end: 3, style: theme.emphasis }]);
+    });
+  });
+});
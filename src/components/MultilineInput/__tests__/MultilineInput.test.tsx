@@ -0,0 +1,272 @@
+import React from 'react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, act } from '@testing-library/react';
+import { EventEmitter } from 'events';
+import { MultilineInput, type MultilineInputProps } from '../index.js';
+import { ESCAPE_TIMEOUT_MS } from '../KeyDecoder.js';
+
+/**
+ * Tests of the full component, driven through a fake stdin. They cover the
+ * glue in MultilineInput that sits between the key handler and the text
+ * state: paste and atomic tokens, vi edits and history search.
+ */
+
+// Fresh for each test, since keyboard negotiation is remembered per stdin
+let mockStdin = new EventEmitter();
+const mockStdout = Object.assign(new EventEmitter(), { isTTY: false, columns: 80, write: vi.fn() });
+const setRawMode = vi.fn();
+const exit = vi.fn();
+
+vi.mock('ink', async () => {
+  const actual = await vi.importActual('ink');
+  return {
+    ...actual,
+    useStdin: () => ({ stdin: mockStdin, setRawMode, internal_exitOnCtrlC: false }),
+    useStdout: () => ({ stdout: mockStdout }),
+    useApp: () => ({ exit }),
+  };
+});
+
+function send(chunk: string) {
+  act(() => {
+    mockStdin.emit('data', chunk);
+  });
+}
+
+function paste(text: string) {
+  send(`\x1b[200~${text}\x1b[201~`);
+}
+
+// A lone ESC is reported once the decoder's timeout passes
+function escape() {
+  send('\x1b');
+  act(() => {
+    vi.advanceTimersByTime(ESCAPE_TIMEOUT_MS);
+  });
+}
+
+// Pastes of two lines or more collapse to '[Pasted text #1, 2 lines]'
+const TOKEN = '[Pasted text #1, 2 lines]';
+
+function setup(props: Partial<MultilineInputProps> = {}) {
+  const onChange = vi.fn();
+  const onSubmit = vi.fn();
+  const element = (extra: Partial<MultilineInputProps>) => (
+    <MultilineInput collapsePastes={{ lines: 1 }} onChange={onChange} onSubmit={onSubmit} {...props} {...extra} />
+  );
+  const { rerender } = render(element({}));
+  return {
+    onSubmit,
+    value: () => onChange.mock.lastCall?.[0] ?? '',
+    rerender: (extra: Partial<MultilineInputProps>) => rerender(element(extra)),
+  };
+}
+
+describe('MultilineInput', () => {
+  beforeEach(() => {
+    mockStdin = new EventEmitter();
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('collapsed pastes', () => {
+    it('steps the cursor over a token as one unit', () => {
+      const input = setup();
+      paste('one\ntwo');
+      send('Z');
+      send('\x1b[D');
+      send('\x1b[D');
+      send('Q');
+      send('\x1b[C');
+      send('R');
+
+      expect(input.value()).toBe(`Q${TOKEN}RZ`);
+    });
+
+    it('deletes a token whole with Backspace and Delete', () => {
+      const input = setup();
+      paste('one\ntwo');
+      send('\x7f');
+      expect(input.value()).toBe('');
+
+      paste('one\ntwo');
+      send('\x1b[H');
+      send('\x1b[3~');
+      expect(input.value()).toBe('');
+    });
+
+    it('kills a token whole, and yanks it back whole', () => {
+      const input = setup({ ctrlY: 'yank' });
+      send('x ');
+      paste('one\ntwo');
+      send('\x17');
+      expect(input.value()).toBe('x ');
+
+      send('\x19');
+      send('\x1b[H');
+      send('\x1bd');
+      expect(input.value()).toBe(` ${TOKEN}`);
+
+      send('\r');
+      expect(input.onSubmit).toHaveBeenCalledWith(' one\ntwo');
+    });
+
+    it('kills a region that cuts into a token', () => {
+      const input = setup({ keymap: { 'ctrl+w': 'killRegion' } });
+      paste('one\ntwo');
+      send('Z');
+      send('\x1b[1;2D');
+      send('\x1b[1;2D');
+      send('\x17');
+
+      expect(input.value()).toBe('');
+    });
+
+    it('keeps the mark while stepping over a token', () => {
+      const input = setup({ keymap: { 'ctrl+w': 'killRegion', 'ctrl+space': 'setMark' } });
+      send('x');
+      paste('one\ntwo');
+      send('\x00');
+      send('\x1b[D');
+      send('\x17');
+
+      expect(input.value()).toBe('x');
+    });
+
+    it('types and yanks over a selection that cuts into a token', () => {
+      const input = setup({ ctrlY: 'yank' });
+      send('ab');
+      send('\x17');
+      paste('one\ntwo');
+      send('\x1b[1;2D');
+      send('\x19');
+      expect(input.value()).toBe('ab');
+
+      paste('one\ntwo');
+      send('\x1b[1;2D');
+      send('Q');
+      expect(input.value()).toBe('abQ');
+    });
+
+    it('types after a token when the cursor is placed inside it', () => {
+      const input = setup();
+      paste('one\ntwo');
+      input.rerender({ cursorOverride: 5 });
+      send('Q');
+      send('\r');
+
+      expect(input.onSubmit).toHaveBeenCalledWith('one\ntwoQ');
+    });
+  });
+
+  describe('atomic tokens', () => {
+    const triggers = [{ char: '@', items: [{ value: 'alice' }], atomic: true }];
+
+    it('deletes a picked token whole with Backspace', () => {
+      const input = setup({ triggers });
+      send('hi @');
+      send('\r');
+      send('\x7f');
+      expect(input.value()).toBe('hi @alice');
+
+      send('\x7f');
+      expect(input.value()).toBe('hi ');
+    });
+
+    it('deletes a token typed by hand one character at a time', () => {
+      const input = setup({ triggers });
+      send('@alice');
+      escape();
+      send('\x7f');
+
+      expect(input.value()).toBe('@alic');
+    });
+  });
+
+  describe('completion', () => {
+    it('submits with Enter after an edit while the menu waits for new results', () => {
+      // Candidates for '/h' straight away, and none yet for anything else
+      const completionProvider = (text: string) =>
+        text === '/h'
+          ? [
+              { value: '/help', start: 0, end: 2 },
+              { value: '/history', start: 0, end: 2 },
+            ]
+          : new Promise<never>(() => {});
+      const input = setup({ completionProvider });
+      send('/h');
+      send('\t');
+      send('x');
+      send('\r');
+
+      expect(input.onSubmit).toHaveBeenCalledWith('/hx');
+    });
+  });
+
+  describe('history search', () => {
+    it('adds a paste to the search query', () => {
+      const input = setup({ history: ['git commit -m "fix"', 'ls'] });
+      send('draft');
+      send('\x12');
+      paste('commit\n-m');
+      send('\r');
+
+      expect(input.value()).toBe('git commit -m "fix"');
+    });
+
+    it('runs the key that ends the search on the accepted entry', () => {
+      const input = setup({ history: ['git commit', 'ls'] });
+      send('\x12');
+      send('com');
+      // Ctrl+E accepts, then moves to the end of the entry
+      send('\x05');
+      send('!');
+
+      expect(input.value()).toBe('git commit!');
+    });
+  });
+
+  describe('vi mode', () => {
+    it('undoes a whole insert with u', () => {
+      const input = setup({ viMode: true });
+      send('a');
+      escape();
+      send('a');
+      for (const char of 'hello') {
+        send(char);
+      }
+      escape();
+      send('u');
+
+      expect(input.value()).toBe('a');
+    });
+
+    it('deletes a collapsed paste whole with x', () => {
+      const input = setup({ viMode: true });
+      send('a');
+      paste('one\ntwo');
+      send('b');
+      escape();
+      // Onto the token, which the cursor steps onto from its start
+      send('h');
+      send('x');
+
+      expect(input.value()).toBe('ab');
+    });
+
+    it('deletes a picked atomic token whole with x', () => {
+      const input = setup({ viMode: true, triggers: [{ char: '@', items: [{ value: 'alice' }], atomic: true }] });
+      send('@');
+      send('\r');
+      escape();
+      // Onto the token, before the space after it
+      send('hh');
+      send('x');
+
+      expect(input.value()).toBe(' ');
+    });
+  });
+});
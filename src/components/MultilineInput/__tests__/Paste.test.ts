@@ -0,0 +1,187 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createPasteState,
+  parsePasteChunk,
+  shouldCollapsePaste,
+  formatPasteToken,
+  expandPasteTokens,
+  findPasteAt,
+  expandToPasteTokens,
+  findPasteTokens,
+  keepRangesWhole,
+  type PasteState,
+} from '../Paste.js';
+import {
+  createBuffer,
+  getCursor,
+  getOffset,
+  deleteCharForward,
+  deleteWordBackward,
+  isDefaultWordChar,
+} from '../TextBuffer.js';
+
+// Feed chunks in order, collecting the events of each
+function feed(chunks: string[], state: PasteState = createPasteState()) {
+  return chunks.map((chunk) => {
+    const result = parsePasteChunk(state, chunk);
+    state = result.state;
+    return result;
+  });
+}
+
+describe('Paste', () => {
+  describe('parsePasteChunk', () => {
+    it('leaves ordinary input to the key handler', () => {
+      const state = createPasteState();
+      expect(parsePasteChunk(state, 'a')).toEqual({ state, events: [], handled: false });
+      expect(parsePasteChunk(state, '\x1b[A').handled).toBe(false);
+    });
+
+    it('reports a paste within one chunk', () => {
+      const result = parsePasteChunk(createPasteState(), '\x1b[200~hello\rworld\x1b[201~');
+      expect(result.events).toEqual([{ type: 'paste', text: 'hello\nworld' }]);
+      expect(result.state).toEqual(createPasteState());
+      expect(result.handled).toBe(true);
+    });
+
+    it('joins a paste split across chunks', () => {
+      const results = feed(['\x1b[200~first\r\n', 'second', '\rthird\x1b[201~']);
+
+      expect(results.map((result) => result.handled)).toEqual([true, true, true]);
+      expect(results.flatMap((result) => result.events)).toEqual([
+        { type: 'paste', text: 'first\nsecond\nthird' },
+      ]);
+    });
+
+    it('finds an end marker split across chunks', () => {
+      const results = feed(['\x1b[200~text\x1b[20', '1~']);
+      expect(results[0].events).toEqual([]);
+      expect(results[1].events).toEqual([{ type: 'paste', text: 'text' }]);
+    });
+
+    it('keeps input around a paste in order', () => {
+      const result = parsePasteChunk(createPasteState(), 'a\x1b[200~b\x1b[201~c');
+      expect(result.events).toEqual([
+        { type: 'input', text: 'a' },
+        { type: 'paste', text: 'b' },
+        { type: 'input', text: 'c' },
+      ]);
+    });
+
+    it('reports an empty paste', () => {
+      expect(parsePasteChunk(createPasteState(), '\x1b[200~\x1b[201~').events).toEqual([{ type: 'paste', text: '' }]);
+    });
+  });
+
+  describe('collapsed pastes', () => {
+    const lines = Array.from({ length: 20 }, (_, i) => `line ${i}`).join('\n');
+    const first = { token: '[Pasted text #1, 20 lines]', text: lines };
+    const second = { token: '[Pasted text #2, 3 lines]', text: 'a\nb\nc' };
+
+    it('collapses pastes over the line or character limit', () => {
+      expect(shouldCollapsePaste(lines)).toBe(true);
+      expect(shouldCollapsePaste('x'.repeat(1001))).toBe(true);
+      expect(shouldCollapsePaste('a\nb\nc')).toBe(false);
+      expect(shouldCollapsePaste('a\nb\nc', { lines: 2 })).toBe(true);
+    });
+
+    it('describes a paste by its lines or length', () => {
+      expect(formatPasteToken(1, lines)).toBe(first.token);
+      expect(formatPasteToken(2, 'x'.repeat(5000))).toBe('[Pasted text #2, 5000 chars]');
+    });
+
+    it('expands tokens to their text', () => {
+      expect(expandPasteTokens(`see ${first.token} and ${second.token}`, [first, second])).toBe(
+        `see ${lines} and a\nb\nc`
+      );
+    });
+
+    it('leaves token-like text inside a paste alone', () => {
+      const quoting = { token: '[Pasted text #2, 1 chars]', text: first.token };
+      expect(expandPasteTokens(quoting.token, [first, quoting])).toBe(first.token);
+    });
+
+    it('finds a token around the offset', () => {
+      const value = `x ${second.token} y`;
+      expect(findPasteAt(value, 2, [second])).toEqual({ paste: second, start: 2, end: 27, expanded: false });
+      expect(findPasteAt(value, 27, [second])?.start).toBe(2);
+      expect(findPasteAt(value, 1, [second])).toBeUndefined();
+      expect(findPasteAt(value, 28, [second])).toBeUndefined();
+    });
+
+    it('finds expanded text around the offset', () => {
+      expect(findPasteAt('x a\nb\nc', 6, [second])).toEqual({ paste: second, start: 2, end: 7, expanded: true });
+      expect(findPasteAt('x a\nB\nc', 6, [second])).toBeUndefined();
+    });
+
+    describe('expandToPasteTokens', () => {
+      // The token spans offsets 2 to 27
+      const value = `x ${second.token} y`;
+
+      it('widens a forward delete at the start of a token', () => {
+        const buffer = createBuffer(value);
+        const result = deleteCharForward(buffer, getCursor(buffer, 2));
+        const start = getOffset(result.buffer, result.cursor);
+
+        expect(expandToPasteTokens(value, start, start + 1, [second])).toEqual({ start: 2, end: 27 });
+      });
+
+      it('widens a word kill that ends at a token', () => {
+        const buffer = createBuffer(value);
+        const result = deleteWordBackward(buffer, getCursor(buffer, 27), isDefaultWordChar);
+        const start = getOffset(result.buffer, result.cursor);
+
+        expect(start).toBeGreaterThan(2);
+        expect(expandToPasteTokens(value, start, 27, [second])).toEqual({ start: 2, end: 27 });
+      });
+
+      it('widens a region that cuts into a token', () => {
+        expect(expandToPasteTokens(value, 0, 10, [second])).toEqual({ start: 0, end: 27 });
+        expect(expandToPasteTokens(value, 20, 29, [second])).toEqual({ start: 2, end: 29 });
+      });
+
+      it('widens an insertion point inside a token', () => {
+        expect(expandToPasteTokens(value, 10, 10, [second])).toEqual({ start: 2, end: 27 });
+      });
+
+      it('leaves ranges that do not cut into a token alone', () => {
+        expect(expandToPasteTokens(value, 2, 2, [second])).toEqual({ start: 2, end: 2 });
+        expect(expandToPasteTokens(value, 27, 27, [second])).toEqual({ start: 27, end: 27 });
+        expect(expandToPasteTokens(value, 0, 27, [second])).toEqual({ start: 0, end: 27 });
+        expect(expandToPasteTokens(value, 27, 29, [second])).toEqual({ start: 27, end: 29 });
+      });
+
+      it('widens to every token the range cuts into', () => {
+        const both = `${first.token}${second.token}`;
+        expect(expandToPasteTokens(both, 20, 30, [first, second])).toEqual({ start: 0, end: both.length });
+      });
+    });
+
+    describe('keepRangesWhole', () => {
+      const value = `x ${second.token} y`;
+      const ranges = findPasteTokens(value, [second]);
+
+      it('finds every occurrence of a token', () => {
+        expect(findPasteTokens(`${second.token}${second.token}`, [second])).toEqual([
+          { start: 0, end: 25 },
+          { start: 25, end: 50 },
+        ]);
+      });
+
+      it('removes the whole token when an edit deletes inside it', () => {
+        // vi 'x' on the 'P'
+        const after = value.slice(0, 3) + value.slice(4);
+        expect(keepRangesWhole(value, after, 3, ranges)).toEqual({ value: 'x  y', cursorOffset: 2 });
+      });
+
+      it('moves text inserted inside a token after it', () => {
+        const after = value.slice(0, 10) + 'zz' + value.slice(10);
+        expect(keepRangesWhole(value, after, 12, ranges)).toEqual({ value: `x ${second.token}zz y`, cursorOffset: 29 });
+      });
+
+      it('leaves edits outside tokens alone', () => {
+        expect(keepRangesWhole(value, value.slice(0, -1), 28, ranges)).toEqual({ value: value.slice(0, -1), cursorOffset: 28 });
+      });
+    });
+  });
+});
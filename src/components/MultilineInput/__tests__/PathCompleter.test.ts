@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, symlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createPathCompleter, findPathToken, escapePath } from '../PathCompleter.js';
+import type { CompletionCandidate } from '../Completion.js';
+
+function values(candidates: CompletionCandidate[] | Promise<CompletionCandidate[]>): string[] {
+  return (candidates as CompletionCandidate[]).map((candidate) => candidate.value);
+}
+
+describe('PathCompleter', () => {
+  describe('findPathToken', () => {
+    it('finds the token before the cursor', () => {
+      expect(findPathToken('open src/ma', 11)).toEqual({ start: 5, end: 11, raw: 'src/ma', path: 'src/ma' });
+    });
+
+    it('returns an empty token after whitespace', () => {
+      expect(findPathToken('open ', 5)).toMatchObject({ start: 5, raw: '' });
+    });
+
+    it('keeps escaped spaces in the token', () => {
+      expect(findPathToken('cat my\\ fi', 10)).toEqual({ start: 4, end: 10, raw: 'my\\ fi', path: 'my fi' });
+    });
+
+    it('stops at a space after an escaped backslash', () => {
+      expect(findPathToken('a\\\\ b', 5)).toMatchObject({ start: 4, raw: 'b' });
+    });
+
+    it('stops at newlines', () => {
+      expect(findPathToken('first\nsecond', 12)).toMatchObject({ start: 6, raw: 'second' });
+    });
+  });
+
+  describe('escapePath', () => {
+    it('escapes spaces and backslashes', () => {
+      expect(escapePath('my file\\x')).toBe('my\\ file\\\\x');
+    });
+  });
+
+  describe('createPathCompleter', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'ink-prompt-paths-'));
+      mkdirSync(join(dir, 'src'));
+      mkdirSync(join(dir, 'src', 'components'));
+      writeFileSync(join(dir, 'src', 'index.ts'), '');
+      writeFileSync(join(dir, 'src', 'main.js'), '');
+      writeFileSync(join(dir, 'README.md'), '');
+      writeFileSync(join(dir, 'my notes.txt'), '');
+      writeFileSync(join(dir, '.env'), '');
+      mkdirSync(join(dir, '.config'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('lists matching entries with the replacement range', () => {
+      const complete = createPathCompleter({ cwd: dir });
+      expect(complete('edit src/m', 10)).toEqual([{ value: 'src/main.js', label: 'main.js', start: 5, end: 10 }]);
+    });
+
+    it('appends a slash to directories', () => {
+      const complete = createPathCompleter({ cwd: dir });
+      expect(values(complete('sr', 2))).toEqual(['src/']);
+      expect(values(complete('src/', 4))).toEqual(['src/components/', 'src/index.ts', 'src/main.js']);
+    });
+
+    it('hides dotfiles unless asked or typed', () => {
+      expect(values(createPathCompleter({ cwd: dir })('', 0))).toEqual(['README.md', 'my\\ notes.txt', 'src/']);
+      expect(values(createPathCompleter({ cwd: dir })('.', 1))).toEqual(['.config/', '.env']);
+      expect(values(createPathCompleter({ cwd: dir, showHidden: true })('', 0))).toContain('.env');
+    });
+
+    it('escapes spaces in names', () => {
+      const complete = createPathCompleter({ cwd: dir });
+      expect(values(complete('my', 2))).toEqual(['my\\ notes.txt']);
+    });
+
+    it('completes tokens that contain escaped spaces', () => {
+      const complete = createPathCompleter({ cwd: dir });
+      expect(values(complete('my\\ n', 5))).toEqual(['my\\ notes.txt']);
+    });
+
+    it('filters by extension but keeps directories', () => {
+      const complete = createPathCompleter({ cwd: dir, extensions: ['.ts'] });
+      expect(values(complete('src/', 4))).toEqual(['src/components/', 'src/index.ts']);
+    });
+
+    it('offers only directories when asked', () => {
+      const complete = createPathCompleter({ cwd: dir, directoriesOnly: true });
+      expect(values(complete('src/', 4))).toEqual(['src/components/']);
+    });
+
+    it('treats symlinks to directories as directories', () => {
+      symlinkSync(join(dir, 'src'), join(dir, 'link'));
+      const complete = createPathCompleter({ cwd: dir });
+      expect(values(complete('li', 2))).toEqual(['link/']);
+    });
+
+    it('resolves ~ against the home directory', () => {
+      const complete = createPathCompleter({ cwd: '/', homeDir: dir });
+      expect(values(complete('~/sr', 4))).toEqual(['~/src/']);
+      expect(values(complete('~', 1))).toContain('~/README.md');
+    });
+
+    it('expands ~ in the inserted path when asked', () => {
+      const complete = createPathCompleter({ cwd: '/', homeDir: dir, expandTilde: true });
+      expect(values(complete('~/sr', 4))).toEqual([`${escapePath(dir)}/src/`]);
+    });
+
+    it('completes absolute paths', () => {
+      const complete = createPathCompleter();
+      expect(values(complete(`${dir}/READ`, dir.length + 5))).toEqual([`${escapePath(dir)}/README.md`]);
+    });
+
+    it('returns nothing for a missing directory', () => {
+      const complete = createPathCompleter({ cwd: dir });
+      expect(complete('nope/x', 6)).toEqual([]);
+    });
+  });
+});
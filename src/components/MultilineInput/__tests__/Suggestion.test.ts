@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { createHistorySuggester, getSuggestionWord } from '../Suggestion.js';
+
+describe('Suggestion', () => {
+  describe('createHistorySuggester', () => {
+    const suggest = createHistorySuggester(['git status', 'git commit', 'ls']);
+
+    it('suggests the rest of the newest matching entry', () => {
+      expect(suggest('git')).toBe(' commit');
+      expect(suggest('git s')).toBe('tatus');
+    });
+
+    it('suggests nothing for empty text, exact matches or no match', () => {
+      expect(suggest('')).toBeUndefined();
+      expect(suggest('ls')).toBeUndefined();
+      expect(suggest('npm')).toBeUndefined();
+    });
+  });
+
+  describe('getSuggestionWord', () => {
+    it('takes leading separators and one word', () => {
+      expect(getSuggestionWord(' status --short')).toBe(' status');
+      expect(getSuggestionWord('atus --short')).toBe('atus');
+      expect(getSuggestionWord(' --short')).toBe(' --short');
+    });
+
+    it('takes everything when there is no word break', () => {
+      expect(getSuggestionWord('word')).toBe('word');
+    });
+
+    it('uses the given word definition', () => {
+      expect(getSuggestionWord('foo-bar baz', (c) => /[\w-]/.test(c))).toBe('foo-bar');
+    });
+  });
+});
@@ -1,4 +1,6 @@
 import { describe, it, expect } from 'vitest';
+import { hangingIndentWrap, characterWrap } from '../Wrap.js';
+import { getVisualRows } from '../Layout.js';
 import {
   createBuffer,
   insertText,
@@ -6,8 +8,22 @@ import {
   deleteCharForward,
   insertNewLine,
   moveCursor,
+  moveCursorRows,
   getTextContent,
-  getVisualRows,
+  compareCursors,
+  getSelectionRange,
+  getTextInRange,
+  deleteRange,
+  findWordStart,
+  findWordEnd,
+  deleteWordBackward,
+  deleteWordForward,
+  killRange,
+  killToLineEnd,
+  killToLineStart,
+  transposeChars,
+  transposeWords,
+  changeWordCase,
 } from '../TextBuffer.js';
 import type { Buffer, Cursor } from '../types.js';
 
@@ -660,4 +676,352 @@ describe('TextBuffer', () => {
       });
     });
   });
+
+  describe('grapheme and wide character handling', () => {
+    it('deletes a whole surrogate pair on backspace', () => {
+      const buffer = createBuffer('a😀');
+      const result = deleteChar(buffer, { line: 0, column: 3 });
+      expect(result.buffer.lines).toEqual(['a']);
+      expect(result.cursor).toEqual({ line: 0, column: 1 });
+    });
+
+    it('deletes a base character together with its combining mark', () => {
+      const buffer = createBuffer('xe\u0301');
+      const result = deleteChar(buffer, { line: 0, column: 3 });
+      expect(result.buffer.lines).toEqual(['x']);
+      expect(result.cursor).toEqual({ line: 0, column: 1 });
+    });
+
+    it('forward-deletes a whole ZWJ emoji sequence', () => {
+      const buffer = createBuffer('👨\u200D👩\u200D👧!');
+      const result = deleteCharForward(buffer, { line: 0, column: 0 });
+      expect(result.buffer.lines).toEqual(['!']);
+      expect(result.cursor).toEqual({ line: 0, column: 0 });
+    });
+
+    it('moves right over a surrogate pair in one step', () => {
+      const buffer = createBuffer('😀a');
+      expect(moveCursor(buffer, { line: 0, column: 0 }, 'right')).toEqual({ line: 0, column: 2 });
+    });
+
+    it('moves left over a combining sequence in one step', () => {
+      const buffer = createBuffer('ae\u0301');
+      expect(moveCursor(buffer, { line: 0, column: 3 }, 'left')).toEqual({ line: 0, column: 1 });
+    });
+
+    it('wraps CJK text by display width', () => {
+      // Each character is two cells wide, so width 5 fits two characters
+      const rows = getVisualRows('日本語テキスト', 5);
+      expect(rows).toEqual([
+        { start: 0, length: 2 },
+        { start: 2, length: 2 },
+        { start: 4, length: 2 },
+        { start: 6, length: 1 },
+      ]);
+    });
+
+    it('never splits an emoji across rows', () => {
+      const rows = getVisualRows('ab😀cd', 3);
+      expect(rows).toEqual([
+        { start: 0, length: 2 },
+        { start: 2, length: 3 },
+        { start: 5, length: 1 },
+      ]);
+    });
+
+    it('makes progress when a wide character exceeds the width', () => {
+      const rows = getVisualRows('日本', 1);
+      expect(rows).toEqual([
+        { start: 0, length: 1 },
+        { start: 1, length: 1 },
+      ]);
+    });
+
+    it('keeps display column when moving up/down between buffer lines', () => {
+      // Cursor after two wide characters is at display column 4
+      const buffer = createBuffer('日本語\nabcdef');
+      expect(moveCursor(buffer, { line: 0, column: 2 }, 'down')).toEqual({ line: 1, column: 4 });
+      expect(moveCursor(buffer, { line: 1, column: 4 }, 'up')).toEqual({ line: 0, column: 2 });
+    });
+
+    it('does not land inside a wide character when moving vertically', () => {
+      // Display column 3 falls in the middle of '本'
+      const buffer = createBuffer('abc\n日本語');
+      expect(moveCursor(buffer, { line: 0, column: 3 }, 'down')).toEqual({ line: 1, column: 1 });
+    });
+
+    it('keeps display column when moving between wrapped rows', () => {
+      // Width 4: ["日本", "語a"]
+      const buffer = createBuffer('日本語a');
+      expect(moveCursor(buffer, { line: 0, column: 1 }, 'down', 4)).toEqual({ line: 0, column: 3 });
+      expect(moveCursor(buffer, { line: 0, column: 4 }, 'up', 4)).toEqual({ line: 0, column: 1 });
+    });
+  });
+
+  describe('ranges and selection', () => {
+    it('compares cursor positions', () => {
+      expect(compareCursors({ line: 0, column: 3 }, { line: 1, column: 0 })).toBeLessThan(0);
+      expect(compareCursors({ line: 1, column: 2 }, { line: 1, column: 1 })).toBeGreaterThan(0);
+      expect(compareCursors({ line: 1, column: 1 }, { line: 1, column: 1 })).toBe(0);
+    });
+
+    it('orders a backwards selection', () => {
+      const range = getSelectionRange({
+        anchor: { line: 1, column: 2 },
+        head: { line: 0, column: 4 },
+      });
+      expect(range).toEqual({ start: { line: 0, column: 4 }, end: { line: 1, column: 2 } });
+    });
+
+    it('gets text within a single line', () => {
+      const buffer = createBuffer('hello world');
+      expect(getTextInRange(buffer, { line: 0, column: 6 }, { line: 0, column: 11 })).toBe('world');
+    });
+
+    it('gets text spanning multiple lines', () => {
+      const buffer = createBuffer('one\ntwo\nthree');
+      expect(getTextInRange(buffer, { line: 0, column: 1 }, { line: 2, column: 2 })).toBe('ne\ntwo\nth');
+    });
+
+    it('deletes a range within a line', () => {
+      const buffer = createBuffer('hello world');
+      const result = deleteRange(buffer, { line: 0, column: 5 }, { line: 0, column: 11 });
+      expect(result.buffer.lines).toEqual(['hello']);
+      expect(result.cursor).toEqual({ line: 0, column: 5 });
+    });
+
+    it('deletes a range spanning lines and joins the remainder', () => {
+      const buffer = createBuffer('one\ntwo\nthree');
+      const result = deleteRange(buffer, { line: 0, column: 2 }, { line: 2, column: 3 });
+      expect(result.buffer.lines).toEqual(['onee']);
+      expect(result.cursor).toEqual({ line: 0, column: 2 });
+    });
+  });
+
+  describe('word motions', () => {
+    it('finds the start of the current word', () => {
+      const buffer = createBuffer('hello world');
+      expect(findWordStart(buffer, { line: 0, column: 9 })).toEqual({ line: 0, column: 6 });
+    });
+
+    it('skips separators before finding the previous word', () => {
+      const buffer = createBuffer('foo, bar');
+      expect(findWordStart(buffer, { line: 0, column: 5 })).toEqual({ line: 0, column: 0 });
+    });
+
+    it('crosses line breaks backwards', () => {
+      const buffer = createBuffer('one two\n  three');
+      expect(findWordStart(buffer, { line: 1, column: 2 })).toEqual({ line: 0, column: 4 });
+    });
+
+    it('finds the end of the next word', () => {
+      const buffer = createBuffer('hello world');
+      expect(findWordEnd(buffer, { line: 0, column: 5 })).toEqual({ line: 0, column: 11 });
+    });
+
+    it('crosses line breaks forwards', () => {
+      const buffer = createBuffer('one\n  two');
+      expect(findWordEnd(buffer, { line: 0, column: 3 })).toEqual({ line: 1, column: 5 });
+    });
+
+    it('stays put at buffer edges', () => {
+      const buffer = createBuffer('word');
+      expect(findWordStart(buffer, { line: 0, column: 0 })).toEqual({ line: 0, column: 0 });
+      expect(findWordEnd(buffer, { line: 0, column: 4 })).toEqual({ line: 0, column: 4 });
+    });
+
+    it('treats non-Latin letters as word characters', () => {
+      const buffer = createBuffer('日本語 テキスト');
+      expect(findWordStart(buffer, { line: 0, column: 8 })).toEqual({ line: 0, column: 4 });
+    });
+
+    it('accepts a custom word character definition', () => {
+      const buffer = createBuffer('path/to-file');
+      const isWordChar = (char: string) => char !== '/';
+      expect(findWordStart(buffer, { line: 0, column: 12 }, isWordChar)).toEqual({ line: 0, column: 5 });
+    });
+
+    it('moves by words through moveCursor', () => {
+      const buffer = createBuffer('alpha beta');
+      expect(moveCursor(buffer, { line: 0, column: 10 }, 'wordLeft')).toEqual({ line: 0, column: 6 });
+      expect(moveCursor(buffer, { line: 0, column: 0 }, 'wordRight')).toEqual({ line: 0, column: 5 });
+    });
+  });
+
+  describe('word deletion', () => {
+    it('deletes the previous word', () => {
+      const buffer = createBuffer('git commit -m');
+      const result = deleteWordBackward(buffer, { line: 0, column: 10 });
+      expect(result.buffer.lines).toEqual(['git  -m']);
+      expect(result.cursor).toEqual({ line: 0, column: 4 });
+    });
+
+    it('deletes the next word', () => {
+      const buffer = createBuffer('git commit -m');
+      const result = deleteWordForward(buffer, { line: 0, column: 3 });
+      expect(result.buffer.lines).toEqual(['git -m']);
+      expect(result.cursor).toEqual({ line: 0, column: 3 });
+    });
+
+    it('joins lines when deleting a word across a line break', () => {
+      const buffer = createBuffer('one\ntwo');
+      const result = deleteWordBackward(buffer, { line: 1, column: 0 });
+      expect(result.buffer.lines).toEqual(['two']);
+      expect(result.cursor).toEqual({ line: 0, column: 0 });
+    });
+
+    it('returns the same buffer when there is nothing to delete', () => {
+      const buffer = createBuffer('abc');
+      const result = deleteWordForward(buffer, { line: 0, column: 3 });
+      expect(result.buffer).toBe(buffer);
+    });
+  });
+
+  describe('kill operations', () => {
+    it('kills a range and returns the removed text', () => {
+      const buffer = createBuffer('hello world');
+      const result = killRange(buffer, { line: 0, column: 11 }, { line: 0, column: 5 });
+      expect(result.killed).toBe(' world');
+      expect(result.buffer.lines).toEqual(['hello']);
+      expect(result.cursor).toEqual({ line: 0, column: 5 });
+    });
+
+    it('kills to end of line', () => {
+      const buffer = createBuffer('hello world\nnext');
+      const result = killToLineEnd(buffer, { line: 0, column: 5 });
+      expect(result.killed).toBe(' world');
+      expect(result.buffer.lines).toEqual(['hello', 'next']);
+    });
+
+    it('kills the line break when already at end of line', () => {
+      const buffer = createBuffer('hello\nnext');
+      const result = killToLineEnd(buffer, { line: 0, column: 5 });
+      expect(result.killed).toBe('\n');
+      expect(result.buffer.lines).toEqual(['hellonext']);
+    });
+
+    it('kills to start of line', () => {
+      const buffer = createBuffer('first\nhello world');
+      const result = killToLineStart(buffer, { line: 1, column: 6 });
+      expect(result.killed).toBe('hello ');
+      expect(result.buffer.lines).toEqual(['first', 'world']);
+      expect(result.cursor).toEqual({ line: 1, column: 0 });
+    });
+
+    it('kills the preceding line break when at start of line', () => {
+      const buffer = createBuffer('first\nsecond');
+      const result = killToLineStart(buffer, { line: 1, column: 0 });
+      expect(result.killed).toBe('\n');
+      expect(result.cursor).toEqual({ line: 0, column: 5 });
+    });
+
+    it('kills nothing at buffer edges', () => {
+      const buffer = createBuffer('abc');
+      expect(killToLineEnd(buffer, { line: 0, column: 3 }).killed).toBe('');
+      expect(killToLineStart(buffer, { line: 0, column: 0 }).killed).toBe('');
+    });
+
+    it('returns killed text from word deletions', () => {
+      const buffer = createBuffer('alpha beta');
+      expect(deleteWordBackward(buffer, { line: 0, column: 10 }).killed).toBe('beta');
+    });
+  });
+
+  describe('transposition', () => {
+    it('swaps the characters around the cursor and moves forward', () => {
+      const result = transposeChars({ lines: ['abcd'] }, { line: 0, column: 2 });
+      expect(result.buffer.lines).toEqual(['acbd']);
+      expect(result.cursor).toEqual({ line: 0, column: 3 });
+    });
+
+    it('swaps the last two characters at the end of a line', () => {
+      const result = transposeChars({ lines: ['abcd'] }, { line: 0, column: 4 });
+      expect(result.buffer.lines).toEqual(['abdc']);
+      expect(result.cursor).toEqual({ line: 0, column: 4 });
+    });
+
+    it('does nothing at the start of a line', () => {
+      const buffer = { lines: ['abcd'] };
+      expect(transposeChars(buffer, { line: 0, column: 0 }).buffer).toBe(buffer);
+    });
+
+    it('swaps grapheme clusters whole', () => {
+      const result = transposeChars({ lines: ['a😀b'] }, { line: 0, column: 3 });
+      expect(result.buffer.lines).toEqual(['ab😀']);
+    });
+
+    it('swaps the words around the cursor', () => {
+      const result = transposeWords({ lines: ['foo bar baz'] }, { line: 0, column: 4 });
+      expect(result.buffer.lines).toEqual(['bar foo baz']);
+      expect(result.cursor).toEqual({ line: 0, column: 7 });
+    });
+
+    it('swaps the last two words at the end of the text', () => {
+      const result = transposeWords({ lines: ['foo bar'] }, { line: 0, column: 7 });
+      expect(result.buffer.lines).toEqual(['bar foo']);
+    });
+
+    it('does nothing with a single word', () => {
+      const buffer = { lines: ['foo'] };
+      expect(transposeWords(buffer, { line: 0, column: 1 }).buffer).toBe(buffer);
+    });
+  });
+
+  describe('changeWordCase', () => {
+    it('upper-cases to the end of the word', () => {
+      const result = changeWordCase({ lines: ['hello world'] }, { line: 0, column: 2 }, 'upper');
+      expect(result.buffer.lines).toEqual(['heLLO world']);
+      expect(result.cursor).toEqual({ line: 0, column: 5 });
+    });
+
+    it('lower-cases the next word', () => {
+      const result = changeWordCase({ lines: ['HELLO WORLD'] }, { line: 0, column: 5 }, 'lower');
+      expect(result.buffer.lines).toEqual(['HELLO world']);
+    });
+
+    it('capitalizes the next word', () => {
+      const result = changeWordCase({ lines: ['  hELLO'] }, { line: 0, column: 0 }, 'capitalize');
+      expect(result.buffer.lines).toEqual(['  Hello']);
+      expect(result.cursor).toEqual({ line: 0, column: 7 });
+    });
+  });
+
+  describe('moveCursorRows', () => {
+    const buffer = { lines: ['aaaa', 'bb', 'cccccccc', 'dddd'] };
+
+    it('moves down by the given number of rows', () => {
+      // Like repeated Down presses, the column is clamped by the shorter line on the way
+      expect(moveCursorRows(buffer, { line: 0, column: 3 }, 2)).toEqual({ line: 2, column: 2 });
+    });
+
+    it('counts wrapped rows when given a width', () => {
+      expect(moveCursorRows(buffer, { line: 3, column: 1 }, -2, 4)).toEqual({ line: 2, column: 1 });
+    });
+
+    it('stops at the first and last row', () => {
+      expect(moveCursorRows(buffer, { line: 1, column: 1 }, -10)).toEqual({ line: 0, column: 1 });
+      expect(moveCursorRows(buffer, { line: 2, column: 0 }, 10)).toEqual({ line: 3, column: 0 });
+    });
+  });
+
+  describe('wrap strategies', () => {
+    it('never moves up onto the end of a row that belongs to the next one', () => {
+      const buffer = { lines: ['aaa bbbbb'] };
+      expect(moveCursor(buffer, { line: 0, column: 8 }, 'up', 5)).toEqual({ line: 0, column: 3 });
+    });
+
+    it('follows character-wrapped rows', () => {
+      const buffer = { lines: ['ab cd ef'] };
+      expect(moveCursor(buffer, { line: 0, column: 1 }, 'down', 4, undefined, characterWrap)).toEqual({ line: 0, column: 5 });
+    });
+
+    it('accounts for the hanging indent when moving between rows', () => {
+      // Rows: '- item ' / '  one two ' / '  three'
+      const buffer = { lines: ['- item one two three'] };
+      expect(moveCursor(buffer, { line: 0, column: 9 }, 'up', 10, undefined, hangingIndentWrap)).toEqual({ line: 0, column: 4 });
+      expect(moveCursor(buffer, { line: 0, column: 4 }, 'down', 10, undefined, hangingIndentWrap)).toEqual({ line: 0, column: 9 });
+      // Columns inside the indent land at the start of the row's text
+      expect(moveCursor(buffer, { line: 0, column: 1 }, 'down', 10, undefined, hangingIndentWrap)).toEqual({ line: 0, column: 7 });
+    });
+  });
 });
@@ -1,7 +1,10 @@
 import React from 'react';
 import { describe, it, expect } from 'vitest';
 import { render } from '@testing-library/react';
-import { TextRenderer, wrapLines } from '../TextRenderer.js';
+import { Text } from 'ink';
+import { TextRenderer, wrapLines, clipLines, getViewportStart, getHorizontalScroll } from '../TextRenderer.js';
+import { getVisualRows } from '../Layout.js';
+import { hangingIndentWrap } from '../Wrap.js';
 import type { Buffer, Cursor } from '../types.js';
 
 describe('wrapLines', () => {
@@ -259,4 +262,448 @@ describe('TextRenderer', () => {
       expect(container.textContent).toContain('fghij');
     });
   });
+
+  describe('wide characters in render', () => {
+    it('highlights a whole emoji under the cursor', () => {
+      const buffer: Buffer = { lines: ['a😀b'] };
+      const cursor: Cursor = { line: 0, column: 1 };
+
+      const { container } = render(
+        <TextRenderer buffer={buffer} cursor={cursor} width={80} />
+      );
+
+      expect(container.textContent).toBe('a😀b');
+    });
+  });
+});
+
+describe('wrapLines with wide characters', () => {
+  it('wraps CJK text by display width', () => {
+    const buffer: Buffer = { lines: ['日本語テキスト'] };
+    const cursor: Cursor = { line: 0, column: 0 };
+    const result = wrapLines(buffer, cursor, 5);
+
+    expect(result.visualLines).toEqual(['日本', '語テ', 'キス', 'ト']);
+  });
+
+  it('keeps emoji intact at wrap point', () => {
+    const buffer: Buffer = { lines: ['ab😀cd'] };
+    const cursor: Cursor = { line: 0, column: 4 };
+    const result = wrapLines(buffer, cursor, 3);
+
+    expect(result.visualLines).toEqual(['ab', '😀c', 'd']);
+    expect(result.cursorVisualRow).toBe(1);
+    expect(result.cursorVisualCol).toBe(2);
+  });
+
+  it('agrees with getVisualRows on row boundaries', () => {
+    const line = 'こんにちは world 😀😀 end';
+    const result = wrapLines({ lines: [line] }, { line: 0, column: 0 }, 7);
+    const rows = getVisualRows(line, 7);
+
+    expect(result.visualLines).toEqual(rows.map((row) => line.slice(row.start, row.start + row.length)));
+  });
+
+describe('TextRenderer selection', () => {
+  it('renders selected text alongside the cursor', () => {
+    const buffer: Buffer = { lines: ['hello world'] };
+    const cursor: Cursor = { line: 0, column: 5 };
+
+    const { container } = render(
+      <TextRenderer
+        buffer={buffer}
+        cursor={cursor}
+        width={80}
+        selection={{ anchor: { line: 0, column: 0 }, head: cursor }}
+      />
+    );
+
+    expect(container.textContent).toBe('hello world');
+  });
+
+  it('marks a selected line break with a trailing cell', () => {
+    const buffer: Buffer = { lines: ['ab', 'cd'] };
+    const cursor: Cursor = { line: 1, column: 1 };
+
+    const { container } = render(
+      <TextRenderer
+        buffer={buffer}
+        cursor={cursor}
+        width={80}
+        selection={{ anchor: { line: 0, column: 1 }, head: cursor }}
+      />
+    );
+
+    expect(container.textContent).toBe('ab cd');
+  });
+
+  it('reports the buffer position of each visual line', () => {
+    const buffer: Buffer = { lines: ['abcdefg', ''] };
+    const result = wrapLines(buffer, { line: 0, column: 0 }, 3);
+
+    expect(result.visualLineStarts).toEqual([
+      { line: 0, column: 0 },
+      { line: 0, column: 3 },
+      { line: 0, column: 6 },
+      { line: 1, column: 0 },
+    ]);
+  });
+});
+});
+
+describe('TextRenderer menu', () => {
+  it('renders the menu below the cursor row', () => {
+    const buffer: Buffer = { lines: ['ab', 'cd'] };
+    const cursor: Cursor = { line: 0, column: 2 };
+
+    const { container } = render(
+      <TextRenderer buffer={buffer} cursor={cursor} width={80} showCursor={false} menu={<Text>MENU</Text>} />
+    );
+
+    expect(container.textContent).toBe('abMENUcd');
+  });
+
+  it('renders the menu below the wrapped row holding the cursor', () => {
+    const buffer: Buffer = { lines: ['abcdef'] };
+    const cursor: Cursor = { line: 0, column: 4 };
+
+    const { container } = render(
+      <TextRenderer buffer={buffer} cursor={cursor} width={3} showCursor={false} menu={<Text>MENU</Text>} />
+    );
+
+    expect(container.textContent).toBe('abcdefMENU');
+  });
+});
+
+describe('TextRenderer suggestion', () => {
+  it('renders the suggestion after the cursor at the end of the text', () => {
+    const buffer: Buffer = { lines: ['git'] };
+    const cursor: Cursor = { line: 0, column: 3 };
+
+    const { container } = render(<TextRenderer buffer={buffer} cursor={cursor} width={80} suggestion=" status" />);
+
+    expect(container.textContent).toBe('git status');
+  });
+
+  it('does not render the suggestion when the cursor is not at the end', () => {
+    const buffer: Buffer = { lines: ['git'] };
+    const cursor: Cursor = { line: 0, column: 1 };
+
+    const { container } = render(
+      <TextRenderer buffer={buffer} cursor={cursor} width={80} showCursor={false} suggestion=" status" />
+    );
+
+    expect(container.textContent).toBe('git');
+  });
+
+  it('wraps the suggestion with the text', () => {
+    const buffer: Buffer = { lines: ['abc'] };
+    const cursor: Cursor = { line: 0, column: 3 };
+
+    // The menu follows the cursor row, showing where the wrapped rows split
+    const { container } = render(
+      <TextRenderer
+        buffer={buffer}
+        cursor={cursor}
+        width={4}
+        showCursor={false}
+        suggestion="defgh"
+        menu={<Text>|</Text>}
+      />
+    );
+
+    expect(container.textContent).toBe('abcd|efgh');
+  });
+});
+
+describe('TextRenderer decorations', () => {
+  // Each styled segment is its own Text element
+  const segments = (container: HTMLElement) =>
+    Array.from(container.querySelectorAll('ink-text')).map((element) => element.textContent);
+
+  it('leaves the rendered text unchanged', () => {
+    const buffer: Buffer = { lines: ['/help me', '@bob'] };
+    const cursor: Cursor = { line: 1, column: 4 };
+    const decorator = () => [
+      { line: 0, start: 0, end: 5, style: { color: 'cyan', bold: true } },
+      { line: 1, start: 0, end: 4, style: { underline: true } },
+    ];
+
+    const { container } = render(<TextRenderer buffer={buffer} cursor={cursor} width={80} decorator={decorator} />);
+
+    expect(container.textContent).toBe('/help me@bob ');
+  });
+
+  it('splits a decoration across wrapped rows', () => {
+    const buffer: Buffer = { lines: ['abcdef'] };
+    const cursor: Cursor = { line: 0, column: 0 };
+    const decorator = () => [{ line: 0, start: 1, end: 5, style: { color: 'green' } }];
+
+    const { container } = render(
+      <TextRenderer buffer={buffer} cursor={cursor} width={3} showCursor={false} decorator={decorator} />
+    );
+
+    expect(segments(container)).toEqual(['a', 'bc', 'de', 'f']);
+  });
+
+  it('draws the cursor inside a styled span', () => {
+    const buffer: Buffer = { lines: ['hello'] };
+    const cursor: Cursor = { line: 0, column: 2 };
+    const decorator = () => [{ line: 0, start: 0, end: 5, style: { color: 'red' } }];
+
+    const { container } = render(<TextRenderer buffer={buffer} cursor={cursor} width={80} decorator={decorator} />);
+
+    expect(segments(container)).toEqual(['he', 'l', 'lo']);
+  });
+
+  it('passes the buffer lines to the decorator', () => {
+    const seen: string[][] = [];
+    const decorator = (lines: string[]) => {
+      seen.push(lines);
+      return [];
+    };
+
+    render(<TextRenderer buffer={{ lines: ['a', 'b'] }} cursor={{ line: 0, column: 0 }} width={80} decorator={decorator} />);
+
+    expect(seen[0]).toEqual(['a', 'b']);
+  });
+});
+
+describe('getViewportStart', () => {
+  it('keeps the window while the cursor stays inside the margin', () => {
+    expect(getViewportStart(5, 8, 20, 5, 1)).toBe(5);
+  });
+
+  it('scrolls just far enough to keep the margin', () => {
+    expect(getViewportStart(5, 9, 20, 5, 1)).toBe(6);
+    expect(getViewportStart(5, 5, 20, 5, 1)).toBe(4);
+  });
+
+  it('never scrolls past either end', () => {
+    expect(getViewportStart(0, 0, 20, 5, 2)).toBe(0);
+    expect(getViewportStart(0, 19, 20, 5, 2)).toBe(15);
+  });
+
+  it('shrinks the margin for small viewports', () => {
+    expect(getViewportStart(0, 2, 20, 3, 3)).toBe(1);
+  });
+});
+
+describe('TextRenderer viewport', () => {
+  const buffer: Buffer = { lines: ['a', 'b', 'c', 'd', 'e', 'f'] };
+
+  it('renders only maxHeight rows around the cursor', () => {
+    const { container } = render(
+      <TextRenderer buffer={buffer} cursor={{ line: 5, column: 0 }} width={80} showCursor={false} maxHeight={3} />
+    );
+
+    expect(container.textContent).toBe('def');
+  });
+
+  it('keeps the scroll position while the cursor moves inside the window', () => {
+    const props = { buffer, width: 80, showCursor: false, maxHeight: 3, scrollOff: 0 };
+    const { container, rerender } = render(<TextRenderer {...props} cursor={{ line: 5, column: 0 }} />);
+
+    rerender(<TextRenderer {...props} cursor={{ line: 3, column: 0 }} />);
+    expect(container.textContent).toBe('def');
+
+    rerender(<TextRenderer {...props} cursor={{ line: 1, column: 0 }} />);
+    expect(container.textContent).toBe('bcd');
+  });
+
+  it('keeps the scroll position under StrictMode double rendering', () => {
+    const props = { buffer, width: 80, showCursor: false, maxHeight: 3, scrollOff: 0 };
+    const { container, rerender } = render(
+      <React.StrictMode>
+        <TextRenderer {...props} cursor={{ line: 5, column: 0 }} />
+      </React.StrictMode>
+    );
+
+    rerender(
+      <React.StrictMode>
+        <TextRenderer {...props} cursor={{ line: 3, column: 0 }} />
+      </React.StrictMode>
+    );
+    expect(container.textContent).toBe('def');
+  });
+
+  it('pads short content to minHeight', () => {
+    const { container } = render(
+      <TextRenderer buffer={{ lines: ['a'] }} cursor={{ line: 0, column: 0 }} width={80} showCursor={false} minHeight={3} />
+    );
+
+    expect(container.textContent).toBe('a  ');
+  });
+
+  it('shows a scroll indicator when asked', () => {
+    const { container } = render(
+      <TextRenderer
+        buffer={buffer}
+        cursor={{ line: 0, column: 0 }}
+        width={80}
+        showCursor={false}
+        maxHeight={2}
+        scrollIndicator
+      />
+    );
+
+    expect(container.textContent).toBe('abrows 1–2 of 6');
+  });
+});
+
+describe('getHorizontalScroll', () => {
+  it('keeps the offset while the cursor is clear of the edges', () => {
+    expect(getHorizontalScroll(5, 8, 1, 10)).toBe(5);
+  });
+
+  it('scrolls right leaving the last cell for a marker', () => {
+    expect(getHorizontalScroll(0, 9, 1, 10)).toBe(1);
+    expect(getHorizontalScroll(0, 8, 2, 10)).toBe(1);
+  });
+
+  it('scrolls left leaving the first cell for a marker', () => {
+    expect(getHorizontalScroll(5, 5, 1, 10)).toBe(4);
+    expect(getHorizontalScroll(5, 1, 1, 10)).toBe(0);
+  });
+});
+
+describe('clipLines', () => {
+  it('leaves lines that fit untouched', () => {
+    const result = clipLines({ lines: ['abc', 'de'] }, { line: 1, column: 2 }, 10);
+
+    expect(result.visualLines).toEqual(['abc', 'de']);
+    expect(result.clips).toEqual([{ before: '', after: '' }, { before: '', after: '' }]);
+    expect(result.cursorVisualRow).toBe(1);
+    expect(result.cursorVisualCol).toBe(2);
+  });
+
+  it('marks content clipped on the right', () => {
+    const result = clipLines({ lines: ['abcdefghij'] }, { line: 0, column: 0 }, 5);
+
+    expect(result.visualLines).toEqual(['abcd']);
+    expect(result.clips[0]).toEqual({ before: '', after: '…' });
+  });
+
+  it('scrolls to a cursor at the end of a long line', () => {
+    const result = clipLines({ lines: ['abcdefghij'] }, { line: 0, column: 10 }, 5);
+
+    expect(result.scrollX).toBe(7);
+    expect(result.visualLines).toEqual(['ij']);
+    expect(result.clips[0]).toEqual({ before: '…', after: '' });
+    expect(result.cursorVisualCol).toBe(2);
+  });
+
+  it('scrolls every line by the same offset', () => {
+    const result = clipLines({ lines: ['short', 'a much longer line'] }, { line: 1, column: 18 }, 8);
+
+    expect(result.visualLines).toEqual(['', ' line']);
+    expect(result.visualLineStarts).toEqual([{ line: 0, column: 5 }, { line: 1, column: 13 }]);
+    expect(result.clips.map((clip) => clip.before)).toEqual(['…', '…']);
+  });
+
+  it('keeps the previous offset while the cursor stays visible', () => {
+    const result = clipLines({ lines: ['abcdefghij'] }, { line: 0, column: 8 }, 5, 7);
+
+    expect(result.scrollX).toBe(7);
+    expect(result.visualLines).toEqual(['ij']);
+  });
+
+  it('pads instead of splitting a wide character', () => {
+    const result = clipLines({ lines: ['日本語テキスト'] }, { line: 0, column: 0 }, 6);
+
+    expect(result.visualLines).toEqual(['日本']);
+    expect(result.clips[0]).toEqual({ before: '', after: ' …' });
+  });
+});
+
+describe('TextRenderer without wrapping', () => {
+  it('renders one row per line with ellipsis markers', () => {
+    const { container } = render(
+      <TextRenderer buffer={{ lines: ['abcdefghij', 'xy'] }} cursor={{ line: 0, column: 0 }} width={5} wrap="none" />
+    );
+
+    expect(container.textContent).toBe('abcd…xy');
+  });
+
+  it('follows the cursor horizontally', () => {
+    const props = { buffer: { lines: ['abcdefghij'] }, width: 5, showCursor: false, wrap: 'none' as const };
+    const { container, rerender } = render(<TextRenderer {...props} cursor={{ line: 0, column: 10 }} />);
+    expect(container.textContent).toBe('…ij');
+
+    rerender(<TextRenderer {...props} cursor={{ line: 0, column: 7 }} />);
+    expect(container.textContent).toBe('…hij');
+  });
+
+  it('marks a selected line break on a scrolled row', () => {
+    const cursor: Cursor = { line: 1, column: 1 };
+    const { container } = render(
+      <TextRenderer
+        buffer={{ lines: ['abcdefghij', 'xyz'] }}
+        cursor={{ line: 0, column: 10 }}
+        width={5}
+        showCursor={false}
+        wrap="none"
+        selection={{ anchor: { line: 0, column: 8 }, head: cursor }}
+      />
+    );
+
+    expect(container.textContent).toBe('…ij … ');
+  });
+
+  it('does not mark the line break of a row clipped on the right', () => {
+    const cursor: Cursor = { line: 1, column: 1 };
+    const { container } = render(
+      <TextRenderer
+        buffer={{ lines: ['abcdefghij', 'xy'] }}
+        cursor={cursor}
+        width={5}
+        showCursor={false}
+        wrap="none"
+        selection={{ anchor: { line: 0, column: 1 }, head: cursor }}
+      />
+    );
+
+    expect(container.textContent).toBe('abcd…xy');
+  });
+});
+
+describe('TextRenderer wrap strategies', () => {
+  it('wraps lines with the given strategy', () => {
+    const result = wrapLines({ lines: ['- item one two'] }, { line: 0, column: 9 }, 10, hangingIndentWrap);
+
+    expect(result.visualLines).toEqual(['- item ', 'one two']);
+    expect(result.visualLineIndents).toEqual([0, 2]);
+    expect(result.cursorVisualRow).toBe(1);
+    expect(result.cursorVisualCol).toBe(2);
+  });
+
+  it('draws the hanging indent before continuation rows', () => {
+    const { container } = render(
+      <TextRenderer
+        buffer={{ lines: ['- item one two'] }}
+        cursor={{ line: 0, column: 0 }}
+        width={10}
+        showCursor={false}
+        wrap="hanging"
+        menu={<Text>|</Text>}
+      />
+    );
+
+    expect(container.textContent).toBe('- item |  one two');
+  });
+
+  it('wraps anywhere in character mode', () => {
+    const { container } = render(
+      <TextRenderer
+        buffer={{ lines: ['ab cd ef'] }}
+        cursor={{ line: 0, column: 0 }}
+        width={4}
+        showCursor={false}
+        wrap="character"
+        menu={<Text>|</Text>}
+      />
+    );
+
+    expect(container.textContent).toBe('ab c|d ef');
+  });
 });
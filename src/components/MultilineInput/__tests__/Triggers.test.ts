@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest';
+import {
+  type Trigger,
+  findTriggerMatch,
+  filterPickerItems,
+  createTriggerProvider,
+  findAtomicTokenBefore,
+  updateAtomicTokens,
+} from '../Triggers.js';
+import type { CompletionCandidate } from '../Completion.js';
+
+const commands: Trigger = {
+  char: '/',
+  lineStart: true,
+  items: [
+    { value: 'help', description: 'Show help' },
+    { value: 'history' },
+    { value: 'quit' },
+  ],
+};
+
+const mentions: Trigger = {
+  char: '@',
+  items: [{ value: 'src/index.ts', label: 'index.ts' }, { value: 'README.md' }],
+  atomic: true,
+};
+
+const triggers = [commands, mentions];
+
+describe('Triggers', () => {
+  describe('findTriggerMatch', () => {
+    it('matches a line-start trigger at the start of a line', () => {
+      expect(findTriggerMatch('/he', 3, triggers)).toEqual({ trigger: commands, start: 0, query: 'he' });
+      expect(findTriggerMatch('first\n/', 7, triggers)).toMatchObject({ start: 6, query: '' });
+    });
+
+    it('ignores a line-start trigger elsewhere', () => {
+      expect(findTriggerMatch('a /he', 5, triggers)).toBeUndefined();
+    });
+
+    it('matches other triggers at the start of any word', () => {
+      expect(findTriggerMatch('look at @READ', 13, triggers)).toEqual({ trigger: mentions, start: 8, query: 'READ' });
+    });
+
+    it('ignores triggers inside a word', () => {
+      expect(findTriggerMatch('mail a@b', 8, triggers)).toBeUndefined();
+    });
+
+    it('ends at whitespace', () => {
+      expect(findTriggerMatch('@src ', 5, triggers)).toBeUndefined();
+    });
+  });
+
+  describe('filterPickerItems', () => {
+    const items = [{ value: 'history' }, { value: 'help' }, { value: 'show', label: 'Show Help' }];
+
+    it('keeps everything for an empty query', () => {
+      expect(filterPickerItems(items, '')).toEqual(items);
+    });
+
+    it('puts prefix matches before substring matches, ignoring case', () => {
+      expect(filterPickerItems(items, 'H').map((item) => item.value)).toEqual(['history', 'help', 'show']);
+      expect(filterPickerItems(items, 'el').map((item) => item.value)).toEqual(['help', 'show']);
+    });
+  });
+
+  describe('createTriggerProvider', () => {
+    const provider = createTriggerProvider(triggers);
+
+    it('offers filtered items that replace the trigger and query', () => {
+      expect(provider('/h', 2)).toEqual([
+        { value: '/help ', label: 'help', description: 'Show help', start: 0, end: 2 },
+        { value: '/history ', label: 'history', description: undefined, start: 0, end: 2 },
+      ]);
+    });
+
+    it('uses item labels', () => {
+      const candidates = provider('see @ind', 8) as CompletionCandidate[];
+      expect(candidates.map((c) => [c.label, c.value])).toEqual([['index.ts', '@src/index.ts ']]);
+    });
+
+    it('returns nothing away from a trigger', () => {
+      expect(provider('hello', 5)).toEqual([]);
+    });
+
+    it('passes the query to item functions', async () => {
+      const dynamic = createTriggerProvider([
+        { char: '#', items: async (query) => [{ value: `${query}-tag` }] },
+      ]);
+      await expect(dynamic('#bug', 4)).resolves.toEqual([
+        { value: '#bug-tag ', label: 'bug-tag', description: undefined, start: 0, end: 4 },
+      ]);
+    });
+  });
+
+  describe('updateAtomicTokens', () => {
+    const token = { start: 4, text: '@a.ts' };
+
+    it('keeps tokens before the change', () => {
+      expect(updateAtomicTokens([token], 'see @a.ts ', 'see @a.ts now')).toEqual([token]);
+    });
+
+    it('shifts tokens after the change', () => {
+      expect(updateAtomicTokens([token], 'see @a.ts', 'I see @a.ts')).toEqual([{ start: 6, text: '@a.ts' }]);
+    });
+
+    it('drops tokens the change touches', () => {
+      expect(updateAtomicTokens([token], 'see @a.ts', 'see @ab.ts')).toEqual([]);
+      expect(updateAtomicTokens([token], 'see @a.ts', 'see a.ts')).toEqual([]);
+    });
+
+    it('drops every token when the text is cleared', () => {
+      expect(updateAtomicTokens([token], 'see @a.ts', '')).toEqual([]);
+    });
+  });
+
+  describe('findAtomicTokenBefore', () => {
+    const tokens = [{ start: 4, text: '@src/index.ts' }];
+
+    it('finds a token that ends at the cursor', () => {
+      expect(findAtomicTokenBefore('see @src/index.ts', 17, tokens)).toBe(4);
+      expect(findAtomicTokenBefore('see @src/index.ts more', 17, tokens)).toBe(4);
+    });
+
+    it('requires the token to start a word', () => {
+      expect(findAtomicTokenBefore('x@src/index.ts', 14, [{ start: 1, text: '@src/index.ts' }])).toBeUndefined();
+    });
+
+    it('requires the token to end a word', () => {
+      expect(findAtomicTokenBefore('see @src/index.tsx', 17, tokens)).toBeUndefined();
+    });
+
+    it('ignores the same text typed by hand', () => {
+      // Only the first '@a' was picked
+      expect(findAtomicTokenBefore('@a @a', 5, [{ start: 0, text: '@a' }])).toBeUndefined();
+      expect(findAtomicTokenBefore('@a @a', 2, [{ start: 0, text: '@a' }])).toBe(0);
+    });
+
+    it('ignores tokens that no longer match the text', () => {
+      expect(findAtomicTokenBefore('see @src/index.js', 17, tokens)).toBeUndefined();
+    });
+
+    it('ignores tokens that do not end at the cursor', () => {
+      expect(findAtomicTokenBefore('@a b', 4, [{ start: 0, text: '@a' }])).toBeUndefined();
+    });
+
+    it('prefers the longest token', () => {
+      expect(findAtomicTokenBefore('@a @b', 5, [{ start: 3, text: '@b' }, { start: 0, text: '@a @b' }])).toBe(0);
+    });
+
+    it('forgets tokens once the input is submitted', () => {
+      const afterSubmit = updateAtomicTokens([{ start: 0, text: '@a' }], '@a ', '');
+      expect(findAtomicTokenBefore('@a', 2, updateAtomicTokens(afterSubmit, '', '@a'))).toBeUndefined();
+    });
+  });
+});
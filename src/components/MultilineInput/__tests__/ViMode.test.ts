@@ -0,0 +1,303 @@
+import { describe, it, expect } from 'vitest';
+import { createViState, handleViKey, getViSelection, type ViState, type ViKeyPress } from '../ViMode.js';
+import type { Buffer, Cursor } from '../types.js';
+
+interface Editor {
+  state: ViState;
+  buffer: Buffer;
+  cursor: Cursor;
+  action?: 'undo' | 'redo';
+}
+
+/**
+ * Feed keys to the vi handler. Each character is one key press;
+ * named keys are written in angle brackets, e.g. '<escape>'.
+ */
+function press(editor: Editor, keys: string): Editor {
+  const presses: ViKeyPress[] = [];
+  const pattern = /<([^>]+)>|./gsu;
+  for (const match of keys.matchAll(pattern)) {
+    if (match[1]) {
+      presses.push({ chord: match[1], input: '' });
+    } else if (match[0] === ' ') {
+      presses.push({ chord: 'space', input: ' ' });
+    } else {
+      presses.push({ chord: match[0], input: match[0] });
+    }
+  }
+
+  let current = editor;
+  for (const keyPress of presses) {
+    const result = handleViKey(current.state, keyPress, current.buffer, current.cursor);
+    current = result ?? current;
+  }
+  return current;
+}
+
+function normal(text: string, cursor: Cursor = { line: 0, column: 0 }): Editor {
+  return { state: createViState('normal'), buffer: { lines: text.split('\n') }, cursor };
+}
+
+function text(editor: Editor): string {
+  return editor.buffer.lines.join('\n');
+}
+
+describe('ViMode', () => {
+  describe('modes', () => {
+    it('starts in insert mode by default', () => {
+      expect(createViState().mode).toBe('insert');
+    });
+
+    it('inserts typed text in insert mode', () => {
+      const editor = press({ state: createViState(), buffer: { lines: [''] }, cursor: { line: 0, column: 0 } }, 'hi there');
+      expect(text(editor)).toBe('hi there');
+      expect(editor.state.mode).toBe('insert');
+    });
+
+    it('leaves insert mode with Escape and steps back onto the last character', () => {
+      const editor = press({ state: createViState(), buffer: { lines: [''] }, cursor: { line: 0, column: 0 } }, 'abc<escape>');
+      expect(editor.state.mode).toBe('normal');
+      expect(editor.cursor).toEqual({ line: 0, column: 2 });
+    });
+
+    it('passes non-text keys in insert mode on to the keymap', () => {
+      const state = createViState();
+      expect(handleViKey(state, { chord: 'return', input: '\r' }, { lines: [''] }, { line: 0, column: 0 })).toBeUndefined();
+      expect(handleViKey(state, { chord: 'ctrl+w', input: 'w' }, { lines: [''] }, { line: 0, column: 0 })).toBeUndefined();
+    });
+
+    it('passes Up/Down and Enter in normal mode on to the keymap', () => {
+      const state = createViState('normal');
+      expect(handleViKey(state, { chord: 'up', input: '' }, { lines: [''] }, { line: 0, column: 0 })).toBeUndefined();
+      expect(handleViKey(state, { chord: 'return', input: '\r' }, { lines: [''] }, { line: 0, column: 0 })).toBeUndefined();
+    });
+
+    it('swallows unbound printable keys in normal mode', () => {
+      const editor = press(normal('abc'), 'q');
+      expect(text(editor)).toBe('abc');
+    });
+
+    it('enters insert mode with i, a, I, A, o and O', () => {
+      expect(press(normal('  abc', { line: 0, column: 3 }), 'i').cursor).toEqual({ line: 0, column: 3 });
+      expect(press(normal('  abc', { line: 0, column: 3 }), 'a').cursor).toEqual({ line: 0, column: 4 });
+      expect(press(normal('  abc', { line: 0, column: 3 }), 'I').cursor).toEqual({ line: 0, column: 2 });
+      expect(press(normal('  abc', { line: 0, column: 3 }), 'A').cursor).toEqual({ line: 0, column: 5 });
+
+      const below = press(normal('one\ntwo'), 'oX');
+      expect(text(below)).toBe('one\nX\ntwo');
+      const above = press(normal('one\ntwo', { line: 1, column: 1 }), 'OX');
+      expect(text(above)).toBe('one\nX\ntwo');
+      expect(above.state.mode).toBe('insert');
+    });
+  });
+
+  describe('motions', () => {
+    it('moves with h and l within the line', () => {
+      const editor = normal('abc\ndef', { line: 0, column: 1 });
+      expect(press(editor, 'l').cursor).toEqual({ line: 0, column: 2 });
+      expect(press(editor, 'll').cursor).toEqual({ line: 0, column: 2 });
+      expect(press(editor, 'hh').cursor).toEqual({ line: 0, column: 0 });
+    });
+
+    it('moves with j and k between lines', () => {
+      const editor = normal('abc\ndef\nghi', { line: 0, column: 2 });
+      expect(press(editor, 'j').cursor).toEqual({ line: 1, column: 2 });
+      expect(press(editor, 'jjk').cursor).toEqual({ line: 1, column: 2 });
+    });
+
+    it('moves by words with w, b and e', () => {
+      const editor = normal('foo bar.baz qux');
+      expect(press(editor, 'w').cursor.column).toBe(4);
+      expect(press(editor, 'ww').cursor.column).toBe(7);
+      expect(press(editor, 'www').cursor.column).toBe(8);
+      expect(press(editor, 'e').cursor.column).toBe(2);
+      expect(press(editor, 'ee').cursor.column).toBe(6);
+      expect(press(normal('foo bar baz', { line: 0, column: 9 }), 'b').cursor.column).toBe(8);
+      expect(press(normal('foo bar baz', { line: 0, column: 9 }), 'bb').cursor.column).toBe(4);
+    });
+
+    it('moves w across lines and stops on empty lines', () => {
+      const editor = normal('foo\n\nbar');
+      expect(press(editor, 'w').cursor).toEqual({ line: 1, column: 0 });
+      expect(press(editor, 'ww').cursor).toEqual({ line: 2, column: 0 });
+    });
+
+    it('moves to line start and end with 0 and $', () => {
+      const editor = normal('hello', { line: 0, column: 2 });
+      expect(press(editor, '$').cursor.column).toBe(4);
+      expect(press(editor, '$0').cursor.column).toBe(0);
+    });
+
+    it('moves to the first and last line with gg and G', () => {
+      const editor = normal('a\n  b\nc', { line: 1, column: 0 });
+      expect(press(editor, 'gg').cursor).toEqual({ line: 0, column: 0 });
+      expect(press(editor, 'G').cursor).toEqual({ line: 2, column: 0 });
+      expect(press(normal('a\n  b\nc'), '2G').cursor).toEqual({ line: 1, column: 2 });
+    });
+
+    it('repeats motions with a count', () => {
+      const editor = normal('one two three four');
+      expect(press(editor, '3w').cursor.column).toBe(14);
+      expect(press(editor, '10l').cursor.column).toBe(10);
+    });
+  });
+
+  describe('operators', () => {
+    it('deletes a word with dw', () => {
+      const editor = press(normal('foo bar baz'), 'dw');
+      expect(text(editor)).toBe('bar baz');
+      expect(editor.state.register).toEqual({ text: 'foo ', linewise: false });
+    });
+
+    it('keeps the line break when dw deletes the last word of a line', () => {
+      const editor = press(normal('foo bar\nbaz', { line: 0, column: 4 }), 'dw');
+      expect(text(editor)).toBe('foo \nbaz');
+    });
+
+    it('applies counts to operators and motions', () => {
+      expect(text(press(normal('a b c d'), 'd2w'))).toBe('c d');
+      expect(text(press(normal('a b c d'), '2dw'))).toBe('c d');
+    });
+
+    it('deletes to the end of the line with d$ and D', () => {
+      expect(text(press(normal('hello world', { line: 0, column: 5 }), 'd$'))).toBe('hello');
+      expect(text(press(normal('hello world', { line: 0, column: 5 }), 'D'))).toBe('hello');
+    });
+
+    it('deletes an inclusive range with de', () => {
+      expect(text(press(normal('foo bar'), 'de'))).toBe(' bar');
+    });
+
+    it('deletes lines with dd and counts', () => {
+      const editor = press(normal('one\ntwo\nthree', { line: 1, column: 1 }), 'dd');
+      expect(text(editor)).toBe('one\nthree');
+      expect(editor.cursor).toEqual({ line: 1, column: 0 });
+      expect(editor.state.register).toEqual({ text: 'two', linewise: true });
+
+      expect(text(press(normal('one\ntwo\nthree'), '2dd'))).toBe('three');
+    });
+
+    it('deletes lines with linewise motions', () => {
+      expect(text(press(normal('one\ntwo\nthree'), 'dj'))).toBe('three');
+      expect(text(press(normal('one\ntwo\nthree', { line: 1, column: 0 }), 'dG'))).toBe('one');
+    });
+
+    it('leaves one empty line when deleting every line', () => {
+      const editor = press(normal('one\ntwo'), 'dG');
+      expect(editor.buffer.lines).toEqual(['']);
+    });
+
+    it('changes a word with cw and enters insert mode', () => {
+      const editor = press(normal('foo bar'), 'cwbaz');
+      expect(text(editor)).toBe('baz bar');
+      expect(editor.state.mode).toBe('insert');
+    });
+
+    it('changes a whole line with cc', () => {
+      expect(text(press(normal('one\ntwo'), 'ccnew'))).toBe('new\ntwo');
+    });
+
+    it('yanks without changing the text', () => {
+      const editor = press(normal('foo bar', { line: 0, column: 4 }), 'yb');
+      expect(text(editor)).toBe('foo bar');
+      expect(editor.state.register).toEqual({ text: 'foo ', linewise: false });
+      expect(editor.cursor.column).toBe(0);
+    });
+
+    it('deletes characters with x and X', () => {
+      expect(text(press(normal('abcd', { line: 0, column: 1 }), 'x'))).toBe('acd');
+      expect(text(press(normal('abcd', { line: 0, column: 1 }), '2x'))).toBe('ad');
+      expect(text(press(normal('abcd', { line: 0, column: 2 }), 'X'))).toBe('acd');
+    });
+
+    it('cancels an incomplete command with Escape', () => {
+      const editor = press(normal('foo'), 'd<escape>w');
+      expect(text(editor)).toBe('foo');
+      expect(editor.state.pending).toEqual([]);
+    });
+  });
+
+  describe('put', () => {
+    it('puts characters after the cursor with p', () => {
+      const editor = press(normal('foo bar'), 'dwp');
+      expect(text(editor)).toBe('bfoo ar');
+      expect(editor.cursor.column).toBe(4);
+    });
+
+    it('puts characters before the cursor with P', () => {
+      expect(text(press(normal('foo bar'), 'dwP'))).toBe('foo bar');
+    });
+
+    it('puts lines below with p after yy', () => {
+      const editor = press(normal('one\ntwo'), 'yyjp');
+      expect(text(editor)).toBe('one\ntwo\none');
+      expect(editor.cursor).toEqual({ line: 2, column: 0 });
+    });
+
+    it('puts lines above with P and repeats with a count', () => {
+      expect(text(press(normal('one\ntwo', { line: 1, column: 0 }), 'yy2P'))).toBe('one\ntwo\ntwo\ntwo');
+    });
+  });
+
+  describe('repeat', () => {
+    it('repeats a delete with .', () => {
+      expect(text(press(normal('a b c d'), 'dw.'))).toBe('c d');
+    });
+
+    it('repeats a change including the inserted text', () => {
+      const editor = press(normal('foo foo foo'), 'cwbar<escape>w.');
+      expect(text(editor)).toBe('bar bar foo');
+      expect(editor.state.mode).toBe('normal');
+    });
+
+    it('repeats an insert', () => {
+      expect(text(press(normal('x'), 'Aab<escape>.'))).toBe('xabab');
+    });
+
+    it('does not repeat motions or yanks', () => {
+      expect(text(press(normal('a b c'), 'xwyw.'))).toBe('  c');
+    });
+  });
+
+  describe('undo and redo', () => {
+    it('asks the caller to undo with u and redo with Ctrl+R', () => {
+      expect(press(normal('abc'), 'u').action).toBe('undo');
+      expect(press(normal('abc'), '<ctrl+r>').action).toBe('redo');
+    });
+  });
+
+  describe('visual mode', () => {
+    it('selects from the anchor to the cursor inclusively', () => {
+      const editor = press(normal('hello world'), 'vll');
+      expect(editor.state.mode).toBe('visual');
+      expect(getViSelection(editor.state, editor.buffer, editor.cursor)).toEqual({
+        anchor: { line: 0, column: 0 },
+        head: { line: 0, column: 3 },
+      });
+    });
+
+    it('deletes the selection with d', () => {
+      const editor = press(normal('hello world'), 'ved');
+      expect(text(editor)).toBe(' world');
+      expect(editor.state.mode).toBe('normal');
+      expect(editor.state.register.text).toBe('hello');
+    });
+
+    it('yanks the selection with y', () => {
+      const editor = press(normal('hello world', { line: 0, column: 6 }), 'v$y');
+      expect(text(editor)).toBe('hello world');
+      expect(editor.state.register.text).toBe('world');
+      expect(editor.cursor.column).toBe(6);
+    });
+
+    it('changes the selection with c', () => {
+      expect(text(press(normal('hello world'), 'vecbye'))).toBe('bye world');
+    });
+
+    it('leaves visual mode with Escape', () => {
+      const editor = press(normal('hello'), 'vl<escape>');
+      expect(editor.state.mode).toBe('normal');
+      expect(getViSelection(editor.state, editor.buffer, editor.cursor)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { wordWrap, characterWrap, hangingIndentWrap, resolveWrapStrategy } from '../Wrap.js';
+
+// Text of each row, with its indent drawn as spaces
+function render(line: string, rows: ReturnType<typeof wordWrap>): string[] {
+  return rows.map((row) => ' '.repeat(row.indent ?? 0) + line.slice(row.start, row.start + row.length));
+}
+
+describe('Wrap', () => {
+  describe('wordWrap', () => {
+    it('breaks after the last space that fits', () => {
+      const line = 'the quick brown fox';
+      expect(render(line, wordWrap(line, 10))).toEqual(['the quick ', 'brown fox']);
+    });
+
+    it('hard-wraps words longer than the width', () => {
+      const line = 'abcdefgh';
+      expect(render(line, wordWrap(line, 3))).toEqual(['abc', 'def', 'gh']);
+    });
+
+    it('returns one empty row for an empty line', () => {
+      expect(wordWrap('', 10)).toEqual([{ start: 0, length: 0 }]);
+    });
+  });
+
+  describe('characterWrap', () => {
+    it('breaks at the width regardless of spaces', () => {
+      const line = 'the quick brown fox';
+      expect(render(line, characterWrap(line, 10))).toEqual(['the quick ', 'brown fox']);
+      expect(render('ab cd ef', characterWrap('ab cd ef', 4))).toEqual(['ab c', 'd ef']);
+    });
+
+    it('keeps wide characters whole', () => {
+      expect(render('日本語', characterWrap('日本語', 3))).toEqual(['日', '本', '語']);
+    });
+  });
+
+  describe('hangingIndentWrap', () => {
+    it('indents continuation rows under a list item text', () => {
+      const line = '- item one two three';
+      expect(render(line, hangingIndentWrap(line, 10))).toEqual(['- item ', '  one two ', '  three']);
+    });
+
+    it('keeps leading whitespace on continuation rows', () => {
+      const line = '    some words wrap';
+      expect(render(line, hangingIndentWrap(line, 12))).toEqual(['    some ', '    words ', '    wrap']);
+    });
+
+    it('lines up with numbered list text', () => {
+      const line = '10. first second';
+      expect(render(line, hangingIndentWrap(line, 11))).toEqual(['10. first ', '    second']);
+    });
+
+    it('falls back to word wrapping when the indent is too wide', () => {
+      const line = '        deep text';
+      expect(hangingIndentWrap(line, 12)).toEqual(wordWrap(line, 12));
+    });
+
+    it('keeps rows within the width', () => {
+      const line = '  * a long list item that wraps several times';
+      for (const row of hangingIndentWrap(line, 14)) {
+        expect((row.indent ?? 0) + row.length).toBeLessThanOrEqual(14);
+      }
+    });
+  });
+
+  describe('resolveWrapStrategy', () => {
+    it('maps modes to strategies', () => {
+      expect(resolveWrapStrategy('word')).toBe(wordWrap);
+      expect(resolveWrapStrategy('character')).toBe(characterWrap);
+      expect(resolveWrapStrategy('hanging')).toBe(hangingIndentWrap);
+      expect(resolveWrapStrategy('none')).toBeUndefined();
+    });
+
+    it('passes custom strategies through', () => {
+      const custom = (line: string) => [{ start: 0, length: line.length }];
+      expect(resolveWrapStrategy(custom)).toBe(custom);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useCompletion } from '../useCompletion.js';
+import type { CompletionCandidate, CompletionProvider } from '../Completion.js';
+
+const commands = ['/help', '/history', '/quit'];
+
+// Completes a leading slash command
+const slashProvider: CompletionProvider = (text, cursorOffset) => {
+  const prefix = text.slice(0, cursorOffset);
+  return commands
+    .filter((command) => command.startsWith(prefix))
+    .map((value) => ({ value, start: 0, end: cursorOffset }));
+};
+
+function setup(provider: CompletionProvider | undefined, text: string, onAccept = vi.fn()) {
+  const hook = renderHook(
+    ({ text }) => useCompletion({ provider, text, cursorOffset: text.length, onAccept }),
+    { initialProps: { text } }
+  );
+  return { ...hook, onAccept };
+}
+
+describe('useCompletion', () => {
+  it('starts closed', () => {
+    const { result } = setup(slashProvider, '/h');
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('opens the menu with the provider candidates', () => {
+    const { result } = setup(slashProvider, '/h');
+    act(() => result.current.open());
+    expect(result.current.menu?.candidates.map((c) => c.value)).toEqual(['/help', '/history']);
+    expect(result.current.menu?.selectedIndex).toBe(0);
+  });
+
+  it('cycles the selection in both directions', () => {
+    const { result } = setup(slashProvider, '/h');
+    act(() => result.current.open());
+    act(() => result.current.next());
+    expect(result.current.menu?.selectedIndex).toBe(1);
+    act(() => result.current.next());
+    expect(result.current.menu?.selectedIndex).toBe(0);
+    act(() => result.current.previous());
+    expect(result.current.menu?.selectedIndex).toBe(1);
+  });
+
+  it('accepts the selected candidate and closes', () => {
+    const { result, onAccept } = setup(slashProvider, '/h');
+    act(() => result.current.open());
+    act(() => result.current.next());
+    act(() => result.current.accept());
+    expect(onAccept).toHaveBeenCalledWith({ value: '/history', start: 0, end: 2 });
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('accepts a single candidate directly when asked', () => {
+    const { result, onAccept } = setup(slashProvider, '/q');
+    act(() => result.current.open(true));
+    expect(onAccept).toHaveBeenCalledWith({ value: '/quit', start: 0, end: 2 });
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('stays closed when there are no candidates', () => {
+    const { result } = setup(slashProvider, 'hello');
+    act(() => result.current.open());
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('dismisses the menu', () => {
+    const { result } = setup(slashProvider, '/h');
+    act(() => result.current.open());
+    act(() => result.current.dismiss());
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('refines the candidates as the text changes', () => {
+    const { result, rerender } = setup(slashProvider, '/');
+    act(() => result.current.open());
+    expect(result.current.menu?.candidates).toHaveLength(3);
+
+    rerender({ text: '/hi' });
+    expect(result.current.menu?.candidates.map((c) => c.value)).toEqual(['/history']);
+
+    rerender({ text: '/x' });
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('does not reopen after being dismissed', () => {
+    const { result, rerender } = setup(slashProvider, '/');
+    act(() => result.current.open());
+    act(() => result.current.dismiss());
+    rerender({ text: '/h' });
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('waits for async providers', async () => {
+    const provider: CompletionProvider = async (text) => [{ value: `${text}!`, start: 0, end: text.length }];
+    const { result } = setup(provider, 'hi');
+    await act(async () => result.current.open());
+    expect(result.current.menu?.candidates[0].value).toBe('hi!');
+  });
+
+  it('ignores results for text that has since changed', async () => {
+    let resolveFirst: (candidates: CompletionCandidate[]) => void = () => {};
+    const provider = vi.fn<CompletionProvider>((text) =>
+      text === 'a'
+        ? new Promise((resolve) => {
+            resolveFirst = resolve;
+          })
+        : [{ value: 'abc', start: 0, end: text.length }]
+    );
+    const { result, rerender } = setup(provider, 'a');
+    act(() => result.current.open());
+    rerender({ text: 'ab' });
+    expect(result.current.menu?.candidates[0].value).toBe('abc');
+
+    await act(async () => resolveFirst([{ value: 'stale', start: 0, end: 1 }]));
+    expect(result.current.menu?.candidates[0].value).toBe('abc');
+  });
+
+  it('closes without accepting when the text changed since the results', () => {
+    const provider = vi.fn<CompletionProvider>((text) =>
+      text === '/h' ? slashProvider(text, text.length) : new Promise(() => {})
+    );
+    const { result, rerender, onAccept } = setup(provider, '/h');
+    act(() => result.current.open());
+    rerender({ text: '/hx' });
+    expect(result.current.menu?.text).toBe('/h');
+
+    let accepted = true;
+    act(() => {
+      accepted = result.current.accept();
+    });
+    expect(accepted).toBe(false);
+    expect(onAccept).not.toHaveBeenCalled();
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('closes when the provider fails', async () => {
+    const provider: CompletionProvider = () => Promise.reject(new Error('boom'));
+    const { result } = setup(provider, 'x');
+    await act(async () => result.current.open());
+    expect(result.current.menu).toBeNull();
+  });
+
+  it('does nothing without a provider', () => {
+    const { result } = setup(undefined, '/h');
+    act(() => result.current.open());
+    expect(result.current.menu).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { usePromptHistory } from '../usePromptHistory.js';
+
+describe('usePromptHistory', () => {
+  it('starts with the given history and no recalled entry', () => {
+    const history = ['one', 'two'];
+    const { result } = renderHook(() => usePromptHistory({ history }));
+    expect(result.current.entries).toEqual(['one', 'two']);
+    expect(result.current.index).toBeNull();
+  });
+
+  it('walks back through older entries', () => {
+    const history = ['one', 'two'];
+    const { result } = renderHook(() => usePromptHistory({ history }));
+
+    let entry: string | undefined;
+    act(() => {
+      entry = result.current.previous('draft');
+    });
+    expect(entry).toBe('two');
+
+    act(() => {
+      entry = result.current.previous('two');
+    });
+    expect(entry).toBe('one');
+
+    act(() => {
+      entry = result.current.previous('one');
+    });
+    expect(entry).toBeUndefined();
+    expect(result.current.index).toBe(0);
+  });
+
+  it('walks forward and restores the draft', () => {
+    const history = ['one', 'two'];
+    const { result } = renderHook(() => usePromptHistory({ history }));
+
+    act(() => {
+      result.current.previous('my draft');
+    });
+    act(() => {
+      result.current.previous('two');
+    });
+
+    let entry: string | undefined;
+    act(() => {
+      entry = result.current.next();
+    });
+    expect(entry).toBe('two');
+
+    act(() => {
+      entry = result.current.next();
+    });
+    expect(entry).toBe('my draft');
+    expect(result.current.index).toBeNull();
+
+    act(() => {
+      entry = result.current.next();
+    });
+    expect(entry).toBeUndefined();
+  });
+
+  it('returns undefined with empty history', () => {
+    const { result } = renderHook(() => usePromptHistory());
+    let entry: string | undefined = 'x';
+    act(() => {
+      entry = result.current.previous('draft');
+    });
+    expect(entry).toBeUndefined();
+  });
+
+  it('adds submissions and reports the new history', () => {
+    const onHistoryChange = vi.fn();
+    const history = ['one'];
+    const { result } = renderHook(() => usePromptHistory({ history, onHistoryChange }));
+
+    act(() => {
+      result.current.add('two');
+    });
+
+    expect(result.current.entries).toEqual(['one', 'two']);
+    expect(onHistoryChange).toHaveBeenCalledWith(['one', 'two']);
+  });
+
+  it('skips empty submissions and repeats of the last entry', () => {
+    const onHistoryChange = vi.fn();
+    const history = ['one'];
+    const { result } = renderHook(() => usePromptHistory({ history, onHistoryChange }));
+
+    act(() => {
+      result.current.add('');
+    });
+    act(() => {
+      result.current.add('one');
+    });
+
+    expect(result.current.entries).toEqual(['one']);
+    expect(onHistoryChange).not.toHaveBeenCalled();
+  });
+
+  it('stops browsing after a submission', () => {
+    const history = ['one'];
+    const { result } = renderHook(() => usePromptHistory({ history }));
+
+    act(() => {
+      result.current.previous('');
+    });
+    act(() => {
+      result.current.add('one');
+    });
+
+    expect(result.current.index).toBeNull();
+  });
+
+  it('syncs when the history prop changes', () => {
+    const { result, rerender } = renderHook(({ history }) => usePromptHistory({ history }), {
+      initialProps: { history: ['one'] },
+    });
+
+    rerender({ history: ['a', 'b'] });
+    expect(result.current.entries).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSuggestion } from '../useSuggestion.js';
+import { createHistorySuggester, type Suggester } from '../Suggestion.js';
+
+const historySuggester = createHistorySuggester(['git status', 'npm test']);
+
+describe('useSuggestion', () => {
+  it('suggests from a synchronous suggester', () => {
+    const { result } = renderHook(() => useSuggestion({ text: 'git', suggester: historySuggester }));
+    expect(result.current).toBe(' status');
+  });
+
+  it('suggests nothing without a suggester or text', () => {
+    expect(renderHook(() => useSuggestion({ text: 'git' })).result.current).toBeUndefined();
+    expect(renderHook(() => useSuggestion({ text: '', suggester: historySuggester })).result.current).toBeUndefined();
+  });
+
+  it('keeps the rest of the suggestion while typing along it', () => {
+    let calls = 0;
+    const suggester: Suggester = (text) => {
+      calls++;
+      return calls === 1 ? historySuggester(text) : new Promise(() => {});
+    };
+    const { result, rerender } = renderHook(({ text }) => useSuggestion({ text, suggester }), {
+      initialProps: { text: 'git' },
+    });
+    expect(result.current).toBe(' status');
+
+    rerender({ text: 'git st' });
+    expect(result.current).toBe('atus');
+
+    rerender({ text: 'git x' });
+    expect(result.current).toBeUndefined();
+  });
+
+  it('waits for async suggesters', async () => {
+    const suggester: Suggester = async (text) => `${text}!`;
+    const { result } = renderHook(() => useSuggestion({ text: 'hi', suggester }));
+    await act(async () => {});
+    expect(result.current).toBe('hi!');
+  });
+
+  it('accepts thenables that are not native promises', async () => {
+    const thenable = { then: (resolve: (value: string) => void) => resolve('ere') };
+    const suggester = (() => thenable) as unknown as Suggester;
+    const { result } = renderHook(() => useSuggestion({ text: 'th', suggester }));
+    await act(async () => {});
+    expect(result.current).toBe('ere');
+  });
+
+  it('ignores results for text that has since changed', async () => {
+    const resolvers: Array<(value: string) => void> = [];
+    const suggester: Suggester = () => new Promise((resolve) => resolvers.push(resolve));
+    const { result, rerender } = renderHook(({ text }) => useSuggestion({ text, suggester }), {
+      initialProps: { text: 'a' },
+    });
+    rerender({ text: 'b' });
+
+    await act(async () => resolvers[0]('pple'));
+    expect(result.current).toBeUndefined();
+
+    await act(async () => resolvers[1]('anana'));
+    expect(result.current).toBe('anana');
+  });
+
+  it('drops the suggestion when the suggester fails', async () => {
+    const suggester: Suggester = () => Promise.reject(new Error('boom'));
+    const { result } = renderHook(() => useSuggestion({ text: 'x', suggester }));
+    await act(async () => {});
+    expect(result.current).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { EventEmitter } from 'events';
+import { useTerminalInput, type TerminalInput } from '../useTerminalInput.js';
+import { ESCAPE_TIMEOUT_MS } from '../KeyDecoder.js';
+
+// Fresh for each test, since keyboard negotiation is remembered per stdin
+let mockStdin = new EventEmitter();
+const mockStdout = { isTTY: true, write: vi.fn() };
+const setRawMode = vi.fn();
+const exit = vi.fn();
+
+vi.mock('ink', async () => {
+  const actual = await vi.importActual('ink');
+  return {
+    ...actual,
+    useStdin: () => ({ stdin: mockStdin, setRawMode, internal_exitOnCtrlC: true }),
+    useStdout: () => ({ stdout: mockStdout }),
+    useApp: () => ({ exit }),
+  };
+});
+
+function send(chunk: string) {
+  act(() => {
+    mockStdin.emit('data', chunk);
+  });
+}
+
+describe('useTerminalInput', () => {
+  let events: TerminalInput[];
+  const handler = (event: TerminalInput) => {
+    events.push(event);
+  };
+
+  beforeEach(() => {
+    events = [];
+    mockStdin = new EventEmitter();
+    mockStdout.write.mockClear();
+    setRawMode.mockClear();
+    exit.mockClear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('enables raw mode and bracketed paste while active', () => {
+    const { rerender, unmount } = renderHook(({ isActive }) => useTerminalInput(handler, { isActive }), {
+      initialProps: { isActive: true },
+    });
+    expect(setRawMode).toHaveBeenLastCalledWith(true);
+    expect(mockStdout.write).toHaveBeenCalledWith('\x1b[?2004h');
+
+    rerender({ isActive: false });
+    expect(setRawMode).toHaveBeenLastCalledWith(false);
+    expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[?2004l');
+
+    send('a');
+    expect(events).toEqual([]);
+    unmount();
+  });
+
+  it('hands over each key of a chunk in order', () => {
+    renderHook(() => useTerminalInput(handler));
+    send('ab\x1b[Dc');
+
+    expect(events).toEqual([
+      { type: 'key', key: {}, input: 'ab' },
+      { type: 'key', key: { leftArrow: true }, input: '' },
+      { type: 'key', key: {}, input: 'c' },
+    ]);
+  });
+
+  it('splits typed text into single presses when asked', () => {
+    let splitText = true;
+    renderHook(() =>
+      useTerminalInput((event) => {
+        handler(event);
+        // Entering insert mode ends the splitting
+        if (event.type === 'key' && event.input === 'i') splitText = false;
+      }, { splitText })
+    );
+    send('dwihello');
+
+    expect(events).toEqual([
+      { type: 'key', key: {}, input: 'd' },
+      { type: 'key', key: {}, input: 'w' },
+      { type: 'key', key: {}, input: 'i' },
+      { type: 'key', key: {}, input: 'hello' },
+    ]);
+  });
+
+  it('waits for a sequence split across chunks', () => {
+    renderHook(() => useTerminalInput(handler));
+    send('\x1b[1;');
+    send('5D');
+
+    expect(events).toEqual([{ type: 'key', key: { leftArrow: true, ctrl: true }, input: '' }]);
+  });
+
+  it('reports a lone ESC after a timeout', () => {
+    vi.useFakeTimers();
+    renderHook(() => useTerminalInput(handler));
+    send('\x1b');
+    expect(events).toEqual([]);
+
+    act(() => {
+      vi.advanceTimersByTime(ESCAPE_TIMEOUT_MS);
+    });
+    expect(events).toEqual([{ type: 'key', key: { escape: true }, input: '' }]);
+  });
+
+  it('reports pastes between keys', () => {
+    renderHook(() => useTerminalInput(handler));
+    send('x\x1b[200~one\r');
+    send('two\x1b[201~\r');
+
+    expect(events).toEqual([
+      { type: 'key', key: {}, input: 'x' },
+      { type: 'paste', text: 'one\ntwo' },
+      { type: 'key', key: { return: true }, input: '' },
+    ]);
+  });
+
+  it('leaves Ctrl+C to Ink', () => {
+    renderHook(() => useTerminalInput(handler));
+    send('\x03');
+    expect(events).toEqual([]);
+  });
+
+  describe('keyboard protocol', () => {
+    it('enables the kitty protocol when the terminal reports its flags', () => {
+      const { unmount } = renderHook(() => useTerminalInput(handler));
+      expect(mockStdout.write).toHaveBeenCalledWith('\x1b[?u\x1b[c');
+
+      send('\x1b[?0u\x1b[?62;22c');
+      expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[>1u');
+      expect(events).toEqual([]);
+
+      unmount();
+      expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[?2004l\x1b[<u');
+    });
+
+    it('falls back to modifyOtherKeys', () => {
+      const { unmount } = renderHook(() => useTerminalInput(handler));
+      send('\x1b[?62;22c');
+      expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[>4;2m');
+
+      unmount();
+      expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[?2004l\x1b[>4;0m');
+    });
+
+    it('restores the terminal when the process exits', () => {
+      const { unmount } = renderHook(() => useTerminalInput(handler));
+      send('\x1b[?62;22c');
+
+      process.emit('exit', 0);
+      expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[?2004l\x1b[>4;0m');
+
+      mockStdout.write.mockClear();
+      unmount();
+      expect(mockStdout.write).not.toHaveBeenCalled();
+    });
+
+    it('queries the terminal once per stdin', () => {
+      const { unmount } = renderHook(() => useTerminalInput(handler));
+      send('\x1b[?62;22c');
+      unmount();
+
+      mockStdout.write.mockClear();
+      renderHook(() => useTerminalInput(handler));
+      expect(mockStdout.write).not.toHaveBeenCalledWith('\x1b[?u\x1b[c');
+      expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[>4;2m');
+    });
+
+    it('consumes a reply that arrives after deactivation', () => {
+      const { rerender } = renderHook(({ isActive }) => useTerminalInput(handler, { isActive }), {
+        initialProps: { isActive: true },
+      });
+      rerender({ isActive: false });
+
+      mockStdout.write.mockClear();
+      send('\x1b[?0u\x1b[?62;22c');
+      expect(mockStdout.write).not.toHaveBeenCalled();
+
+      rerender({ isActive: true });
+      send('x');
+      expect(mockStdout.write).not.toHaveBeenCalledWith('\x1b[?u\x1b[c');
+      expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[>1u');
+      expect(events).toEqual([{ type: 'key', key: {}, input: 'x' }]);
+    });
+
+    it('lets a reactivated input finish an unanswered query', () => {
+      const { rerender } = renderHook(({ isActive }) => useTerminalInput(handler, { isActive }), {
+        initialProps: { isActive: true },
+      });
+      rerender({ isActive: false });
+      rerender({ isActive: true });
+      expect(mockStdout.write.mock.calls.filter(([data]) => data === '\x1b[?u\x1b[c')).toHaveLength(1);
+
+      send('\x1b[?62;22c');
+      expect(mockStdout.write).toHaveBeenLastCalledWith('\x1b[>4;2m');
+      expect(mockStdin.listenerCount('data')).toBe(1);
+    });
+
+    it('reports Shift+Enter', () => {
+      renderHook(() => useTerminalInput(handler));
+      send('\x1b[13;2u');
+      expect(events).toEqual([{ type: 'key', key: { return: true, shift: true }, input: '' }]);
+    });
+
+    it('exits on an encoded Ctrl+C', () => {
+      renderHook(() => useTerminalInput(handler));
+      send('\x1b[99;5u');
+      expect(exit).toHaveBeenCalled();
+      expect(events).toEqual([]);
+    });
+
+    it('leaves a plain Ctrl+C to Ink', () => {
+      renderHook(() => useTerminalInput(handler));
+      send('\x03');
+      expect(exit).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -82,6 +82,40 @@ describe('useTextInput', () => {
     expect(result.current.value).toBe('a');
   });
 
+  it('undoes the edits of an undo group as one step', () => {
+    const { result } = renderHook(() => useTextInput({ initialValue: 'x' }));
+
+    act(() => {
+      result.current.beginUndoGroup();
+    });
+    for (const char of 'abc') {
+      act(() => {
+        result.current.insert(char);
+      });
+    }
+    act(() => {
+      result.current.endUndoGroup();
+    });
+    act(() => {
+      result.current.insert('d');
+    });
+    expect(result.current.value).toBe('xabcd');
+
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.value).toBe('xabc');
+    act(() => {
+      result.current.undo();
+    });
+    expect(result.current.value).toBe('x');
+
+    act(() => {
+      result.current.redo();
+    });
+    expect(result.current.value).toBe('xabc');
+  });
+
   it('should remove backslash when deleted at end of line', () => {
     const { result } = renderHook(() => useTextInput({ initialValue: 'hello\\' }));
 
@@ -218,6 +252,27 @@ describe('useTextInput', () => {
     });
   });
 
+  describe('movePage', () => {
+    it('moves the cursor by pageSize rows and clears the selection', () => {
+      const text = Array.from({ length: 10 }, (_, i) => `line ${i}`).join('\n');
+      const { result } = renderHook(() => useTextInput({ initialValue: text, pageSize: 4 }));
+
+      act(() => {
+        result.current.extendSelection('up');
+      });
+      act(() => {
+        result.current.movePage('up');
+      });
+      expect(result.current.cursor).toEqual({ line: 4, column: 6 });
+      expect(result.current.selection).toBeNull();
+
+      act(() => {
+        result.current.movePage('down');
+      });
+      expect(result.current.cursor).toEqual({ line: 8, column: 6 });
+    });
+  });
+
   describe('history limit', () => {
     it('should use default history limit of 100', () => {
       const { result } = renderHook(() => useTextInput());
@@ -391,4 +446,542 @@ describe('useTextInput', () => {
       expect(result.current.value).toBe(valueBefore);
     });
   });
+
+  describe('Selection', () => {
+    it('starts with no selection', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello' }));
+      expect(result.current.selection).toBeNull();
+      expect(result.current.selectedText).toBe('');
+    });
+
+    it('extends selection from the cursor', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello' }));
+
+      act(() => {
+        result.current.extendSelection('left');
+      });
+      act(() => {
+        result.current.extendSelection('left');
+      });
+
+      expect(result.current.selection).toEqual({
+        anchor: { line: 0, column: 5 },
+        head: { line: 0, column: 3 },
+      });
+      expect(result.current.selectedText).toBe('lo');
+    });
+
+    it('replaces the selection when typing', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello world' }));
+
+      act(() => {
+        result.current.extendSelection('lineStart');
+      });
+      act(() => {
+        result.current.insert('bye');
+      });
+
+      expect(result.current.value).toBe('bye');
+      expect(result.current.selection).toBeNull();
+    });
+
+    it('removes the selection on backspace', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'one\ntwo' }));
+
+      act(() => {
+        result.current.extendSelection('up');
+      });
+      act(() => {
+        result.current.delete();
+      });
+
+      expect(result.current.value).toBe('one');
+      expect(result.current.cursor).toEqual({ line: 0, column: 3 });
+    });
+
+    it('removes the selection on forward delete', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'abcdef' }));
+
+      act(() => {
+        result.current.moveCursor('lineStart');
+      });
+      act(() => {
+        result.current.extendSelection('right');
+      });
+      act(() => {
+        result.current.extendSelection('right');
+      });
+      act(() => {
+        result.current.deleteForward();
+      });
+
+      expect(result.current.value).toBe('cdef');
+      expect(result.current.cursor).toEqual({ line: 0, column: 0 });
+    });
+
+    it('collapses the selection to its start on left arrow', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'abcdef' }));
+
+      act(() => {
+        result.current.extendSelection('left');
+      });
+      act(() => {
+        result.current.extendSelection('left');
+      });
+      act(() => {
+        result.current.moveCursor('right');
+      });
+
+      expect(result.current.selection).toBeNull();
+      expect(result.current.cursor).toEqual({ line: 0, column: 6 });
+    });
+
+    it('restores the selected text on undo', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello' }));
+
+      act(() => {
+        result.current.extendSelection('lineStart');
+      });
+      act(() => {
+        result.current.insert('x');
+      });
+      act(() => {
+        result.current.undo();
+      });
+
+      expect(result.current.value).toBe('hello');
+      expect(result.current.selection).toBeNull();
+    });
+
+    it('clears the selection', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello' }));
+
+      act(() => {
+        result.current.extendSelection('left');
+      });
+      act(() => {
+        result.current.clearSelection();
+      });
+
+      expect(result.current.selection).toBeNull();
+      expect(result.current.cursor).toEqual({ line: 0, column: 4 });
+    });
+  });
+
+  describe('Word operations', () => {
+    it('moves by words', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'alpha beta gamma' }));
+
+      act(() => {
+        result.current.moveCursor('wordLeft');
+      });
+      expect(result.current.cursor).toEqual({ line: 0, column: 11 });
+
+      act(() => {
+        result.current.moveCursor('wordLeft');
+      });
+      expect(result.current.cursor).toEqual({ line: 0, column: 6 });
+    });
+
+    it('deletes the previous word with undo support', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'alpha beta' }));
+
+      act(() => {
+        result.current.deleteWordBackward();
+      });
+      expect(result.current.value).toBe('alpha ');
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.value).toBe('alpha beta');
+    });
+
+    it('deletes the next word', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'alpha beta' }));
+
+      act(() => {
+        result.current.moveCursor('lineStart');
+      });
+      act(() => {
+        result.current.deleteWordForward();
+      });
+
+      expect(result.current.value).toBe(' beta');
+    });
+
+    it('uses the configured word character definition', () => {
+      const isWordChar = (char: string) => /\S/.test(char);
+      const { result } = renderHook(() => useTextInput({ initialValue: 'cd ~/src/app', isWordChar }));
+
+      act(() => {
+        result.current.deleteWordBackward();
+      });
+
+      expect(result.current.value).toBe('cd ');
+    });
+  });
+
+  describe('Kill ring', () => {
+    it('kills to end of line and yanks it back', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello world' }));
+
+      act(() => {
+        result.current.moveCursor('wordLeft');
+      });
+      act(() => {
+        result.current.killToLineEnd();
+      });
+      expect(result.current.value).toBe('hello ');
+      expect(result.current.killRing).toEqual(['world']);
+
+      act(() => {
+        result.current.moveCursor('lineStart');
+      });
+      act(() => {
+        result.current.yank();
+      });
+      expect(result.current.value).toBe('worldhello ');
+    });
+
+    it('appends consecutive forward kills to one entry', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'one\ntwo' }));
+
+      act(() => {
+        result.current.setCursorOffset(0);
+      });
+      act(() => {
+        result.current.killToLineEnd();
+      });
+      act(() => {
+        result.current.killToLineEnd();
+      });
+      act(() => {
+        result.current.killToLineEnd();
+      });
+
+      expect(result.current.value).toBe('');
+      expect(result.current.killRing).toEqual(['one\ntwo']);
+    });
+
+    it('prepends consecutive backward kills to one entry', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'alpha beta' }));
+
+      act(() => {
+        result.current.deleteWordBackward();
+      });
+      act(() => {
+        result.current.deleteWordBackward();
+      });
+
+      expect(result.current.killRing).toEqual(['alpha beta']);
+    });
+
+    it('starts a new entry when a kill follows other input', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'alpha beta' }));
+
+      act(() => {
+        result.current.deleteWordBackward();
+      });
+      act(() => {
+        result.current.moveCursor('left');
+      });
+      act(() => {
+        result.current.killToLineStart();
+      });
+
+      expect(result.current.killRing).toEqual(['alpha', 'beta']);
+    });
+
+    it('cycles older kills with yank-pop', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'a b c' }));
+
+      // Kill three separate words (moving in between breaks the append chain)
+      for (let i = 0; i < 3; i++) {
+        act(() => {
+          result.current.deleteWordBackward();
+        });
+        act(() => {
+          result.current.moveCursor('left');
+        });
+      }
+      expect(result.current.killRing).toEqual(['a', 'b', 'c']);
+
+      act(() => {
+        result.current.setText('');
+      });
+      act(() => {
+        result.current.yank();
+      });
+      expect(result.current.value).toBe('a');
+
+      act(() => {
+        result.current.yankPop();
+      });
+      expect(result.current.value).toBe('b');
+
+      act(() => {
+        result.current.yankPop();
+      });
+      expect(result.current.value).toBe('c');
+
+      act(() => {
+        result.current.yankPop();
+      });
+      expect(result.current.value).toBe('a');
+    });
+
+    it('ignores yank-pop when not directly after a yank', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'x y' }));
+
+      act(() => {
+        result.current.deleteWordBackward();
+      });
+      act(() => {
+        result.current.moveCursor('left');
+      });
+      act(() => {
+        result.current.deleteWordBackward();
+      });
+      act(() => {
+        result.current.yank();
+      });
+      act(() => {
+        result.current.insert('!');
+      });
+      act(() => {
+        result.current.yankPop();
+      });
+
+      expect(result.current.value).toBe('x! ');
+    });
+
+    it('does nothing when yanking from an empty kill ring', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'abc' }));
+
+      act(() => {
+        result.current.yank();
+      });
+
+      expect(result.current.value).toBe('abc');
+    });
+
+    it('respects the kill ring limit', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'a b c', killRingLimit: 2 }));
+
+      for (let i = 0; i < 3; i++) {
+        act(() => {
+          result.current.deleteWordBackward();
+        });
+        act(() => {
+          result.current.moveCursor('left');
+        });
+      }
+
+      expect(result.current.killRing).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('applyEdit', () => {
+    it('replaces buffer and cursor as one undoable change', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'foo bar' }));
+
+      act(() => {
+        result.current.applyEdit({ lines: ['bar'] }, { line: 0, column: 0 });
+      });
+      expect(result.current.value).toBe('bar');
+      expect(result.current.cursor).toEqual({ line: 0, column: 0 });
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.value).toBe('foo bar');
+    });
+
+    it('does not record cursor-only changes in history', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'abc' }));
+
+      act(() => {
+        result.current.insert('d');
+      });
+      act(() => {
+        result.current.applyEdit({ lines: ['abcd'] }, { line: 0, column: 1 });
+      });
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.value).toBe('abc');
+    });
+  });
+
+  describe('Mark and region', () => {
+    it('extends the region from the mark as the cursor moves', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello world' }));
+
+      act(() => {
+        result.current.setMark();
+      });
+      act(() => {
+        result.current.moveCursor('wordLeft');
+      });
+
+      expect(result.current.selectedText).toBe('world');
+    });
+
+    it('kills the region into the kill ring', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello world' }));
+
+      act(() => {
+        result.current.setMark();
+      });
+      act(() => {
+        result.current.moveCursor('wordLeft');
+      });
+      act(() => {
+        result.current.killRegion();
+      });
+
+      expect(result.current.value).toBe('hello ');
+      expect(result.current.killRing).toEqual(['world']);
+    });
+
+    it('extends the region when the cursor is placed while the mark is active', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello world' }));
+
+      act(() => {
+        result.current.setMark();
+      });
+      act(() => {
+        result.current.setCursorOffset(6);
+      });
+
+      expect(result.current.selectedText).toBe('world');
+    });
+
+    it('kills the previous word when there is no region', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello world' }));
+
+      act(() => {
+        result.current.killRegion();
+      });
+
+      expect(result.current.value).toBe('hello ');
+    });
+
+    it('kills the text between two positions', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'one two three' }));
+
+      act(() => {
+        result.current.killText({ line: 0, column: 8 }, { line: 0, column: 13 }, 'backward');
+      });
+      act(() => {
+        result.current.killText({ line: 0, column: 4 }, { line: 0, column: 8 }, 'backward');
+      });
+
+      expect(result.current.value).toBe('one ');
+      expect(result.current.killRing).toEqual(['two three']);
+    });
+
+    it('copies the region and deactivates the mark', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello world' }));
+
+      act(() => {
+        result.current.setMark();
+      });
+      act(() => {
+        result.current.moveCursor('wordLeft');
+      });
+      act(() => {
+        result.current.copyRegion();
+      });
+      act(() => {
+        result.current.moveCursor('left');
+      });
+
+      expect(result.current.value).toBe('hello world');
+      expect(result.current.killRing).toEqual(['world']);
+      expect(result.current.selection).toBeNull();
+    });
+
+    it('swaps cursor and mark', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'hello world' }));
+
+      act(() => {
+        result.current.setMark();
+      });
+      act(() => {
+        result.current.moveCursor('lineStart');
+      });
+      act(() => {
+        result.current.exchangePointAndMark();
+      });
+
+      expect(result.current.cursor).toEqual({ line: 0, column: 11 });
+      expect(result.current.selectedText).toBe('hello world');
+    });
+
+    it('drops the mark after an edit', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'abc' }));
+
+      act(() => {
+        result.current.setMark();
+      });
+      act(() => {
+        result.current.insert('d');
+      });
+      act(() => {
+        result.current.moveCursor('left');
+      });
+
+      expect(result.current.selection).toBeNull();
+    });
+  });
+
+  describe('Transposition and case', () => {
+    it('transposes characters as an undoable edit', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'ab' }));
+
+      act(() => {
+        result.current.transposeChars();
+      });
+      expect(result.current.value).toBe('ba');
+
+      act(() => {
+        result.current.undo();
+      });
+      expect(result.current.value).toBe('ab');
+    });
+
+    it('transposes words', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'foo bar' }));
+
+      act(() => {
+        result.current.transposeWords();
+      });
+      expect(result.current.value).toBe('bar foo');
+    });
+
+    it('changes word case from the cursor', () => {
+      const { result } = renderHook(() => useTextInput({ initialValue: 'one two' }));
+
+      act(() => {
+        result.current.setCursorOffset(0);
+      });
+      act(() => {
+        result.current.upcaseWord();
+      });
+      act(() => {
+        result.current.capitalizeWord();
+      });
+      expect(result.current.value).toBe('ONE Two');
+
+      act(() => {
+        result.current.setCursorOffset(0);
+      });
+      act(() => {
+        result.current.downcaseWord();
+      });
+      expect(result.current.value).toBe('one Two');
+    });
+  });
 });
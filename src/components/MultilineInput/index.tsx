@@ -1,11 +1,66 @@
-import React, { useEffect, useCallback, useRef } from 'react';
-import { useInput, useStdin, Box, Text } from 'ink';
+import React, { useEffect, useCallback, useMemo, useRef, useState } from 'react';
+import { Box, Text } from 'ink';
 import { useTerminalWidth } from '../../hooks/useTerminalWidth.js';
 import { useTextInput } from './useTextInput.js';
+import { type TerminalInput, useTerminalInput } from './useTerminalInput.js';
+import { usePromptHistory } from './usePromptHistory.js';
 import { handleKey, KeyHandlerActions } from './KeyHandler.js';
+import { type Keymap, type KeySequenceState, keyToChord } from './Keymap.js';
+import type { CommandRegistry } from './Commands.js';
+import { type ViMode, type ViState, createViState, getViSelection } from './ViMode.js';
+import {
+  type HistorySearchMatcher,
+  type HistorySearchState,
+  createHistorySearch,
+  handleHistorySearchKey,
+  extendHistorySearch,
+  formatHistorySearchPrompt,
+} from './HistorySearch.js';
+import { type CompletionCandidate, type CompletionProvider, getCompletionKeyAction, applyCompletion } from './Completion.js';
+import { type UseCompletionResult, useCompletion } from './useCompletion.js';
+import {
+  type Trigger,
+  type AtomicToken,
+  createTriggerProvider,
+  findTriggerMatch,
+  findAtomicTokenBefore,
+  updateAtomicTokens,
+} from './Triggers.js';
+import { CompletionMenu } from './CompletionMenu.js';
+import { type Suggester, createHistorySuggester, getSuggestionWord } from './Suggestion.js';
+import { useSuggestion } from './useSuggestion.js';
+import { createMarkdownDecorator } from './Markdown.js';
+import {
+  type PasteCollapseOptions,
+  type PastedText,
+  shouldCollapsePaste,
+  formatPasteToken,
+  expandPasteTokens,
+  findPasteAt,
+  expandToPasteTokens,
+  findPasteTokens,
+  keepRangesWhole,
+} from './Paste.js';
 import { TextRenderer } from './TextRenderer.js';
-import { createBuffer } from './TextBuffer.js';
+import {
+  createBuffer,
+  getCursor,
+  getOffset,
+  getTextContent,
+  getSelectionRange,
+  deleteRange,
+  deleteChar,
+  deleteCharForward,
+  deleteWordBackward,
+  deleteWordForward,
+  killToLineEnd,
+  killToLineStart,
+  moveCursor,
+  moveCursorRows,
+} from './TextBuffer.js';
 import { log } from '../../utils/logger.js';
+import type { Buffer, Cursor, Decorator, Direction, Key, SubmitMode, WordCharPredicate, WrapMode, WrapStrategy } from './types.js';
+import { resolveWrapStrategy } from './Wrap.js';
 
 export interface MultilineInputProps {
   /**
@@ -60,6 +115,138 @@ export interface MultilineInputProps {
    * - 'right': cursor is at end of text (after last character)
    */
   onBoundaryArrow?: (direction: 'up' | 'down' | 'left' | 'right') => void;
+  /**
+   * Decides which characters belong to a word for word-wise motions
+   * (Alt+B/F, Ctrl+Left/Right) and deletions (Ctrl+W, Alt+D). Defaults to
+   * letters, digits and underscore.
+   */
+  isWordChar?: WordCharPredicate;
+  /**
+   * What Ctrl+Y does. 'redo' (default) keeps the undo/redo pairing with
+   * Ctrl+Z; 'yank' follows readline and pastes the most recent text killed
+   * with Ctrl+K, Ctrl+U, Ctrl+W or Alt+D (Alt+Y then cycles older kills).
+   */
+  ctrlY?: 'redo' | 'yank';
+  /**
+   * What Enter does:
+   * - 'classic' (default): Enter submits
+   * - 'newline-first': Enter inserts a newline; Ctrl+Enter, Alt+Enter or
+   *   Ctrl+S submits
+   * - 'double-enter': Enter inserts a newline, and submits when pressed on
+   *   an empty last line (which is dropped from the submitted text)
+   */
+  submitMode?: SubmitMode;
+  /**
+   * Whether Enter at the end of a line ending in `\` removes the backslash
+   * and inserts a newline instead of submitting (default true). Applies to
+   * the 'classic' submit mode.
+   */
+  backslashContinuation?: boolean;
+  /**
+   * Key bindings merged over the default keymap, e.g.
+   * `{ 'ctrl+x ctrl+e': 'openEditor', 'ctrl+z': null }`. A null value
+   * unbinds the chord so it does nothing.
+   */
+  keymap?: Keymap;
+  /**
+   * Custom commands that keymap bindings can refer to by name. They take
+   * precedence over the built-in commands of the same name.
+   */
+  commands?: CommandRegistry;
+  /**
+   * Enable vi-style modal editing. The input starts in insert mode; Esc
+   * switches to normal mode (motions, operators, counts, `.` repeat) and
+   * `v` to visual mode.
+   */
+  viMode?: boolean;
+  /**
+   * Called when the vi mode changes, e.g. to show a mode indicator.
+   */
+  onViModeChange?: (mode: ViMode) => void;
+  /**
+   * Past submissions, oldest first. When provided, Up on the first row
+   * recalls older entries and Down walks back to the in-progress draft;
+   * each submission is appended and reported through `onHistoryChange`.
+   * Keep the array in state (a new array on every render resets browsing).
+   */
+  history?: string[];
+  /**
+   * Called with the updated history after a submission is added.
+   */
+  onHistoryChange?: (history: string[]) => void;
+  /**
+   * How Ctrl+R reverse search matches history entries: 'substring'
+   * (default) or 'fuzzy' (characters in order, case-insensitive).
+   */
+  historySearch?: HistorySearchMatcher;
+  /**
+   * Supplies Tab completion candidates for the text and cursor offset,
+   * synchronously or as a promise. Tab opens a menu below the cursor (a
+   * single candidate is inserted directly); Tab/Shift+Tab or Up/Down move
+   * through it, Enter accepts and Esc dismisses.
+   */
+  completionProvider?: CompletionProvider;
+  /**
+   * Fish-style ghost text after the cursor: 'history' suggests the rest of
+   * the newest matching history entry, or pass a function returning the
+   * continuation (synchronously or as a promise). Right at the end of the
+   * text (or Tab without a completion provider) accepts it, Alt+F accepts
+   * one word.
+   */
+  suggestions?: 'history' | Suggester;
+  /**
+   * Characters that open a picker when typed, e.g.
+   * `[{ char: '/', lineStart: true, items: commands }, { char: '@', items: files, atomic: true }]`.
+   * The picker filters as you type; accepting inserts the trigger, the
+   * value and a space. Atomic tokens are deleted whole by Backspace.
+   */
+  triggers?: Trigger[];
+  /**
+   * Styles ranges of the text, e.g. slash-commands, mentions or code
+   * fences: 'markdown' highlights Markdown, or pass a function that receives
+   * the buffer lines and returns `{ line, start, end, style }` ranges. It runs
+   * again whenever the text changes, so keep it cheap and pass a stable
+   * function.
+   */
+  decorator?: 'markdown' | Decorator;
+  /**
+   * Maximum number of rows to show. Longer input scrolls to keep the cursor
+   * in view, and PageUp/PageDown move by this many rows.
+   */
+  maxHeight?: number;
+  /** Minimum number of rows to show; shorter input is padded with empty rows */
+  minHeight?: number;
+  /** Rows kept visible above and below the cursor while scrolling (default: 1) */
+  scrollOff?: number;
+  /** Show a dimmed "rows x–y of n" line below the input while it scrolls (default: false) */
+  scrollIndicator?: boolean;
+  /**
+   * How long lines are displayed: 'word' (default) wraps at spaces,
+   * 'character' anywhere, and 'hanging' at spaces with continuation rows
+   * indented under the text after leading whitespace or a list bullet; a
+   * custom WrapStrategy works too. Up/Down follow the wrapped rows. 'none'
+   * keeps each line on one row and scrolls horizontally to the cursor, with
+   * '…' marking clipped text; Up and Down then move between buffer lines.
+   */
+  wrap?: WrapMode | WrapStrategy;
+  /**
+   * Called with pasted text before it is inserted (line endings normalized
+   * to \n). Return a string to insert instead, or false to drop the paste.
+   * Pastes are inserted as one undo step and never submit, whatever
+   * newlines they contain; this relies on the terminal's bracketed paste
+   * mode, which is enabled while the input is active.
+   */
+  onPaste?: (text: string) => string | false | void;
+  /**
+   * Show large pastes as a single `[Pasted text #1, 2000 lines]` token
+   * instead of their text. `true` collapses pastes over 10 lines or 1000
+   * characters; pass `{ lines, chars }` to change the limits. Tokens are
+   * replaced by their text in the value passed to `onSubmit` (`onChange`
+   * still sees the tokens), Ctrl+O expands or collapses the paste at the
+   * cursor, and tokens are edited whole: the cursor steps over them, and
+   * deleting or killing into one removes it.
+   */
+  collapsePastes?: boolean | PasteCollapseOptions;
 }
 
 /**
@@ -118,7 +305,7 @@ export interface MultilineInputCoreProps {
 
 /**
  * Core rendering component that can be tested without Ink runtime.
- * Does not include useInput/useStdout hooks.
+ * Does not include useTerminalInput/useStdout hooks.
  */
 export const MultilineInputCore: React.FC<MultilineInputCoreProps> = ({
   value,
@@ -193,6 +380,7 @@ export const MultilineInputCore: React.FC<MultilineInputCoreProps> = ({
     <TextRenderer
       buffer={buffer}
       cursor={textInput.cursor}
+      selection={textInput.selection}
       width={width}
       showCursor={showCursor}
     />
@@ -214,30 +402,51 @@ export const MultilineInput: React.FC<MultilineInputProps> = ({
   onCursorChange,
   cursorOverride,
   onBoundaryArrow,
+  isWordChar,
+  ctrlY = 'redo',
+  submitMode = 'classic',
+  backslashContinuation = true,
+  keymap,
+  commands,
+  viMode = false,
+  onViModeChange,
+  history,
+  onHistoryChange,
+  historySearch = 'substring',
+  completionProvider,
+  suggestions,
+  triggers,
+  decorator,
+  maxHeight,
+  minHeight,
+  scrollOff,
+  scrollIndicator,
+  wrap = 'word',
+  onPaste,
+  collapsePastes = false,
 }) => {
 
   // Get terminal width from Ink (with resize support) if not provided
   const terminalWidth = useTerminalWidth(width);
+  // Up/Down follow wrapped rows only when lines wrap
+  const wrapStrategy = resolveWrapStrategy(wrap);
+  const navigationWidth = wrapStrategy ? terminalWidth : undefined;
 
-  // Track raw input for detecting Home/End keys
-  const { stdin } = useStdin();
-  const lastRawInput = useRef<string>('');
+  const textInput = useTextInput({ initialValue: value ?? '', width: navigationWidth, isWordChar, pageSize: maxHeight, wrapStrategy });
 
-  // Listen for raw stdin data to capture escape sequences
-  useEffect(() => {
-    if (!stdin || !isActive) return;
-
-    const handleData = (data: Buffer) => {
-      lastRawInput.current = data.toString();
-    };
+  // Collapsed pastes of the current entry, numbered from 1
+  const pastedTexts = useRef<PastedText[]>([]);
 
-    stdin.on('data', handleData);
-    return () => {
-      stdin.off('data', handleData);
-    };
-  }, [stdin, isActive]);
+  // Keys pressed so far in an unfinished multi-key sequence
+  const keySequence = useRef<KeySequenceState>({ pending: [] });
 
-  const textInput = useTextInput({ initialValue: value ?? '', width: terminalWidth });
+  // Vi editor state, updated in place by handleKey
+  const viState = useRef<ViState>(createViState());
+  const [currentViMode, setCurrentViMode] = useState<ViMode>(viState.current.mode);
+  const onViModeChangeRef = useRef(onViModeChange);
+  useEffect(() => {
+    onViModeChangeRef.current = onViModeChange;
+  }, [onViModeChange]);
 
   // Handle cursor override
   useEffect(() => {
@@ -285,32 +494,418 @@ export const MultilineInput: React.FC<MultilineInputProps> = ({
   // Create buffer for TextRenderer and KeyHandler
   const buffer = createBuffer(textInput.value);
 
+  const promptHistory = usePromptHistory({ history, onHistoryChange });
+  const isHistoryEnabled = history !== undefined;
+
+  const acceptCompletion = useCallback((candidate: CompletionCandidate) => {
+    const result = applyCompletion(textInput.value, candidate);
+    const nextBuffer = createBuffer(result.text);
+    textInput.applyEdit(nextBuffer, getCursor(nextBuffer, result.cursorOffset));
+  }, [textInput.value, textInput.applyEdit]);
+
+  const completion = useCompletion({
+    provider: completionProvider,
+    text: textInput.value,
+    cursorOffset: textInput.cursorOffset,
+    onAccept: acceptCompletion,
+  });
+
+  // Trigger pickers ('/', '@', ...) share the completion menu machinery
+  const triggerProvider = useMemo(() => (triggers ? createTriggerProvider(triggers) : undefined), [triggers]);
+
+  // Picked tokens that Backspace deletes as a unit, by position in `value`
+  const atomicTokens = useRef<{ value: string; tokens: AtomicToken[] }>({ value: textInput.value, tokens: [] });
+
+  // Follow each edit, dropping tokens that were edited
+  useEffect(() => {
+    const { value, tokens } = atomicTokens.current;
+    atomicTokens.current = { value: textInput.value, tokens: updateAtomicTokens(tokens, value, textInput.value) };
+  }, [textInput.value]);
+
+  const acceptPick = useCallback((candidate: CompletionCandidate) => {
+    acceptCompletion(candidate);
+    const match = triggers && findTriggerMatch(textInput.value, candidate.end, triggers);
+    if (match?.trigger.atomic) {
+      const { value, tokens } = atomicTokens.current;
+      const next = applyCompletion(textInput.value, candidate).text;
+      atomicTokens.current = {
+        value: next,
+        tokens: [...updateAtomicTokens(tokens, value, next), { start: candidate.start, text: candidate.value.trimEnd() }],
+      };
+    }
+  }, [acceptCompletion, textInput.value, triggers]);
+
+  const picker = useCompletion({
+    provider: triggerProvider,
+    text: textInput.value,
+    cursorOffset: textInput.cursorOffset,
+    onAccept: acceptPick,
+  });
+
+  // Open the picker when a trigger character has just been typed
+  useEffect(() => {
+    if (!triggers || picker.menu) return;
+    const match = findTriggerMatch(textInput.value, textInput.cursorOffset, triggers);
+    if (match && match.query === '') {
+      picker.open();
+    }
+  }, [textInput.value]);
+
+  const deleteTokenBackward = useCallback(() => {
+    if (textInput.selection) return false;
+    const before = textInput.value.slice(0, textInput.cursorOffset);
+    const paste = pastedTexts.current.find(({ token }) => before.endsWith(token));
+    const start = paste
+      ? textInput.cursorOffset - paste.token.length
+      : findAtomicTokenBefore(textInput.value, textInput.cursorOffset, atomicTokens.current.tokens);
+    if (start === undefined) return false;
+
+    const nextBuffer = createBuffer(textInput.value.slice(0, start) + textInput.value.slice(textInput.cursorOffset));
+    textInput.applyEdit(nextBuffer, getCursor(nextBuffer, start));
+    return true;
+  }, [textInput.selection, textInput.value, textInput.cursorOffset, textInput.applyEdit]);
+
+  // Swap the paste at the cursor between its token and its text
+  const togglePaste = useCallback(() => {
+    const location = findPasteAt(textInput.value, textInput.cursorOffset, pastedTexts.current);
+    if (!location) return false;
+
+    const replacement = location.expanded ? location.paste.token : location.paste.text;
+    const nextBuffer = createBuffer(
+      textInput.value.slice(0, location.start) + replacement + textInput.value.slice(location.end)
+    );
+    textInput.applyEdit(nextBuffer, getCursor(nextBuffer, location.start + replacement.length));
+    return true;
+  }, [textInput.value, textInput.cursorOffset, textInput.applyEdit]);
+
+  // The open menu, if any (a trigger picker takes precedence)
+  const activeMenu: UseCompletionResult | undefined = picker.menu ? picker : completion.menu ? completion : undefined;
+
   // Create submit handler
-  const handleSubmit = useCallback(() => {
-    onSubmit?.(textInput.value);
+  const handleSubmit = useCallback((text: string = textInput.value) => {
+    const submitted = expandPasteTokens(text, pastedTexts.current);
+    onSubmit?.(submitted);
+    if (isHistoryEnabled) {
+      promptHistory.add(submitted);
+    }
     textInput.setText(''); // Clear input after submit
-  }, [onSubmit, textInput.value, textInput.setText]);
+    pastedTexts.current = [];
+    atomicTokens.current = { value: '', tokens: [] };
+    completion.dismiss();
+    picker.dismiss();
+
+    // Start the next entry in insert mode, like a shell in vi mode
+    // (the mode change is reported after the key is handled)
+    Object.assign(viState.current, { mode: 'insert', pending: [], visualAnchor: null, recording: null });
+  }, [onSubmit, textInput.value, textInput.setText, isHistoryEnabled, promptHistory.add, completion.dismiss, picker.dismiss]);
+
+  // Recall history entries at the top/bottom boundary
+  const historyPrevious = useCallback(() => {
+    const entry = promptHistory.previous(textInput.value);
+    if (entry === undefined) return false;
+    textInput.setText(entry);
+    return true;
+  }, [promptHistory.previous, textInput.value, textInput.setText]);
+
+  const historyNext = useCallback(() => {
+    const entry = promptHistory.next();
+    if (entry === undefined) return false;
+    textInput.setText(entry);
+    return true;
+  }, [promptHistory.next, textInput.setText]);
+
+  // Reverse incremental search (Ctrl+R); null when not searching
+  const [search, setSearch] = useState<HistorySearchState | null>(null);
+  // A key that ended the search and still has to run (see handleSearchKey)
+  const searchExitKey = useRef<{ key: Key; input: string } | null>(null);
+
+  const startHistorySearch = useCallback(() => {
+    completion.dismiss();
+    picker.dismiss();
+    setSearch(createHistorySearch());
+  }, [completion.dismiss, picker.dismiss]);
+
+  const openCompletion = useCallback(() => completion.open(true), [completion.open]);
+
+  const handleMenuKey = (menu: UseCompletionResult, key: Key, input: string): boolean => {
+    const action = getCompletionKeyAction(keyToChord(key, input));
+    if (!action) return false;
+
+    if (action === 'next') menu.next();
+    else if (action === 'previous') menu.previous();
+    // Out-of-date candidates close the menu and leave the key to the keymap
+    else if (action === 'accept') return menu.accept();
+    else menu.dismiss();
+    return true;
+  };
+
+  const handleSearchKey = (key: Key, input: string) => {
+    if (!search) return;
+
+    const chord = keyToChord(key, input);
+    const result = handleHistorySearchKey(search, chord, input, promptHistory.entries, historySearch);
+    if (result.type === 'update') {
+      setSearch(result.state);
+      return;
+    }
+
+    setSearch(null);
+    if (result.type === 'accept' && result.text !== undefined) {
+      promptHistory.reset();
+      const nextBuffer = createBuffer(result.text);
+      textInput.applyEdit(nextBuffer, getCursor(nextBuffer, search.matchOffset));
+    }
+    if (result.type === 'accept' && result.runKey) {
+      // Handled once the accepted entry has rendered
+      searchExitKey.current = { key, input };
+    }
+  };
+
+  // Ghost-text suggestion, shown only while the cursor is at the end of the text
+  // The Markdown decorator caches tokens, so each input keeps its own
+  const resolvedDecorator = useMemo(
+    () => (decorator === 'markdown' ? createMarkdownDecorator() : decorator),
+    [decorator]
+  );
+
+  const historySuggester = useMemo(() => createHistorySuggester(promptHistory.entries), [promptHistory.entries]);
+  const suggestion = useSuggestion({
+    text: textInput.value,
+    suggester: suggestions === 'history' ? historySuggester : suggestions,
+  });
+  const visibleSuggestion =
+    !search && !activeMenu && !textInput.selection && textInput.cursorOffset === textInput.value.length
+      ? suggestion
+      : undefined;
+
+  const acceptSuggestion = useCallback(() => {
+    if (!visibleSuggestion) return false;
+    textInput.insert(visibleSuggestion);
+    return true;
+  }, [visibleSuggestion, textInput.insert]);
+
+  const acceptSuggestionWord = useCallback(() => {
+    if (!visibleSuggestion) return false;
+    textInput.insert(getSuggestionWord(visibleSuggestion, isWordChar));
+    return true;
+  }, [visibleSuggestion, textInput.insert, isWordChar]);
+
+  // Paste tokens are edited whole. Offsets of the selection, or of the text
+  // an edit at the cursor would remove:
+  const selectedRange = () => {
+    const range = getSelectionRange(textInput.selection!);
+    return { start: getOffset(buffer, range.start), end: getOffset(buffer, range.end) };
+  };
+  const removedAtCursor = (edit: (buffer: Buffer, cursor: Cursor) => { buffer: Buffer; cursor: Cursor }) => () => {
+    const result = edit(buffer, textInput.cursor);
+    const start = getOffset(result.buffer, result.cursor);
+    return { start, end: start + textInput.value.length - getTextContent(result.buffer).length };
+  };
+  const removedBy = (edit: (buffer: Buffer, cursor: Cursor) => { buffer: Buffer; cursor: Cursor }) =>
+    textInput.selection ? selectedRange : removedAtCursor(edit);
+
+  // Run a deleting edit, or if the text it removes cuts into a paste token,
+  // remove (or kill) the whole token along with it
+  const deleteKeepingPastes = (
+    run: () => void,
+    getRange: () => { start: number; end: number },
+    kill?: 'forward' | 'backward'
+  ) => () => {
+    if (pastedTexts.current.length === 0) return run();
+    const { start, end } = getRange();
+    const widened = expandToPasteTokens(textInput.value, start, end, pastedTexts.current);
+    if (widened.start === start && widened.end === end) return run();
+
+    const from = getCursor(buffer, widened.start);
+    const to = getCursor(buffer, widened.end);
+    if (kill) {
+      textInput.killText(from, to, kill);
+    } else {
+      const result = deleteRange(buffer, from, to);
+      textInput.applyEdit(result.buffer, result.cursor);
+    }
+  };
+
+  // Run an inserting edit, or if it would land inside a paste token, insert
+  // after the token (replacing a selection that cuts into one whole)
+  const insertKeepingPastes = (text: string, run: () => void) => {
+    if (pastedTexts.current.length === 0) return run();
+    const offset = textInput.cursorOffset;
+    const { start, end } = textInput.selection ? selectedRange() : { start: offset, end: offset };
+    const widened = expandToPasteTokens(textInput.value, start, end, pastedTexts.current);
+    if (widened.start === start && widened.end === end) return run();
+
+    const from = start === end ? widened.end : widened.start;
+    const nextBuffer = createBuffer(textInput.value.slice(0, from) + text + textInput.value.slice(widened.end));
+    textInput.applyEdit(nextBuffer, getCursor(nextBuffer, from + text.length));
+  };
+
+  // The cursor never rests inside a collapsed paste: a move that would end
+  // inside one goes on to its far side, so tokens are stepped over whole
+  const stepOverPastes = (offset: number) => {
+    const range = expandToPasteTokens(textInput.value, offset, offset, pastedTexts.current);
+    if (range.start === offset) return offset;
+    return offset < textInput.cursorOffset ? range.start : range.end;
+  };
+
+  const moveKeepingPastes = (move: () => void, target: () => Cursor) => {
+    if (pastedTexts.current.length === 0 || textInput.selection) return move();
+    const next = getOffset(buffer, target());
+    const offset = stepOverPastes(next);
+    if (offset === next) return move();
+    textInput.setCursorOffset(offset);
+  };
+
+  // Vi commands replace the buffer without knowing about tokens, so their
+  // edits are redone to keep paste and atomic tokens whole
+  const applyEditKeepingTokens = (nextBuffer: Buffer, nextCursor: Cursor) => {
+    if (getTextContent(nextBuffer) === textInput.value) {
+      // A vi motion
+      return textInput.applyEdit(nextBuffer, getCursor(nextBuffer, stepOverPastes(getOffset(nextBuffer, nextCursor))));
+    }
+    const { value, tokens } = atomicTokens.current;
+    const ranges = [
+      ...findPasteTokens(textInput.value, pastedTexts.current),
+      ...(value === textInput.value ? tokens.map(({ start, text }) => ({ start, end: start + text.length })) : []),
+    ];
+    if (ranges.length === 0) return textInput.applyEdit(nextBuffer, nextCursor);
+
+    const result = keepRangesWhole(textInput.value, getTextContent(nextBuffer), getOffset(nextBuffer, nextCursor), ranges);
+    const keptBuffer = createBuffer(result.value);
+    textInput.applyEdit(keptBuffer, getCursor(keptBuffer, result.cursorOffset));
+  };
 
   // Create actions for KeyHandler
   const actions: KeyHandlerActions = {
-    insert: textInput.insert,
-    delete: textInput.delete,
-    deleteForward: textInput.deleteForward,
-    newLine: textInput.newLine,
+    insert: (text) => insertKeepingPastes(text, () => textInput.insert(text)),
+    delete: deleteKeepingPastes(textInput.delete, removedBy(deleteChar)),
+    deleteForward: deleteKeepingPastes(textInput.deleteForward, removedBy(deleteCharForward)),
+    deleteWordBackward: deleteKeepingPastes(
+      textInput.deleteWordBackward,
+      removedBy((buffer, cursor) => deleteWordBackward(buffer, cursor, isWordChar)),
+      textInput.selection ? undefined : 'backward'
+    ),
+    deleteWordForward: deleteKeepingPastes(
+      textInput.deleteWordForward,
+      removedBy((buffer, cursor) => deleteWordForward(buffer, cursor, isWordChar)),
+      textInput.selection ? undefined : 'forward'
+    ),
+    killToLineEnd: deleteKeepingPastes(textInput.killToLineEnd, removedAtCursor(killToLineEnd), 'forward'),
+    killToLineStart: deleteKeepingPastes(textInput.killToLineStart, removedAtCursor(killToLineStart), 'backward'),
+    yank: () => {
+      if (textInput.killRing.length === 0) return;
+      insertKeepingPastes(textInput.killRing[0], textInput.yank);
+    },
+    yankPop: textInput.yankPop,
+    transposeChars: textInput.transposeChars,
+    transposeWords: textInput.transposeWords,
+    upcaseWord: textInput.upcaseWord,
+    downcaseWord: textInput.downcaseWord,
+    capitalizeWord: textInput.capitalizeWord,
+    setMark: textInput.setMark,
+    exchangePointAndMark: textInput.exchangePointAndMark,
+    killRegion: textInput.selection
+      ? deleteKeepingPastes(textInput.killRegion, selectedRange, 'forward')
+      : deleteKeepingPastes(
+        textInput.killRegion,
+        removedAtCursor((buffer, cursor) => deleteWordBackward(buffer, cursor, isWordChar)),
+        'backward'
+      ),
+    copyRegion: textInput.copyRegion,
+    newLine: () => insertKeepingPastes('\n', textInput.newLine),
     deleteAndNewLine: textInput.deleteAndNewLine,
-    moveCursor: textInput.moveCursor,
+    moveCursor: (direction: Direction) => moveKeepingPastes(
+      () => textInput.moveCursor(direction),
+      () => moveCursor(buffer, textInput.cursor, direction, navigationWidth, isWordChar, wrapStrategy)
+    ),
+    movePage: (direction) => moveKeepingPastes(
+      () => textInput.movePage(direction),
+      () => moveCursorRows(buffer, textInput.cursor, (direction === 'up' ? -1 : 1) * (maxHeight ?? 10), navigationWidth, wrapStrategy)
+    ),
+    extendSelection: textInput.extendSelection,
+    clearSelection: textInput.clearSelection,
     undo: textInput.undo,
     redo: textInput.redo,
+    beginUndoGroup: textInput.beginUndoGroup,
+    endUndoGroup: textInput.endUndoGroup,
     setText: textInput.setText,
+    applyEdit: applyEditKeepingTokens,
     submit: handleSubmit,
     onBoundaryArrow,
+    historyPrevious: isHistoryEnabled ? historyPrevious : undefined,
+    historyNext: isHistoryEnabled ? historyNext : undefined,
+    historySearch: isHistoryEnabled ? startHistorySearch : undefined,
+    complete: completionProvider ? openCompletion : undefined,
+    acceptSuggestion,
+    acceptSuggestionWord,
+    deleteTokenBackward,
+    togglePaste,
   };
 
-  // Handle keyboard input
-  useInput((input: string, key: any) => {
-    log(`[USEINPUT] input="${input.replace(/[\x00-\x1F\x7F-\uFFFF]/g, c => `\\x${c.charCodeAt(0).toString(16)}`)}" key=${JSON.stringify(key)} rawLen=${lastRawInput.current?.length || 0}`);
-    handleKey(key, input, buffer, actions, textInput.cursor, lastRawInput.current, terminalWidth);
-  }, { isActive });
+  // Insert a paste as one edit: a single undo step that never submits
+  const handlePaste = (text: string) => {
+    // While searching, a paste extends the query
+    if (search) {
+      setSearch(extendHistorySearch(search, text, promptHistory.entries, historySearch));
+      return;
+    }
+    const transformed = onPaste?.(text);
+    const pasted = transformed === false ? '' : transformed ?? text;
+    if (!pasted) return;
+
+    if (collapsePastes && shouldCollapsePaste(pasted, collapsePastes === true ? undefined : collapsePastes)) {
+      const paste = { token: formatPasteToken(pastedTexts.current.length + 1, pasted), text: pasted };
+      pastedTexts.current.push(paste);
+      actions.insert(paste.token);
+      return;
+    }
+    actions.insert(pasted);
+  };
+
+  const handleInputKey = (key: Key, input: string) => {
+    log(`[INPUT] input="${input.replace(/[\x00-\x1F\x7F-\uFFFF]/g, c => `\\x${c.charCodeAt(0).toString(16)}`)}" key=${JSON.stringify(key)}`);
+    if (search) {
+      handleSearchKey(key, input);
+      return;
+    }
+    // Menu keys go to the open menu; other keys edit (and refine) as usual
+    if (activeMenu && handleMenuKey(activeMenu, key, input)) {
+      return;
+    }
+    handleKey(key, input, buffer, actions, textInput.cursor, undefined, navigationWidth, {
+      ctrlY,
+      submitMode,
+      backslashContinuation,
+      keymap,
+      commands,
+      sequence: keySequence.current,
+      vi: viMode ? viState.current : undefined,
+      isWordChar,
+      wrapStrategy,
+    });
+
+    if (viMode && viState.current.mode !== currentViMode) {
+      setCurrentViMode(viState.current.mode);
+      onViModeChangeRef.current?.(viState.current.mode);
+    }
+  };
+
+  // Run the key that ended a history search, now that the search is closed
+  useEffect(() => {
+    const pending = searchExitKey.current;
+    if (!pending) return;
+    searchExitKey.current = null;
+    handleInputKey(pending.key, pending.input);
+  });
+
+  // Handle keyboard input and pastes
+  useTerminalInput((event: TerminalInput) => {
+    if (event.type === 'paste') {
+      handlePaste(event.text);
+    } else {
+      handleInputKey(event.key, event.input);
+    }
+  }, { isActive, splitText: viMode && currentViMode !== 'insert' });
 
   // Show placeholder if empty and no cursor shown
   const isEmpty = textInput.value === '';
@@ -324,12 +919,54 @@ export const MultilineInput: React.FC<MultilineInputProps> = ({
     );
   }
 
+  if (search) {
+    // Preview the match (or the draft while nothing matches) above the search line
+    const match = search.matchIndex === null ? undefined : promptHistory.entries[search.matchIndex];
+    const previewBuffer = match === undefined ? buffer : createBuffer(match);
+    const previewCursor = match === undefined ? textInput.cursor : getCursor(previewBuffer, search.matchOffset);
+
+    return (
+      <Box flexDirection="column">
+        <TextRenderer
+          buffer={previewBuffer}
+          cursor={previewCursor}
+          width={terminalWidth}
+          showCursor={showCursor}
+          decorator={resolvedDecorator}
+          maxHeight={maxHeight}
+          minHeight={minHeight}
+          scrollOff={scrollOff}
+          scrollIndicator={scrollIndicator}
+          wrap={wrap}
+        />
+        <Text dimColor>{formatHistorySearchPrompt(search)}</Text>
+      </Box>
+    );
+  }
+
+  const selection = viMode && currentViMode === 'visual'
+    ? getViSelection(viState.current, buffer, textInput.cursor)
+    : textInput.selection;
+
+  const menu = activeMenu?.menu;
+  const selectedCandidate = menu?.candidates[menu.selectedIndex];
+
   return (
     <TextRenderer
       buffer={buffer}
       cursor={textInput.cursor}
+      selection={selection}
       width={terminalWidth}
       showCursor={showCursor}
+      menu={menu ? <CompletionMenu candidates={menu.candidates} selectedIndex={menu.selectedIndex} /> : undefined}
+      menuAnchor={selectedCandidate ? getCursor(buffer, selectedCandidate.start) : undefined}
+      suggestion={visibleSuggestion}
+      decorator={resolvedDecorator}
+      maxHeight={maxHeight}
+      minHeight={minHeight}
+      scrollOff={scrollOff}
+      scrollIndicator={scrollIndicator}
+      wrap={wrap}
     />
   );
 };
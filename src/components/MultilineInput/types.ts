@@ -8,6 +8,18 @@ export interface Cursor {
   column: number;
 }
 
+/**
+ * Text selection between a fixed anchor and a moving head.
+ * The head is always the current cursor position; the anchor may come
+ * before or after it.
+ */
+export interface Selection {
+  /** Position where the selection was started */
+  anchor: Cursor;
+  /** Position the selection was extended to (the cursor) */
+  head: Cursor;
+}
+
 /**
  * Text buffer containing multiple lines
  */
@@ -19,7 +31,53 @@ export interface Buffer {
 /**
  * Cursor movement directions
  */
-export type Direction = 'up' | 'down' | 'left' | 'right' | 'lineStart' | 'lineEnd';
+export type Direction =
+  | 'up'
+  | 'down'
+  | 'left'
+  | 'right'
+  | 'lineStart'
+  | 'lineEnd'
+  | 'wordLeft'
+  | 'wordRight';
+
+/**
+ * Decides whether a character (grapheme cluster) is part of a word.
+ * Used by word-wise motions and deletions.
+ */
+export type WordCharPredicate = (char: string) => boolean;
+
+/**
+ * Text styles a decoration can apply (a subset of Ink's `<Text>` props)
+ */
+export interface TextStyle {
+  color?: string;
+  backgroundColor?: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  dimColor?: boolean;
+}
+
+/**
+ * A styled range within one buffer line
+ */
+export interface Decoration {
+  /** Buffer line index */
+  line: number;
+  /** Start column (UTF-16 offset, inclusive) */
+  start: number;
+  /** End column (UTF-16 offset, exclusive) */
+  end: number;
+  style: TextStyle;
+}
+
+/**
+ * Computes decorations for the buffer lines. Later decorations win where
+ * they overlap.
+ */
+export type Decorator = (lines: string[]) => Decoration[];
 
 /**
  * Boundary arrow directions (subset of Direction used for boundary detection)
@@ -34,8 +92,61 @@ export interface WrapResult {
   visualLines: string[];
   /** Row in visual lines where cursor appears */
   cursorVisualRow: number;
-  /** Column in that visual row where cursor appears */
+  /** Offset (in UTF-16 code units) within that visual row where cursor appears */
   cursorVisualCol: number;
+  /** Buffer position where each visual line starts */
+  visualLineStarts: Cursor[];
+  /** Cells of blank space drawn before each visual line (hanging indent) */
+  visualLineIndents: number[];
+}
+
+/**
+ * A visual row of a wrapped buffer line
+ */
+export interface VisualRowInfo {
+  /** Starting offset in the buffer line */
+  start: number;
+  /** Length of this visual row (in UTF-16 code units) */
+  length: number;
+  /** Cells of blank space drawn before the row's text (hanging indent) */
+  indent?: number;
+}
+
+/**
+ * Breaks a buffer line into visual rows no wider than `width` cells
+ * (including any indent). Rows must cover the line in order without gaps,
+ * and an empty line is a single empty row.
+ */
+export type WrapStrategy = (line: string, width: number) => VisualRowInfo[];
+
+/**
+ * How lines longer than the width are displayed: 'word' wraps at spaces,
+ * 'character' wraps anywhere, 'hanging' wraps at spaces and indents
+ * continuation rows under the line's text (past leading whitespace and list
+ * bullets), 'none' keeps one row per line and scrolls horizontally
+ */
+export type WrapMode = 'word' | 'character' | 'hanging' | 'none';
+
+/**
+ * What Enter does: 'classic' submits (a line ending in `\` continues
+ * instead), 'newline-first' inserts a newline and leaves submitting to
+ * Ctrl+Enter, Alt+Enter or Ctrl+S, 'double-enter' inserts a newline unless
+ * the cursor is on an empty last line, where it submits
+ */
+export type SubmitMode = 'classic' | 'newline-first' | 'double-enter';
+
+/**
+ * Result of clipping lines to the width (wrap="none"). Each visual line is
+ * the visible part of one buffer line.
+ */
+export interface ClipResult extends WrapResult {
+  /** Horizontal scroll offset in cells, shared by all lines */
+  scrollX: number;
+  /**
+   * Text drawn before and after each visible part: an ellipsis where
+   * content is clipped, plus a space where a wide character is cut
+   */
+  clips: Array<{ before: string; after: string }>;
 }
 
 /**
@@ -61,4 +172,8 @@ export interface Key {
   home?: boolean;
   /** End key (may not be available in all terminals) */
   end?: boolean;
+  /** Insert key */
+  insert?: boolean;
+  /** Number of a function key (1 for F1 … 12 for F12) */
+  functionKey?: number;
 }
@@ -0,0 +1,147 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { CompletionCandidate, CompletionProvider } from './Completion.js';
+import { log } from '../../utils/logger.js';
+
+export interface UseCompletionProps {
+  /** Source of candidates; completion is disabled without one */
+  provider?: CompletionProvider;
+  /** Current text */
+  text: string;
+  /** Current cursor offset in the text */
+  cursorOffset: number;
+  /** Called with the chosen candidate */
+  onAccept: (candidate: CompletionCandidate) => void;
+}
+
+export interface CompletionMenuState {
+  /** Candidates shown in the menu */
+  candidates: CompletionCandidate[];
+  /** Index of the highlighted candidate */
+  selectedIndex: number;
+  /** Text the candidates were computed for */
+  text: string;
+}
+
+export interface UseCompletionResult {
+  /** The open menu, or null when closed */
+  menu: CompletionMenuState | null;
+  /**
+   * Ask the provider for candidates. With `acceptSingle`, a lone candidate
+   * is accepted straight away instead of opening the menu.
+   */
+  open: (acceptSingle?: boolean) => void;
+  /** Highlight the next candidate (wrapping around) */
+  next: () => void;
+  /** Highlight the previous candidate (wrapping around) */
+  previous: () => void;
+  /**
+   * Accept the highlighted candidate and close the menu. Returns false when
+   * the candidates predate the current text; the menu is closed and nothing
+   * is accepted, so the key can do its usual job.
+   */
+  accept: () => boolean;
+  /** Close the menu and ignore pending results */
+  dismiss: () => void;
+}
+
+/**
+ * Completion menu state. Provider results may be async; results for text
+ * that has changed since the request are discarded. While the menu is open
+ * (or waiting for results) every edit asks the provider again, so typing
+ * narrows the candidates.
+ */
+export function useCompletion({
+  provider,
+  text,
+  cursorOffset,
+  onAccept,
+}: UseCompletionProps): UseCompletionResult {
+  const [menu, setMenu] = useState<CompletionMenuState | null>(null);
+
+  // Bumped on every request and on close so late results can be ignored
+  const requestId = useRef(0);
+  // Whether the menu is open or a request is pending
+  const isActive = useRef(false);
+
+  const onAcceptRef = useRef(onAccept);
+  useEffect(() => {
+    onAcceptRef.current = onAccept;
+  }, [onAccept]);
+
+  const dismiss = useCallback(() => {
+    requestId.current++;
+    isActive.current = false;
+    setMenu(null);
+  }, []);
+
+  const open = useCallback(
+    (acceptSingle = false) => {
+      if (!provider) return;
+
+      const id = ++requestId.current;
+      isActive.current = true;
+
+      const show = (candidates: CompletionCandidate[]) => {
+        if (id !== requestId.current) return;
+        if (candidates.length === 0) {
+          dismiss();
+        } else if (acceptSingle && candidates.length === 1) {
+          dismiss();
+          onAcceptRef.current(candidates[0]);
+        } else {
+          setMenu({ candidates, selectedIndex: 0, text });
+        }
+      };
+      const fail = (error: unknown) => {
+        log(`[COMPLETION] provider failed: ${String(error)}`, 'WARN');
+        if (id === requestId.current) {
+          dismiss();
+        }
+      };
+
+      try {
+        const result = provider(text, cursorOffset);
+        if (Array.isArray(result)) {
+          show(result);
+        } else {
+          result.then(show, fail);
+        }
+      } catch (error) {
+        fail(error);
+      }
+    },
+    [provider, text, cursorOffset, dismiss]
+  );
+
+  // Refresh the candidates as the text changes
+  useEffect(() => {
+    if (isActive.current) {
+      open();
+    }
+  }, [text, cursorOffset]);
+
+  const step = useCallback((delta: number) => {
+    setMenu((current) => {
+      if (!current) return current;
+      const count = current.candidates.length;
+      return { ...current, selectedIndex: (current.selectedIndex + delta + count) % count };
+    });
+  }, []);
+
+  const next = useCallback(() => step(1), [step]);
+  const previous = useCallback(() => step(-1), [step]);
+
+  const accept = useCallback(() => {
+    // Candidate ranges refer to menu.text and are no use after an edit
+    if (!menu || menu.text !== text) {
+      dismiss();
+      return false;
+    }
+    const candidate = menu.candidates[menu.selectedIndex];
+    dismiss();
+    onAcceptRef.current(candidate);
+    return true;
+  }, [menu, text, dismiss]);
+
+  return { menu, open, next, previous, accept, dismiss };
+}
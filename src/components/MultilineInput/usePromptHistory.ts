@@ -0,0 +1,101 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+
+export interface UsePromptHistoryProps {
+  /** Past submissions, oldest first */
+  history?: string[];
+  /** Called with the new history after a submission is added */
+  onHistoryChange?: (history: string[]) => void;
+}
+
+export interface UsePromptHistoryResult {
+  /** Past submissions, oldest first */
+  entries: string[];
+  /** Index of the recalled entry, or null while editing the draft */
+  index: number | null;
+  /**
+   * Step to the next older entry. The first step saves `current` as the
+   * draft. Returns the entry text, or undefined if there is no older entry.
+   */
+  previous: (current: string) => string | undefined;
+  /**
+   * Step to the next newer entry, ending with the saved draft. Returns the
+   * text to show, or undefined when not browsing history.
+   */
+  next: () => string | undefined;
+  /** Record a submission (empty entries and repeats of the last one are skipped) */
+  add: (entry: string) => void;
+  /** Stop browsing and forget the draft */
+  reset: () => void;
+}
+
+const NO_HISTORY: string[] = [];
+
+/**
+ * Prompt history with shell-style recall. The in-progress draft is kept
+ * while browsing and restored after stepping past the newest entry.
+ */
+export function usePromptHistory({
+  history = NO_HISTORY,
+  onHistoryChange,
+}: UsePromptHistoryProps = {}): UsePromptHistoryResult {
+  const [entries, setEntries] = useState<string[]>(history);
+  const [index, setIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState('');
+
+  // Sync external history changes
+  useEffect(() => {
+    setEntries(history);
+    setIndex(null);
+  }, [history]);
+
+  const onHistoryChangeRef = useRef(onHistoryChange);
+  useEffect(() => {
+    onHistoryChangeRef.current = onHistoryChange;
+  }, [onHistoryChange]);
+
+  const previous = useCallback(
+    (current: string) => {
+      const target = (index ?? entries.length) - 1;
+      if (target < 0) return undefined;
+
+      if (index === null) {
+        setDraft(current);
+      }
+      setIndex(target);
+      return entries[target];
+    },
+    [entries, index]
+  );
+
+  const next = useCallback(() => {
+    if (index === null) return undefined;
+
+    const target = index + 1;
+    if (target >= entries.length) {
+      setIndex(null);
+      return draft;
+    }
+    setIndex(target);
+    return entries[target];
+  }, [entries, index, draft]);
+
+  const add = useCallback(
+    (entry: string) => {
+      setIndex(null);
+      setDraft('');
+      if (!entry || entries[entries.length - 1] === entry) return;
+
+      const updated = [...entries, entry];
+      setEntries(updated);
+      onHistoryChangeRef.current?.(updated);
+    },
+    [entries]
+  );
+
+  const reset = useCallback(() => {
+    setIndex(null);
+    setDraft('');
+  }, []);
+
+  return { entries, index, previous, next, add, reset };
+}
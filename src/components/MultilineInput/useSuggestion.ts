@@ -0,0 +1,69 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Suggester } from './Suggestion.js';
+import { log } from '../../utils/logger.js';
+
+export interface UseSuggestionProps {
+  /** Current text */
+  text: string;
+  /** Source of suggestions; disabled without one */
+  suggester?: Suggester;
+}
+
+/**
+ * Whether a suggester returned a promise: any thenable, not only this
+ * realm's `Promise`.
+ */
+function isThenable<T>(value: T | PromiseLike<T>): value is PromiseLike<T> {
+  return typeof (value as PromiseLike<T> | undefined)?.then === 'function';
+}
+
+/**
+ * Ghost-text suggestion for the current text. Returns the suggested
+ * continuation, or undefined.
+ *
+ * The suggester runs after every change; results for outdated text are
+ * dropped. While the text is still a prefix of the last suggested line, the
+ * rest of that line keeps showing until the new result arrives, so typing
+ * along a suggestion does not flicker.
+ */
+export function useSuggestion({ text, suggester }: UseSuggestionProps): string | undefined {
+  const [result, setResult] = useState<{ text: string; suggestion: string } | null>(null);
+  const requestId = useRef(0);
+
+  useEffect(() => {
+    const id = ++requestId.current;
+    if (!suggester || !text) {
+      setResult(null);
+      return;
+    }
+
+    const show = (suggestion: string | undefined) => {
+      if (id !== requestId.current) return;
+      setResult(suggestion ? { text, suggestion } : null);
+    };
+
+    try {
+      const value = suggester(text);
+      if (isThenable(value)) {
+        value.then(show, (error: unknown) => {
+          log(`[SUGGESTION] suggester failed: ${String(error)}`, 'WARN');
+          show(undefined);
+        });
+      } else {
+        show(value);
+      }
+    } catch (error) {
+      log(`[SUGGESTION] suggester failed: ${String(error)}`, 'WARN');
+      show(undefined);
+    }
+  }, [text, suggester]);
+
+  if (!result || !suggester || !text) return undefined;
+
+  // Reuse the last suggestion while the text is still a prefix of it
+  const full = result.text + result.suggestion;
+  if (full.startsWith(text) && full.length > text.length) {
+    return full.slice(text.length);
+  }
+  return undefined;
+}
@@ -0,0 +1,222 @@
+import { useEffect, useRef, useState } from 'react';
+import { useApp, useStdin, useStdout } from 'ink';
+import type { Key } from './types.js';
+import { splitGraphemes } from '../../utils/graphemes.js';
+import {
+  type KeyEvent,
+  type TerminalResponse,
+  ESCAPE_TIMEOUT_MS,
+  createKeyDecoder,
+  decodeKeys,
+  flushKeys,
+} from './KeyDecoder.js';
+import { ENABLE_BRACKETED_PASTE, DISABLE_BRACKETED_PASTE, createPasteState, parsePasteChunk } from './Paste.js';
+import {
+  type KeyboardProtocol,
+  QUERY_KEYBOARD_PROTOCOL,
+  negotiateKeyboardProtocol,
+  enableKeyboardProtocol,
+  resetKeyboardProtocol,
+} from './KeyboardProtocol.js';
+
+/**
+ * Input read from the terminal: a decoded key press, or a complete
+ * bracketed paste.
+ */
+export type TerminalInput = { type: 'key'; key: Key; input: string } | { type: 'paste'; text: string };
+
+export interface UseTerminalInputOptions {
+  /** Whether to read input; raw mode and terminal modes are on only while active (default: true) */
+  isActive?: boolean;
+  /**
+   * Hand typed text over one grapheme at a time instead of grouped, for
+   * when each character is a command (vi normal mode). Read as each press
+   * is handed over, so the rest of a group follows the mode it switched to
+   */
+  splitText?: boolean;
+}
+
+/**
+ * Keyboard negotiation with the terminal behind one stdin. The query is sent
+ * once; an input that deactivates before the reply leaves `drain` reading
+ * stdin until it arrives, and the next activation takes over from it.
+ */
+interface ProtocolSession {
+  protocol: KeyboardProtocol;
+  drain?: () => void;
+}
+
+const sessions = new WeakMap<object, ProtocolSession>();
+
+function isCtrlC({ key, input }: KeyEvent): boolean {
+  return !!key.ctrl && !key.meta && input === 'c';
+}
+
+/**
+ * Read keys and pastes from stdin, in place of Ink's `useInput`.
+ *
+ * Every chunk goes through the bracketed paste parser and the key decoder,
+ * so several keys in one read, escape sequences split across reads and
+ * modified keys all arrive as separate, normalized events. Events are
+ * handed to `handler` one per render, so each one sees the state the
+ * previous one left behind.
+ *
+ * While active on a TTY it also enables bracketed paste and negotiates an
+ * enhanced keyboard protocol (kitty, or else xterm's modifyOtherKeys) so
+ * keys like Shift+Enter can be told apart. Both are turned off again when
+ * the input deactivates, unmounts or the process exits. The protocol is
+ * negotiated once per stdin and turned straight back on when the input
+ * reactivates.
+ */
+export function useTerminalInput(
+  handler: (event: TerminalInput) => void,
+  { isActive = true, splitText = false }: UseTerminalInputOptions = {}
+): void {
+  const { stdin, setRawMode, internal_exitOnCtrlC } = useStdin();
+  const { stdout } = useStdout();
+  const { exit } = useApp();
+
+  // Decoded events not handled yet, and a counter that renders for them
+  const queue = useRef<TerminalInput[]>([]);
+  const [queued, setQueued] = useState(0);
+
+  useEffect(() => {
+    if (!isActive) return;
+    setRawMode(true);
+    return () => {
+      setRawMode(false);
+    };
+  }, [isActive, setRawMode]);
+
+  useEffect(() => {
+    if (!stdin || !isActive) return;
+
+    let pasteState = createPasteState();
+    let decoder = createKeyDecoder();
+    let escapeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    // Terminal modes: bracketed paste now, the keyboard protocol once the
+    // terminal has answered the query (sent only the first time)
+    const isTerminal = !!stdout?.isTTY;
+    const known = sessions.get(stdin);
+    known?.drain?.();
+    const session: ProtocolSession = known ?? { protocol: 'querying' };
+    let restored = false;
+    const restoreTerminal = () => {
+      if (restored || !isTerminal) return;
+      restored = true;
+      stdout.write(DISABLE_BRACKETED_PASTE + resetKeyboardProtocol(session.protocol));
+    };
+    if (isTerminal) {
+      stdout.write(ENABLE_BRACKETED_PASTE);
+      if (!known) {
+        sessions.set(stdin, session);
+        stdout.write(QUERY_KEYBOARD_PROTOCOL);
+      } else if (session.protocol !== 'querying') {
+        stdout.write(enableKeyboardProtocol(session.protocol));
+      }
+      process.once('exit', restoreTerminal);
+    }
+
+    const negotiate = (responses: TerminalResponse[]) => {
+      for (const response of responses) {
+        const negotiation = negotiateKeyboardProtocol(session.protocol, response);
+        session.protocol = negotiation.protocol;
+        if (negotiation.write && !restored) {
+          stdout.write(negotiation.write);
+        }
+      }
+    };
+
+    const toInput = (events: KeyEvent[]): TerminalInput[] =>
+      events
+        // Ink exits on Ctrl+C itself
+        .filter((event) => !(internal_exitOnCtrlC && isCtrlC(event)))
+        .map(({ key, input }) => ({ type: 'key', key, input }));
+
+    const decode = (text: string) => {
+      const result = decodeKeys(decoder, text);
+      decoder = result.state;
+
+      negotiate(result.responses);
+
+      // Ink only recognizes a plain ^C, not one the keyboard protocol encoded
+      if (internal_exitOnCtrlC && text !== '\x03' && result.events.some(isCtrlC)) {
+        exit();
+      }
+      return toInput(result.events);
+    };
+
+    const flush = () => {
+      const result = flushKeys(decoder);
+      decoder = result.state;
+      return toInput(result.events);
+    };
+
+    const enqueue = (events: TerminalInput[]) => {
+      if (events.length === 0) return;
+      queue.current.push(...events);
+      setQueued((count) => count + 1);
+    };
+
+    const handleData = (data: Buffer | string) => {
+      clearTimeout(escapeTimer);
+      const chunk = data.toString();
+
+      const result = parsePasteChunk(pasteState, chunk);
+      pasteState = result.state;
+      enqueue(result.handled
+        ? result.events.flatMap((event) => (event.type === 'paste' ? [...flush(), event] : decode(event.text)))
+        : decode(chunk));
+
+      // A lone ESC is the Escape key unless the rest of a sequence follows
+      if (decoder.pending) {
+        escapeTimer = setTimeout(() => enqueue(flush()), ESCAPE_TIMEOUT_MS);
+      }
+    };
+
+    stdin.on('data', handleData);
+    return () => {
+      stdin.off('data', handleData);
+      clearTimeout(escapeTimer);
+      queue.current = [];
+      process.off('exit', restoreTerminal);
+      restoreTerminal();
+
+      // Keep reading until the terminal answers, so the reply is consumed
+      // here and its outcome kept for the next activation
+      if (isTerminal && session.protocol === 'querying') {
+        const drainData = (data: Buffer | string) => {
+          const result = decodeKeys(decoder, data.toString());
+          decoder = result.state;
+          negotiate(result.responses);
+          if (session.protocol !== 'querying') {
+            session.drain?.();
+          }
+        };
+        stdin.on('data', drainData);
+        session.drain = () => {
+          stdin.off('data', drainData);
+          session.drain = undefined;
+        };
+      }
+    };
+  }, [stdin, stdout, isActive, internal_exitOnCtrlC, exit]);
+
+  // Runs after the render that follows each enqueue or handled event
+  useEffect(() => {
+    let event = queue.current.shift();
+    if (!event) return;
+    if (splitText && event.type === 'key' && Object.keys(event.key).length === 0) {
+      const [first, ...rest] = splitGraphemes(event.input);
+      if (rest.length > 0) {
+        queue.current.unshift({ ...event, input: rest.join('') });
+        event = { ...event, input: first };
+      }
+    }
+    handler(event);
+    if (queue.current.length > 0) {
+      setQueued((count) => count + 1);
+    }
+  }, [queued]);
+}
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import {
   createBuffer,
   insertText as bufferInsertText,
@@ -6,11 +6,26 @@ import {
   deleteCharForward as bufferDeleteCharForward,
   insertNewLine as bufferInsertNewLine,
   moveCursor as bufferMoveCursor,
+  moveCursorRows,
   getTextContent,
   getOffset,
   getCursor,
+  compareCursors,
+  getSelectionRange,
+  getTextInRange,
+  deleteRange,
+  deleteWordBackward as bufferDeleteWordBackward,
+  deleteWordForward as bufferDeleteWordForward,
+  isDefaultWordChar,
+  killToLineEnd as bufferKillToLineEnd,
+  killToLineStart as bufferKillToLineStart,
+  killRange,
+  transposeChars as bufferTransposeChars,
+  transposeWords as bufferTransposeWords,
+  changeWordCase,
+  type KillResult,
 } from './TextBuffer.js';
-import type { Buffer, Cursor, Direction } from './types.js';
+import type { Buffer, Cursor, Direction, Selection, WordCharPredicate, WrapStrategy } from './types.js';
 import { log } from '../../utils/logger.js';
 
 export interface UseTextInputProps {
@@ -19,21 +34,78 @@ export interface UseTextInputProps {
   width?: number;
   /** Maximum number of history entries to keep (default: 100) */
   historyLimit?: number;
+  /** Which characters count as part of a word for word motions and deletions */
+  isWordChar?: WordCharPredicate;
+  /** Maximum number of kill ring entries to keep (default: 60) */
+  killRingLimit?: number;
+  /** Rows moved by movePage, e.g. the viewport height (default: 10) */
+  pageSize?: number;
+  /** How lines wrap at `width` for up/down navigation (default: word wrapping) */
+  wrapStrategy?: WrapStrategy;
 }
 
 export interface UseTextInputResult {
   value: string;
   cursor: Cursor;
+  /** Active selection (anchor + head), or null when nothing is selected */
+  selection: Selection | null;
+  /** Text covered by the active selection (empty when nothing is selected) */
+  selectedText: string;
   insert: (char: string) => void;
   delete: () => void;
   deleteForward: () => void;
+  /** Kill from the start of the previous word to the cursor */
+  deleteWordBackward: () => void;
+  /** Kill from the cursor to the end of the next word */
+  deleteWordForward: () => void;
+  /** Kill from the cursor to the end of the line (or the line break at end of line) */
+  killToLineEnd: () => void;
+  /** Kill from the start of the line (or the preceding line break) to the cursor */
+  killToLineStart: () => void;
+  /** Insert the most recent kill at the cursor */
+  yank: () => void;
+  /** Directly after a yank, replace the yanked text with the next older kill */
+  yankPop: () => void;
+  /** Killed text, most recent first */
+  killRing: string[];
+  /** Swap the characters around the cursor */
+  transposeChars: () => void;
+  /** Swap the words around the cursor */
+  transposeWords: () => void;
+  /** Upper-case from the cursor to the end of the word */
+  upcaseWord: () => void;
+  /** Lower-case from the cursor to the end of the word */
+  downcaseWord: () => void;
+  /** Capitalize from the cursor to the end of the word */
+  capitalizeWord: () => void;
+  /** Set the mark at the cursor; cursor movement then extends the region until it is cleared */
+  setMark: () => void;
+  /** Swap the cursor and the mark */
+  exchangePointAndMark: () => void;
+  /** Kill the region into the kill ring (without a region, kill the previous word) */
+  killRegion: () => void;
+  /** Kill the text between two positions into the kill ring, like the other kill commands */
+  killText: (start: Cursor, end: Cursor, direction: 'forward' | 'backward') => void;
+  /** Copy the region into the kill ring and deactivate the mark */
+  copyRegion: () => void;
   newLine: () => void;
   deleteAndNewLine: () => void;
   moveCursor: (direction: Direction) => void;
+  /** Move the cursor a page (pageSize rows) up or down */
+  movePage: (direction: 'up' | 'down') => void;
+  /** Move the cursor while keeping (or starting) a selection from the current position */
+  extendSelection: (direction: Direction) => void;
+  clearSelection: () => void;
   undo: () => void;
   redo: () => void;
+  /** Make the edits from now until `endUndoGroup` one undo step (vi's insert mode); no-op while one is open */
+  beginUndoGroup: () => void;
+  endUndoGroup: () => void;
   setText: (text: string) => void;
+  /** Replace the buffer and cursor in one step (recorded in history when the text changes) */
+  applyEdit: (buffer: Buffer, cursor: Cursor) => void;
   cursorOffset: number;
+  /** Move the cursor to an offset; like other moves, it extends the region while the mark is active */
   setCursorOffset: (offset: number) => void;
 }
 
@@ -42,7 +114,36 @@ interface HistoryState {
   cursor: Cursor;
 }
 
-export function useTextInput({ initialValue = '', width, historyLimit = 100 }: UseTextInputProps = {}): UseTextInputResult {
+/**
+ * State recorded right after a kill or yank. The next command only counts as
+ * "directly following" if the buffer and cursor are still exactly these, so
+ * any other edit or movement breaks the chain without extra bookkeeping.
+ */
+interface KillRingMark {
+  buffer: Buffer;
+  cursor: Cursor;
+}
+
+interface YankMark extends KillRingMark {
+  /** Where the yanked text starts */
+  start: Cursor;
+  /** Kill ring index of the yanked text */
+  index: number;
+}
+
+function isFollowing(mark: KillRingMark | null, buffer: Buffer, cursor: Cursor): boolean {
+  return mark !== null && mark.buffer === buffer && compareCursors(mark.cursor, cursor) === 0;
+}
+
+export function useTextInput({
+  initialValue = '',
+  width,
+  historyLimit = 100,
+  isWordChar = isDefaultWordChar,
+  killRingLimit = 60,
+  pageSize = 10,
+  wrapStrategy,
+}: UseTextInputProps = {}): UseTextInputResult {
   const [buffer, setBuffer] = useState<Buffer>(() => createBuffer(initialValue));
   const [cursor, setCursor] = useState<Cursor>(() => {
     const lines = initialValue.split('\n');
@@ -52,10 +153,38 @@ export function useTextInput({ initialValue = '', width, historyLimit = 100 }: U
     };
   });
 
+  // The selection head is always the cursor; only the anchor is stored
+  const [selectionAnchor, setSelectionAnchor] = useState<Cursor | null>(null);
+  const selection: Selection | null =
+    selectionAnchor && compareCursors(selectionAnchor, cursor) !== 0
+      ? { anchor: selectionAnchor, head: cursor }
+      : null;
+  const selectionRange = selection ? getSelectionRange(selection) : null;
+
   const [undoStack, setUndoStack] = useState<HistoryState[]>([]);
   const [redoStack, setRedoStack] = useState<HistoryState[]>([]);
 
+  const [killRing, setKillRing] = useState<string[]>([]);
+  const lastKill = useRef<KillRingMark | null>(null);
+  const lastYank = useRef<YankMark | null>(null);
+
+  // The anchor set by setMark; while it is the selection anchor, cursor
+  // movement extends the region instead of clearing it
+  const markAnchor = useRef<Cursor | null>(null);
+  const isMarkActive = selectionAnchor !== null && selectionAnchor === markAnchor.current;
+
+  // An open undo group: 'open' until its first edit is recorded, then
+  // 'recorded', and later edits add no undo steps of their own
+  const undoGroup = useRef<'open' | 'recorded' | null>(null);
+
   const pushToHistory = useCallback((currentBuffer: Buffer, currentCursor: Cursor) => {
+    if (undoGroup.current === 'recorded') {
+      setRedoStack([]);
+      return;
+    }
+    if (undoGroup.current === 'open') {
+      undoGroup.current = 'recorded';
+    }
     setUndoStack((prev) => {
       const newStack = [...prev, { buffer: currentBuffer, cursor: currentCursor }];
       // Trim stack if it exceeds history limit
@@ -67,6 +196,16 @@ export function useTextInput({ initialValue = '', width, historyLimit = 100 }: U
     setRedoStack([]);
   }, [historyLimit]);
 
+  /**
+   * Remove the selected text (if any) and return the resulting state.
+   */
+  const removeSelection = useCallback((): { buffer: Buffer; cursor: Cursor } => {
+    if (!selectionRange) {
+      return { buffer, cursor };
+    }
+    return deleteRange(buffer, selectionRange.start, selectionRange.end);
+  }, [buffer, cursor, selectionRange]);
+
   const insert = useCallback(
     (char: string) => {
       log(`[INSERT] char="${char.replace(/[\x00-\x1F\x7F-\uFFFF]/g, c => `\\x${c.charCodeAt(0).toString(16)}`)}" len=${char.length} cursor={line:${cursor.line},col:${cursor.column}} linesBefore=${buffer.lines.length}`);
@@ -76,34 +215,128 @@ export function useTextInput({ initialValue = '', width, historyLimit = 100 }: U
 
       pushToHistory(buffer, cursor);
 
+      // Typing over a selection replaces it
+      const base = removeSelection();
+
       // TextBuffer now handles multi-line insertion internally
-      const result = bufferInsertText(buffer, cursor, normalized);
+      const result = bufferInsertText(base.buffer, base.cursor, normalized);
       setBuffer(result.buffer);
       setCursor(result.cursor);
+      setSelectionAnchor(null);
     },
-    [buffer, cursor, pushToHistory]
+    [buffer, cursor, pushToHistory, removeSelection]
   );
 
   const deleteChar = useCallback(() => {
     pushToHistory(buffer, cursor);
-    const result = bufferDeleteChar(buffer, cursor);
+    const result = selection ? removeSelection() : bufferDeleteChar(buffer, cursor);
     setBuffer(result.buffer);
     setCursor(result.cursor);
-  }, [buffer, cursor, pushToHistory]);
+    setSelectionAnchor(null);
+  }, [buffer, cursor, selection, pushToHistory, removeSelection]);
 
   const deleteCharForward = useCallback(() => {
     pushToHistory(buffer, cursor);
-    const result = bufferDeleteCharForward(buffer, cursor);
+    const result = selection ? removeSelection() : bufferDeleteCharForward(buffer, cursor);
     setBuffer(result.buffer);
     setCursor(result.cursor);
-  }, [buffer, cursor, pushToHistory]);
+    setSelectionAnchor(null);
+  }, [buffer, cursor, selection, pushToHistory, removeSelection]);
+
+  /**
+   * Apply a kill result and record the killed text. Kills that directly
+   * follow another kill are merged into the same kill ring entry (appended
+   * for forward kills, prepended for backward kills).
+   */
+  const applyKill = useCallback(
+    (result: KillResult, direction: 'forward' | 'backward') => {
+      if (!result.killed) return;
+
+      pushToHistory(buffer, cursor);
+      const appendToLast = isFollowing(lastKill.current, buffer, cursor);
+      setKillRing((prev) => {
+        if (appendToLast && prev.length > 0) {
+          const merged = direction === 'forward' ? prev[0] + result.killed : result.killed + prev[0];
+          return [merged, ...prev.slice(1)];
+        }
+        return [result.killed, ...prev].slice(0, killRingLimit);
+      });
+
+      setBuffer(result.buffer);
+      setCursor(result.cursor);
+      setSelectionAnchor(null);
+      lastKill.current = { buffer: result.buffer, cursor: result.cursor };
+      lastYank.current = null;
+    },
+    [buffer, cursor, killRingLimit, pushToHistory]
+  );
+
+  const deleteWordBackward = useCallback(() => {
+    if (selection) {
+      pushToHistory(buffer, cursor);
+      const result = removeSelection();
+      setBuffer(result.buffer);
+      setCursor(result.cursor);
+      setSelectionAnchor(null);
+      return;
+    }
+    applyKill(bufferDeleteWordBackward(buffer, cursor, isWordChar), 'backward');
+  }, [buffer, cursor, selection, isWordChar, pushToHistory, removeSelection, applyKill]);
+
+  const deleteWordForward = useCallback(() => {
+    if (selection) {
+      pushToHistory(buffer, cursor);
+      const result = removeSelection();
+      setBuffer(result.buffer);
+      setCursor(result.cursor);
+      setSelectionAnchor(null);
+      return;
+    }
+    applyKill(bufferDeleteWordForward(buffer, cursor, isWordChar), 'forward');
+  }, [buffer, cursor, selection, isWordChar, pushToHistory, removeSelection, applyKill]);
+
+  const killToLineEnd = useCallback(() => {
+    applyKill(bufferKillToLineEnd(buffer, cursor), 'forward');
+  }, [buffer, cursor, applyKill]);
+
+  const killToLineStart = useCallback(() => {
+    applyKill(bufferKillToLineStart(buffer, cursor), 'backward');
+  }, [buffer, cursor, applyKill]);
+
+  const yank = useCallback(() => {
+    if (killRing.length === 0) return;
+
+    pushToHistory(buffer, cursor);
+    const base = removeSelection();
+    const result = bufferInsertText(base.buffer, base.cursor, killRing[0]);
+    setBuffer(result.buffer);
+    setCursor(result.cursor);
+    setSelectionAnchor(null);
+    lastYank.current = { buffer: result.buffer, cursor: result.cursor, start: base.cursor, index: 0 };
+    lastKill.current = null;
+  }, [buffer, cursor, killRing, pushToHistory, removeSelection]);
+
+  const yankPop = useCallback(() => {
+    const mark = lastYank.current;
+    if (!mark || !isFollowing(mark, buffer, cursor) || killRing.length < 2) return;
+
+    const index = (mark.index + 1) % killRing.length;
+    pushToHistory(buffer, cursor);
+    const removed = deleteRange(buffer, mark.start, cursor);
+    const result = bufferInsertText(removed.buffer, removed.cursor, killRing[index]);
+    setBuffer(result.buffer);
+    setCursor(result.cursor);
+    lastYank.current = { buffer: result.buffer, cursor: result.cursor, start: mark.start, index };
+  }, [buffer, cursor, killRing, pushToHistory]);
 
   const newLine = useCallback(() => {
     pushToHistory(buffer, cursor);
-    const result = bufferInsertNewLine(buffer, cursor);
+    const base = removeSelection();
+    const result = bufferInsertNewLine(base.buffer, base.cursor);
     setBuffer(result.buffer);
     setCursor(result.cursor);
-  }, [buffer, cursor, pushToHistory]);
+    setSelectionAnchor(null);
+  }, [buffer, cursor, pushToHistory, removeSelection]);
 
   const deleteAndNewLine = useCallback(() => {
     pushToHistory(buffer, cursor);
@@ -113,18 +346,140 @@ export function useTextInput({ initialValue = '', width, historyLimit = 100 }: U
     const afterNewLine = bufferInsertNewLine(afterDelete.buffer, afterDelete.cursor);
     setBuffer(afterNewLine.buffer);
     setCursor(afterNewLine.cursor);
+    setSelectionAnchor(null);
   }, [buffer, cursor, pushToHistory]);
 
   const moveCursor = useCallback(
     (direction: Direction) => {
-      const newCursor = bufferMoveCursor(buffer, cursor, direction, width);
+      if (isMarkActive) {
+        setCursor(bufferMoveCursor(buffer, cursor, direction, width, isWordChar, wrapStrategy));
+        return;
+      }
+
+      setSelectionAnchor(null);
+
+      // Left/right with an active selection collapse it to the matching edge
+      if (selectionRange && (direction === 'left' || direction === 'right')) {
+        setCursor(direction === 'left' ? selectionRange.start : selectionRange.end);
+        return;
+      }
+
+      const newCursor = bufferMoveCursor(buffer, cursor, direction, width, isWordChar, wrapStrategy);
       setCursor(newCursor);
     },
-    [buffer, cursor, width]
+    [buffer, cursor, selectionRange, isMarkActive, width, isWordChar, wrapStrategy]
+  );
+
+  const movePage = useCallback(
+    (direction: 'up' | 'down') => {
+      if (!isMarkActive) {
+        setSelectionAnchor(null);
+      }
+      setCursor(moveCursorRows(buffer, cursor, direction === 'up' ? -pageSize : pageSize, width, wrapStrategy));
+    },
+    [buffer, cursor, isMarkActive, width, pageSize, wrapStrategy]
+  );
+
+  const extendSelection = useCallback(
+    (direction: Direction) => {
+      if (!selectionAnchor) {
+        setSelectionAnchor(cursor);
+      }
+      setCursor(bufferMoveCursor(buffer, cursor, direction, width, isWordChar, wrapStrategy));
+    },
+    [buffer, cursor, selectionAnchor, width, isWordChar, wrapStrategy]
+  );
+
+  const clearSelection = useCallback(() => {
+    setSelectionAnchor(null);
+  }, []);
+
+  const setMark = useCallback(() => {
+    const mark = { ...cursor };
+    markAnchor.current = mark;
+    setSelectionAnchor(mark);
+  }, [cursor]);
+
+  const exchangePointAndMark = useCallback(() => {
+    if (!selectionAnchor) return;
+    const mark = { ...cursor };
+    markAnchor.current = mark;
+    setSelectionAnchor(mark);
+    setCursor(selectionAnchor);
+  }, [cursor, selectionAnchor]);
+
+  const killRegion = useCallback(() => {
+    if (!selectionRange) {
+      applyKill(bufferDeleteWordBackward(buffer, cursor, isWordChar), 'backward');
+      return;
+    }
+    applyKill(killRange(buffer, selectionRange.start, selectionRange.end), 'forward');
+  }, [buffer, cursor, selectionRange, isWordChar, applyKill]);
+
+  const killText = useCallback(
+    (start: Cursor, end: Cursor, direction: 'forward' | 'backward') => {
+      applyKill(killRange(buffer, start, end), direction);
+    },
+    [buffer, applyKill]
   );
 
+  const copyRegion = useCallback(() => {
+    if (!selectionRange) return;
+    const text = getTextInRange(buffer, selectionRange.start, selectionRange.end);
+    setKillRing((prev) => [text, ...prev].slice(0, killRingLimit));
+    setSelectionAnchor(null);
+    lastKill.current = null;
+    lastYank.current = null;
+  }, [buffer, selectionRange, killRingLimit]);
+
+  /**
+   * Apply a word transformation as a single undoable edit.
+   */
+  const applyTransform = useCallback(
+    (result: { buffer: Buffer; cursor: Cursor }) => {
+      if (result.buffer === buffer) return;
+      pushToHistory(buffer, cursor);
+      setBuffer(result.buffer);
+      setCursor(result.cursor);
+      setSelectionAnchor(null);
+    },
+    [buffer, cursor, pushToHistory]
+  );
+
+  const transposeChars = useCallback(() => {
+    applyTransform(bufferTransposeChars(buffer, cursor));
+  }, [buffer, cursor, applyTransform]);
+
+  const transposeWords = useCallback(() => {
+    applyTransform(bufferTransposeWords(buffer, cursor, isWordChar));
+  }, [buffer, cursor, isWordChar, applyTransform]);
+
+  const upcaseWord = useCallback(() => {
+    applyTransform(changeWordCase(buffer, cursor, 'upper', isWordChar));
+  }, [buffer, cursor, isWordChar, applyTransform]);
+
+  const downcaseWord = useCallback(() => {
+    applyTransform(changeWordCase(buffer, cursor, 'lower', isWordChar));
+  }, [buffer, cursor, isWordChar, applyTransform]);
+
+  const capitalizeWord = useCallback(() => {
+    applyTransform(changeWordCase(buffer, cursor, 'capitalize', isWordChar));
+  }, [buffer, cursor, isWordChar, applyTransform]);
+
+  const beginUndoGroup = useCallback(() => {
+    undoGroup.current ??= 'open';
+  }, []);
+
+  const endUndoGroup = useCallback(() => {
+    undoGroup.current = null;
+  }, []);
+
   const undo = useCallback(() => {
     if (undoStack.length === 0) return;
+    // Edits after an undo start a new step
+    if (undoGroup.current) {
+      undoGroup.current = 'open';
+    }
 
     const previousState = undoStack[undoStack.length - 1];
     const newUndoStack = undoStack.slice(0, -1);
@@ -132,6 +487,7 @@ export function useTextInput({ initialValue = '', width, historyLimit = 100 }: U
     setRedoStack((prev) => [...prev, { buffer, cursor }]);
     setBuffer(previousState.buffer);
     setCursor(previousState.cursor);
+    setSelectionAnchor(null);
     setUndoStack(newUndoStack);
   }, [buffer, cursor, undoStack]);
 
@@ -144,6 +500,7 @@ export function useTextInput({ initialValue = '', width, historyLimit = 100 }: U
     setUndoStack((prev) => [...prev, { buffer, cursor }]);
     setBuffer(nextState.buffer);
     setCursor(nextState.cursor);
+    setSelectionAnchor(null);
     setRedoStack(newRedoStack);
   }, [buffer, cursor, redoStack]);
 
@@ -152,6 +509,7 @@ export function useTextInput({ initialValue = '', width, historyLimit = 100 }: U
       pushToHistory(buffer, cursor);
       const newBuffer = createBuffer(text);
       setBuffer(newBuffer);
+      setSelectionAnchor(null);
 
       // Move cursor to end of new text
       const lines = text.split('\n');
@@ -163,24 +521,64 @@ export function useTextInput({ initialValue = '', width, historyLimit = 100 }: U
     [buffer, cursor, pushToHistory]
   );
 
+  const applyEdit = useCallback(
+    (nextBuffer: Buffer, nextCursor: Cursor) => {
+      if (getTextContent(nextBuffer) !== getTextContent(buffer)) {
+        pushToHistory(buffer, cursor);
+      }
+      setBuffer(nextBuffer);
+      setCursor(nextCursor);
+      setSelectionAnchor(null);
+    },
+    [buffer, cursor, pushToHistory]
+  );
+
   return {
     value: getTextContent(buffer),
     cursor,
+    selection,
+    selectedText: selectionRange ? getTextInRange(buffer, selectionRange.start, selectionRange.end) : '',
     insert,
     delete: deleteChar,
     deleteForward: deleteCharForward,
+    deleteWordBackward,
+    deleteWordForward,
+    killToLineEnd,
+    killToLineStart,
+    yank,
+    yankPop,
+    killRing,
+    transposeChars,
+    transposeWords,
+    upcaseWord,
+    downcaseWord,
+    capitalizeWord,
+    setMark,
+    exchangePointAndMark,
+    killRegion,
+    killText,
+    copyRegion,
     newLine,
     deleteAndNewLine,
     moveCursor,
+    movePage,
+    extendSelection,
+    clearSelection,
     undo,
     redo,
+    beginUndoGroup,
+    endUndoGroup,
     setText,
+    applyEdit,
     cursorOffset: getOffset(buffer, cursor),
     setCursorOffset: useCallback(
       (offset: number) => {
+        if (!isMarkActive) {
+          setSelectionAnchor(null);
+        }
         setCursor(getCursor(buffer, offset));
       },
-      [buffer]
+      [buffer, isMarkActive]
     ),
   };
 }
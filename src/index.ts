@@ -1,4 +1,35 @@
 // Re-export all components and utilities
 export { MultilineInput } from './components/MultilineInput/index.js';
 export type { MultilineInputProps } from './components/MultilineInput/index.js';
-export type { BoundaryDirection } from './components/MultilineInput/types.js';
+export type {
+  BoundaryDirection,
+  Decoration,
+  Decorator,
+  TextStyle,
+  SubmitMode,
+  WordCharPredicate,
+  WrapMode,
+  WrapStrategy,
+  VisualRowInfo,
+} from './components/MultilineInput/types.js';
+export { wordWrap, characterWrap, hangingIndentWrap } from './components/MultilineInput/Wrap.js';
+export { defaultKeymap, emacsKeymap, resolveKeymap } from './components/MultilineInput/Keymap.js';
+export type { Keymap } from './components/MultilineInput/Keymap.js';
+export { defaultCommands } from './components/MultilineInput/Commands.js';
+export type { Command, CommandContext, CommandRegistry } from './components/MultilineInput/Commands.js';
+export type { KeyHandlerActions } from './components/MultilineInput/KeyHandler.js';
+export type { ViMode } from './components/MultilineInput/ViMode.js';
+export type { HistorySearchMatcher } from './components/MultilineInput/HistorySearch.js';
+export { CompletionMenu } from './components/MultilineInput/CompletionMenu.js';
+export type { CompletionMenuProps } from './components/MultilineInput/CompletionMenu.js';
+export type { CompletionCandidate, CompletionProvider } from './components/MultilineInput/Completion.js';
+export { createPathCompleter } from './components/MultilineInput/PathCompleter.js';
+export type { PathCompleterOptions } from './components/MultilineInput/PathCompleter.js';
+export type { Trigger, PickerItem } from './components/MultilineInput/Triggers.js';
+export { createHistorySuggester } from './components/MultilineInput/Suggestion.js';
+export type { Suggester } from './components/MultilineInput/Suggestion.js';
+export { createMarkdownDecorator, defaultMarkdownTheme } from './components/MultilineInput/Markdown.js';
+export type { MarkdownTheme } from './components/MultilineInput/Markdown.js';
+export type { PasteCollapseOptions } from './components/MultilineInput/Paste.js';
+export { createHistoryStore } from './utils/historyStore.js';
+export type { HistoryStore, HistoryStoreOptions, HistoryDedupe } from './utils/historyStore.js';
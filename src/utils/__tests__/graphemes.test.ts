@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import {
+  splitGraphemes,
+  getGraphemeWidth,
+  getStringWidth,
+  previousGraphemeBoundary,
+  nextGraphemeBoundary,
+  graphemeAt,
+  offsetAtWidth,
+} from '../graphemes.js';
+
+describe('graphemes', () => {
+  describe('splitGraphemes', () => {
+    it('splits ASCII into single characters', () => {
+      expect(splitGraphemes('abc')).toEqual(['a', 'b', 'c']);
+    });
+
+    it('returns empty array for empty string', () => {
+      expect(splitGraphemes('')).toEqual([]);
+    });
+
+    it('keeps surrogate pairs together', () => {
+      expect(splitGraphemes('a😀b')).toEqual(['a', '😀', 'b']);
+    });
+
+    it('keeps combining marks with their base', () => {
+      expect(splitGraphemes('e\u0301x')).toEqual(['e\u0301', 'x']);
+    });
+
+    it('keeps ZWJ emoji sequences together', () => {
+      const family = '👨\u200D👩\u200D👧';
+      expect(splitGraphemes(`${family}!`)).toEqual([family, '!']);
+    });
+  });
+
+  describe('getGraphemeWidth', () => {
+    it('measures ASCII as one cell', () => {
+      expect(getGraphemeWidth('a')).toBe(1);
+    });
+
+    it('measures CJK as two cells', () => {
+      expect(getGraphemeWidth('日')).toBe(2);
+      expect(getGraphemeWidth('カ')).toBe(2);
+      expect(getGraphemeWidth('한')).toBe(2);
+    });
+
+    it('measures fullwidth forms as two cells', () => {
+      expect(getGraphemeWidth('Ａ')).toBe(2);
+    });
+
+    it('measures emoji as two cells', () => {
+      expect(getGraphemeWidth('😀')).toBe(2);
+      expect(getGraphemeWidth('👨\u200D👩\u200D👧')).toBe(2);
+    });
+
+    it('measures text-style symbols with VS16 as two cells', () => {
+      expect(getGraphemeWidth('❤')).toBe(1);
+      expect(getGraphemeWidth('❤\uFE0F')).toBe(2);
+    });
+
+    it('measures combining sequence by its base', () => {
+      expect(getGraphemeWidth('e\u0301')).toBe(1);
+    });
+
+    it('measures zero-width characters as zero cells', () => {
+      expect(getGraphemeWidth('\u200D')).toBe(0);
+      expect(getGraphemeWidth('\u200B')).toBe(0);
+      expect(getGraphemeWidth('\u0301')).toBe(0);
+    });
+
+    it('measures control characters as zero cells', () => {
+      expect(getGraphemeWidth('\x1b')).toBe(0);
+    });
+  });
+
+  describe('getStringWidth', () => {
+    it('sums grapheme widths', () => {
+      expect(getStringWidth('ab日本😀')).toBe(8);
+    });
+
+    it('ignores zero-width joiners inside sequences', () => {
+      expect(getStringWidth('👨\u200D👩\u200D👧')).toBe(2);
+    });
+  });
+
+  describe('boundaries', () => {
+    const text = 'a😀e\u0301b';
+
+    it('finds previous boundary before surrogate pair', () => {
+      expect(previousGraphemeBoundary(text, 3)).toBe(1);
+    });
+
+    it('finds previous boundary before combining sequence', () => {
+      expect(previousGraphemeBoundary(text, 5)).toBe(3);
+    });
+
+    it('clamps previous boundary at start', () => {
+      expect(previousGraphemeBoundary(text, 0)).toBe(0);
+    });
+
+    it('finds next boundary after surrogate pair', () => {
+      expect(nextGraphemeBoundary(text, 1)).toBe(3);
+    });
+
+    it('finds next boundary after combining sequence', () => {
+      expect(nextGraphemeBoundary(text, 3)).toBe(5);
+    });
+
+    it('clamps next boundary at end', () => {
+      expect(nextGraphemeBoundary(text, text.length)).toBe(text.length);
+    });
+
+    it('returns grapheme at offset', () => {
+      expect(graphemeAt(text, 1)).toBe('😀');
+      expect(graphemeAt(text, text.length)).toBe('');
+    });
+  });
+
+  describe('offsetAtWidth', () => {
+    it('maps cells to offsets for ASCII', () => {
+      expect(offsetAtWidth('hello', 3)).toBe(3);
+    });
+
+    it('maps cells past wide characters', () => {
+      expect(offsetAtWidth('日本語', 4)).toBe(2);
+    });
+
+    it('does not land inside a wide character', () => {
+      expect(offsetAtWidth('日本語', 3)).toBe(1);
+    });
+
+    it('clamps to text length', () => {
+      expect(offsetAtWidth('ab', 10)).toBe(2);
+    });
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync, readdirSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createHistoryStore, normalizeHistory } from '../historyStore.js';
+
+describe('historyStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ink-prompt-history-'));
+    filePath = join(dir, 'history.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('normalizeHistory', () => {
+    it('removes consecutive duplicates', () => {
+      expect(normalizeHistory(['a', 'a', 'b', 'a'], 'consecutive', 10)).toEqual(['a', 'b', 'a']);
+    });
+
+    it('keeps the most recent occurrence with "all"', () => {
+      expect(normalizeHistory(['a', 'b', 'a', 'c'], 'all', 10)).toEqual(['b', 'a', 'c']);
+    });
+
+    it('keeps everything with "none"', () => {
+      expect(normalizeHistory(['a', 'a'], 'none', 10)).toEqual(['a', 'a']);
+    });
+
+    it('keeps only the newest maxEntries', () => {
+      expect(normalizeHistory(['a', 'b', 'c', 'd'], 'none', 2)).toEqual(['c', 'd']);
+    });
+  });
+
+  describe('createHistoryStore', () => {
+    it('loads an empty history when the file does not exist', () => {
+      expect(createHistoryStore({ filePath }).load()).toEqual([]);
+    });
+
+    it('round-trips appended entries', () => {
+      const store = createHistoryStore({ filePath });
+      store.append('first');
+      expect(store.append('second')).toEqual(['first', 'second']);
+      expect(createHistoryStore({ filePath }).load()).toEqual(['first', 'second']);
+    });
+
+    it('stores multi-line entries one per line', () => {
+      const store = createHistoryStore({ filePath });
+      store.append('line 1\nline 2');
+      expect(readFileSync(filePath, 'utf8')).toBe('"line 1\\nline 2"\n');
+      expect(store.load()).toEqual(['line 1\nline 2']);
+    });
+
+    it('creates missing parent directories', () => {
+      const nested = join(dir, 'a', 'b', 'history.jsonl');
+      createHistoryStore({ filePath: nested }).append('x');
+      expect(existsSync(nested)).toBe(true);
+    });
+
+    it('skips a consecutive duplicate by default', () => {
+      const store = createHistoryStore({ filePath });
+      store.append('a');
+      store.append('a');
+      expect(readFileSync(filePath, 'utf8').split('\n').filter(Boolean)).toHaveLength(1);
+      expect(store.load()).toEqual(['a']);
+    });
+
+    it('keeps duplicates with dedupe "none"', () => {
+      const store = createHistoryStore({ filePath, dedupe: 'none' });
+      store.append('a');
+      store.append('a');
+      expect(store.load()).toEqual(['a', 'a']);
+    });
+
+    it('moves repeated entries to the end with dedupe "all"', () => {
+      const store = createHistoryStore({ filePath, dedupe: 'all' });
+      store.append('a');
+      store.append('b');
+      expect(store.append('a')).toEqual(['b', 'a']);
+    });
+
+    it('limits loaded history to maxEntries', () => {
+      const store = createHistoryStore({ filePath, maxEntries: 2 });
+      store.append('a');
+      store.append('b');
+      store.append('c');
+      expect(store.load()).toEqual(['b', 'c']);
+    });
+
+    it('compacts the file once it exceeds twice maxEntries', () => {
+      const store = createHistoryStore({ filePath, maxEntries: 2 });
+      ['a', 'b', 'c', 'd'].forEach((entry) => store.append(entry));
+      expect(readFileSync(filePath, 'utf8').split('\n').filter(Boolean)).toHaveLength(4);
+
+      expect(store.append('e')).toEqual(['d', 'e']);
+      expect(readFileSync(filePath, 'utf8')).toBe('"d"\n"e"\n');
+    });
+
+    it('keeps entries another store appends before compaction', () => {
+      const store = createHistoryStore({ filePath, maxEntries: 3 });
+      ['a', 'b', 'c', 'd', 'e', 'f'].forEach((entry) => store.append(entry));
+
+      // A larger limit, so this store leaves the compaction to the first
+      createHistoryStore({ filePath, maxEntries: 10 }).append('other');
+
+      expect(store.append('g')).toEqual(['f', 'other', 'g']);
+      expect(readFileSync(filePath, 'utf8')).toBe('"f"\n"other"\n"g"\n');
+      expect(existsSync(`${filePath}.lock`)).toBe(false);
+    });
+
+    it('leaves compaction to the store holding the lock', () => {
+      const store = createHistoryStore({ filePath, maxEntries: 1 });
+      writeFileSync(`${filePath}.lock`, '');
+      ['a', 'b', 'c'].forEach((entry) => store.append(entry));
+      expect(readFileSync(filePath, 'utf8').split('\n').filter(Boolean)).toHaveLength(3);
+    });
+
+    it('counts entries other stores appended when deciding to compact', () => {
+      const store = createHistoryStore({ filePath, maxEntries: 2 });
+      store.append('a');
+      store.append('b');
+      const other = createHistoryStore({ filePath, maxEntries: 2 });
+      other.append('c');
+      other.append('d');
+
+      expect(store.append('e')).toEqual(['d', 'e']);
+      expect(readFileSync(filePath, 'utf8')).toBe('"d"\n"e"\n');
+    });
+
+    it('sees the last entry another store appended when skipping duplicates', () => {
+      const store = createHistoryStore({ filePath });
+      store.append('a');
+      createHistoryStore({ filePath }).append('b');
+
+      expect(store.append('b')).toEqual(['a', 'b']);
+      expect(readFileSync(filePath, 'utf8')).toBe('"a"\n"b"\n');
+    });
+
+    it('takes over a lock left by a crashed process', () => {
+      const store = createHistoryStore({ filePath, maxEntries: 1 });
+      const lockPath = `${filePath}.lock`;
+      writeFileSync(lockPath, '');
+      const old = new Date(Date.now() - 60_000);
+      utimesSync(lockPath, old, old);
+
+      ['a', 'b', 'c'].forEach((entry) => store.append(entry));
+
+      expect(readFileSync(filePath, 'utf8')).toBe('"c"\n');
+      expect(readdirSync(dir)).toEqual(['history.jsonl']);
+    });
+
+    it('skips corrupt lines', () => {
+      writeFileSync(filePath, '"a"\nnot json\n42\n"b"\n');
+      expect(createHistoryStore({ filePath }).load()).toEqual(['a', 'b']);
+    });
+
+    it('starts a new line after a partial write', () => {
+      writeFileSync(filePath, '"a"\n"trunc');
+      const store = createHistoryStore({ filePath });
+      expect(store.append('b')).toEqual(['a', 'b']);
+      expect(store.load()).toEqual(['a', 'b']);
+    });
+
+    it('shares one file between several stores', () => {
+      const first = createHistoryStore({ filePath });
+      const second = createHistoryStore({ filePath });
+      first.append('from first');
+      second.append('from second');
+      expect(first.load()).toEqual(['from first', 'from second']);
+    });
+
+    it('clears the history', () => {
+      const store = createHistoryStore({ filePath });
+      store.append('a');
+      store.clear();
+      expect(existsSync(filePath)).toBe(false);
+      expect(store.load()).toEqual([]);
+    });
+  });
+});
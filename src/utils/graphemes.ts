@@ -0,0 +1,189 @@
+/**
+ * Grapheme cluster segmentation and terminal display width measurement.
+ *
+ * Buffer columns are UTF-16 offsets into a line, but a terminal draws
+ * grapheme clusters (user-perceived characters) that can span several code
+ * units and occupy zero, one or two cells. These helpers bridge the two.
+ */
+
+const segmenter: Intl.Segmenter | undefined =
+  typeof Intl !== 'undefined' && typeof Intl.Segmenter === 'function'
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : undefined;
+
+const ZERO_WIDTH_RE = /^[\p{Mn}\p{Me}\p{Cf}\u200B\uFE00-\uFE0F\u{E0100}-\u{E01EF}]$/u;
+const EXTENDER_RE = /^[\p{M}\u200D\uFE00-\uFE0F\u{E0100}-\u{E01EF}\u{1F3FB}-\u{1F3FF}]$/u;
+const EMOJI_PRESENTATION_RE = /\p{Emoji_Presentation}/u;
+const PICTOGRAPHIC_RE = /\p{Extended_Pictographic}/u;
+const REGIONAL_INDICATOR_RE = /^[\u{1F1E6}-\u{1F1FF}]$/u;
+
+/**
+ * Code point ranges with East Asian Width "W" (wide) or "F" (fullwidth).
+ */
+const WIDE_RANGES: ReadonlyArray<readonly [number, number]> = [
+  [0x1100, 0x115f],
+  [0x231a, 0x231b],
+  [0x2329, 0x232a],
+  [0x2e80, 0x303e],
+  [0x3041, 0x33ff],
+  [0x3400, 0x4dbf],
+  [0x4e00, 0x9fff],
+  [0xa000, 0xa4cf],
+  [0xa960, 0xa97f],
+  [0xac00, 0xd7a3],
+  [0xf900, 0xfaff],
+  [0xfe10, 0xfe19],
+  [0xfe30, 0xfe6f],
+  [0xff00, 0xff60],
+  [0xffe0, 0xffe6],
+  [0x16fe0, 0x16fe4],
+  [0x17000, 0x18cff],
+  [0x1b000, 0x1b2ff],
+  [0x1f200, 0x1f251],
+  [0x20000, 0x3fffd],
+];
+
+function isWideCodePoint(codePoint: number): boolean {
+  for (const [start, end] of WIDE_RANGES) {
+    if (codePoint < start) return false;
+    if (codePoint <= end) return true;
+  }
+  return false;
+}
+
+/**
+ * Fallback segmentation for runtimes without Intl.Segmenter: attaches
+ * combining marks, variation selectors and ZWJ sequences to their base.
+ */
+function fallbackSegment(text: string): string[] {
+  const clusters: string[] = [];
+  let joinNext = false;
+
+  for (const char of text) {
+    const last = clusters.length - 1;
+    if (last >= 0 && (joinNext || EXTENDER_RE.test(char))) {
+      clusters[last] += char;
+    } else if (
+      last >= 0 &&
+      REGIONAL_INDICATOR_RE.test(char) &&
+      clusters[last].length === 2 &&
+      REGIONAL_INDICATOR_RE.test(clusters[last])
+    ) {
+      clusters[last] += char;
+    } else {
+      clusters.push(char);
+    }
+    joinNext = char === '\u200D';
+  }
+
+  return clusters;
+}
+
+/**
+ * Split text into grapheme clusters.
+ */
+export function splitGraphemes(text: string): string[] {
+  if (!text) return [];
+  if (!segmenter) return fallbackSegment(text);
+
+  const clusters: string[] = [];
+  for (const { segment } of segmenter.segment(text)) {
+    clusters.push(segment);
+  }
+  return clusters;
+}
+
+/**
+ * Number of terminal cells a single grapheme cluster occupies (0, 1 or 2).
+ */
+export function getGraphemeWidth(grapheme: string): number {
+  const codePoint = grapheme.codePointAt(0);
+  if (codePoint === undefined) return 0;
+
+  // Control characters
+  if (codePoint < 0x20 || (codePoint >= 0x7f && codePoint < 0xa0)) return 0;
+
+  const base = String.fromCodePoint(codePoint);
+  if (grapheme.length === base.length && ZERO_WIDTH_RE.test(base)) return 0;
+
+  if (isWideCodePoint(codePoint)) return 2;
+
+  // Emoji: either presented as emoji by default, forced by VS16, or
+  // combined into a ZWJ / flag sequence
+  if (EMOJI_PRESENTATION_RE.test(base)) return 2;
+  if (PICTOGRAPHIC_RE.test(base) && (grapheme.includes('\uFE0F') || grapheme.includes('\u200D'))) {
+    return 2;
+  }
+  if (REGIONAL_INDICATOR_RE.test(base)) return grapheme.length > base.length ? 2 : 1;
+
+  return 1;
+}
+
+/**
+ * Number of terminal cells a string occupies.
+ */
+export function getStringWidth(text: string): number {
+  let width = 0;
+  for (const grapheme of splitGraphemes(text)) {
+    width += getGraphemeWidth(grapheme);
+  }
+  return width;
+}
+
+/**
+ * Offset of the grapheme boundary immediately before `index`.
+ * Returns 0 when already at the start of the text.
+ */
+export function previousGraphemeBoundary(text: string, index: number): number {
+  if (index <= 0) return 0;
+
+  let offset = 0;
+  for (const grapheme of splitGraphemes(text)) {
+    const next = offset + grapheme.length;
+    if (next >= index) return offset;
+    offset = next;
+  }
+  return offset;
+}
+
+/**
+ * Offset of the grapheme boundary immediately after `index`.
+ * Returns the text length when already at the end of the text.
+ */
+export function nextGraphemeBoundary(text: string, index: number): number {
+  if (index >= text.length) return text.length;
+
+  let offset = 0;
+  for (const grapheme of splitGraphemes(text)) {
+    offset += grapheme.length;
+    if (offset > index) return offset;
+  }
+  return text.length;
+}
+
+/**
+ * Grapheme cluster starting at `index`, or an empty string at the end of the text.
+ */
+export function graphemeAt(text: string, index: number): string {
+  if (index >= text.length) return '';
+  return text.slice(index, nextGraphemeBoundary(text, index));
+}
+
+/**
+ * Map a display column (in cells) within `text` to a UTF-16 offset.
+ * The result never splits a grapheme cluster: a column that falls inside a
+ * wide character resolves to the start of that character.
+ */
+export function offsetAtWidth(text: string, targetWidth: number): number {
+  if (targetWidth <= 0) return 0;
+
+  let offset = 0;
+  let width = 0;
+  for (const grapheme of splitGraphemes(text)) {
+    const graphemeWidth = getGraphemeWidth(grapheme);
+    if (width + graphemeWidth > targetWidth) break;
+    width += graphemeWidth;
+    offset += grapheme.length;
+  }
+  return offset;
+}
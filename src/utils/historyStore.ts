@@ -0,0 +1,293 @@
+import {
+  appendFileSync,
+  closeSync,
+  existsSync,
+  linkSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  readSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { dirname } from 'path';
+import { log } from './logger.js';
+
+/**
+ * How duplicate entries are removed:
+ * - 'none': keep every entry
+ * - 'consecutive': skip an entry equal to the most recent one
+ * - 'all': keep only the most recent occurrence of each entry
+ */
+export type HistoryDedupe = 'none' | 'consecutive' | 'all';
+
+export interface HistoryStoreOptions {
+  /** Path of the history file (created on first append) */
+  filePath: string;
+  /** Maximum number of entries to keep (default: 1000) */
+  maxEntries?: number;
+  /** Duplicate handling (default: 'consecutive') */
+  dedupe?: HistoryDedupe;
+}
+
+export interface HistoryStore {
+  /** Read the history from disk, oldest first */
+  load: () => string[];
+  /** Append an entry and return the updated history, oldest first */
+  append: (entry: string) => string[];
+  /** Remove every entry */
+  clear: () => void;
+}
+
+/**
+ * Apply the dedupe policy and size limit to a list of entries.
+ */
+export function normalizeHistory(entries: string[], dedupe: HistoryDedupe, maxEntries: number): string[] {
+  let result = entries;
+
+  if (dedupe === 'consecutive') {
+    result = result.filter((entry, i) => i === 0 || entry !== result[i - 1]);
+  } else if (dedupe === 'all') {
+    const seen = new Set<string>();
+    const reversed: string[] = [];
+    for (let i = result.length - 1; i >= 0; i--) {
+      if (!seen.has(result[i])) {
+        seen.add(result[i]);
+        reversed.push(result[i]);
+      }
+    }
+    result = reversed.reverse();
+  }
+
+  return result.length > maxEntries ? result.slice(result.length - maxEntries) : result;
+}
+
+/**
+ * Parse JSONL history content. Lines that are not JSON strings (e.g. a
+ * partial line left by a crashed writer) are skipped.
+ */
+function parseEntries(content: string): string[] {
+  const entries: string[] = [];
+  for (const line of content.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      const entry: unknown = JSON.parse(line);
+      if (typeof entry === 'string') {
+        entries.push(entry);
+      }
+    } catch {
+      // Skip corrupt line
+    }
+  }
+  return entries;
+}
+
+function serializeEntries(entries: string[]): string {
+  return entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+}
+
+/** A compaction lock older than this was left by a crashed process */
+const STALE_LOCK_MS = 10_000;
+/** How often compaction starts over when other processes keep appending */
+const COMPACT_ATTEMPTS = 3;
+
+/**
+ * Create a file-backed prompt history.
+ *
+ * Entries are stored one JSON string per line (JSONL), so multi-line
+ * prompts round-trip safely. Each append is a single `O_APPEND` write, which
+ * lets several processes share one file. The entries are kept in memory and
+ * read again when the file's size shows another process changed it. When
+ * the file grows past twice `maxEntries` lines it is compacted (dedupe +
+ * trim) by writing a temporary file and renaming it over the original.
+ * Compaction holds a lock file, works from a fresh read of the file and
+ * starts over if another process appended in the meantime, so no entry is
+ * lost.
+ *
+ * I/O errors are logged and otherwise ignored so a broken history file
+ * never crashes the prompt.
+ */
+export function createHistoryStore({
+  filePath,
+  maxEntries = 1000,
+  dedupe = 'consecutive',
+}: HistoryStoreOptions): HistoryStore {
+  const readContent = (): string => {
+    if (!existsSync(filePath)) {
+      return '';
+    }
+    try {
+      return readFileSync(filePath, 'utf8');
+    } catch (error) {
+      log(`[HISTORY] failed to read ${filePath}: ${String(error)}`, 'WARN');
+      return '';
+    }
+  };
+
+  const lockPath = `${filePath}.lock`;
+
+  // Entries as last read or written by this store, oldest first (not
+  // normalized), and the size of the file they match
+  let cached: string[] | undefined;
+  let cachedSize = 0;
+
+  const fileSize = (): number => {
+    try {
+      return statSync(filePath).size;
+    } catch {
+      return 0;
+    }
+  };
+
+  // Whether the file ends inside a line an interrupted writer left behind
+  const endsWithPartialLine = (): boolean => {
+    const size = fileSize();
+    if (size === 0) {
+      return false;
+    }
+    try {
+      const fd = openSync(filePath, 'r');
+      try {
+        const last = Buffer.alloc(1);
+        readSync(fd, last, 0, 1, size - 1);
+        return last.toString() !== '\n';
+      } finally {
+        closeSync(fd);
+      }
+    } catch {
+      return false;
+    }
+  };
+
+  const readEntries = (): string[] => {
+    const content = readContent();
+    cached = parseEntries(content);
+    cachedSize = Buffer.byteLength(content);
+    return cached;
+  };
+
+  const createLock = (): boolean => {
+    try {
+      closeSync(openSync(lockPath, 'wx'));
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const isStale = (path: string): boolean => Date.now() - statSync(path).mtimeMs > STALE_LOCK_MS;
+
+  const acquireLock = (): boolean => {
+    if (createLock()) {
+      return true;
+    }
+    // Someone else is compacting, unless they crashed doing it. Only one
+    // process can rename the stale lock away; the re-check catches a lock
+    // that was taken over (and so renewed) between the stat and the rename.
+    const stalePath = `${lockPath}.${process.pid}.stale`;
+    try {
+      if (!isStale(lockPath)) {
+        return false;
+      }
+      renameSync(lockPath, stalePath);
+    } catch {
+      // Released, or lost the race for the stale lock
+      return false;
+    }
+    try {
+      if (isStale(stalePath)) {
+        return createLock();
+      }
+      // Put the live lock back, unless someone has taken its place
+      try {
+        linkSync(stalePath, lockPath);
+      } catch {
+        // Already replaced
+      }
+      return false;
+    } catch {
+      return false;
+    } finally {
+      try {
+        unlinkSync(stalePath);
+      } catch {
+        // Already gone
+      }
+    }
+  };
+
+  const compact = (): void => {
+    if (!acquireLock()) {
+      return;
+    }
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      for (let attempt = 0; attempt < COMPACT_ATTEMPTS; attempt++) {
+        const content = readContent();
+        const entries = normalizeHistory(parseEntries(content), dedupe, maxEntries);
+        const serialized = serializeEntries(entries);
+        writeFileSync(tempPath, serialized);
+        // Appends that landed after the read would be lost by the rename
+        if (fileSize() !== Buffer.byteLength(content)) {
+          continue;
+        }
+        renameSync(tempPath, filePath);
+        cached = entries;
+        cachedSize = Buffer.byteLength(serialized);
+        return;
+      }
+      unlinkSync(tempPath);
+    } catch (error) {
+      log(`[HISTORY] failed to compact ${filePath}: ${String(error)}`, 'WARN');
+    } finally {
+      try {
+        unlinkSync(lockPath);
+      } catch {
+        // Already gone
+      }
+    }
+  };
+
+  const load = (): string[] => normalizeHistory(readEntries(), dedupe, maxEntries);
+
+  const append = (entry: string): string[] => {
+    // Another process appended or compacted if the size changed
+    const size = fileSize();
+    const raw = cached && size === cachedSize ? cached : readEntries();
+    if (dedupe !== 'none' && raw[raw.length - 1] === entry) {
+      return normalizeHistory(raw, dedupe, maxEntries);
+    }
+
+    try {
+      mkdirSync(dirname(filePath), { recursive: true });
+      // Start on a fresh line if an interrupted writer left a partial one
+      const text = (endsWithPartialLine() ? '\n' : '') + serializeEntries([entry]);
+      appendFileSync(filePath, text);
+      cachedSize = size + Buffer.byteLength(text);
+    } catch (error) {
+      log(`[HISTORY] failed to append to ${filePath}: ${String(error)}`, 'WARN');
+    }
+
+    cached = [...raw, entry];
+    if (cached.length > maxEntries * 2) {
+      compact();
+    }
+    return normalizeHistory(cached, dedupe, maxEntries);
+  };
+
+  const clear = (): void => {
+    try {
+      cached = [];
+      cachedSize = 0;
+      if (existsSync(filePath)) {
+        unlinkSync(filePath);
+      }
+    } catch (error) {
+      log(`[HISTORY] failed to clear ${filePath}: ${String(error)}`, 'WARN');
+    }
+  };
+
+  return { load, append, clear };
+}